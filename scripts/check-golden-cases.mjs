@@ -0,0 +1,24 @@
+// ============================================
+// Headless golden-case regression check
+// Usage: npm run rules:check [-- path/to/rule-set.json]
+// Exits non-zero when any golden case mismatches, for pre-publish checks.
+// ============================================
+
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import path from 'node:path'
+import { createJiti } from 'jiti'
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const jiti = createJiti(import.meta.url, { alias: { '@': path.join(root, 'src') } })
+
+const { goldenCaseLibrary, runGoldenCases, formatGoldenReport } = await jiti.import('@/lib/golden-cases')
+const { defaultRuleSet } = await jiti.import('@/lib/rule-definitions')
+
+// A rule set version exported as JSON, or the bundled default
+const ruleSetPath = process.argv[2]
+const ruleSet = ruleSetPath ? JSON.parse(readFileSync(ruleSetPath, 'utf8')) : defaultRuleSet
+
+const report = runGoldenCases(goldenCaseLibrary, ruleSet)
+console.log(formatGoldenReport(report))
+process.exitCode = report.failed > 0 ? 1 : 0
@@ -1,8 +1,17 @@
 'use client'
 
 import React, { useEffect, useState, useMemo, Suspense } from 'react'
-import { useAppStore, useActiveCase } from '@/lib/store'
-import { mockCases, mockTimelineEvents, mockProcessingLogs, mockDecisionTrace } from '@/lib/mock-data'
+import {
+  useAppStore,
+  useActiveCase,
+  useEffectiveRuleSet,
+  useCaseRuleExceptions,
+  useConfidenceThresholds,
+} from '@/lib/store'
+import { getConfidenceLevel } from '@/lib/utils'
+import { mockCases, mockTimelineEvents, mockProcessingLogs } from '@/lib/mock-data'
+import { buildDecisionTrace } from '@/lib/decision-trace'
+import { useFraudScreening } from '@/hooks/useFraudScreening'
 import { StatusBadge } from '@/components/ui/status-badge'
 import { ConfidenceMeter } from '@/components/ui/confidence-meter'
 import { SLATimer } from '@/components/ui/sla-timer'
@@ -14,7 +23,7 @@ import { Separator } from '@/components/ui/separator'
 import { WorkflowStepperWithProgress } from '@/components/features/workflow-stepper'
 import { Timeline } from '@/components/features/timeline'
 import { ProcessingLogs, type ProcessingLog } from '@/components/features/ai-logs'
-import { DecisionTraceViewer, type DecisionTrace } from '@/components/features/decision-trace'
+import { DecisionTraceViewer } from '@/components/features/decision-trace'
 import { TimelineEvent } from '@/types'
 import {
   Search,
@@ -44,6 +53,19 @@ function CaseDetailContent({ id }: { id: string }) {
   }, [id, setActiveCaseId])
 
   const caseData = activeCase || mockCases.find((c) => c.id === id)
+  const thresholdsFor = useConfidenceThresholds(caseData?.type)
+
+  // Trace the rule set that produced the case's results, or the one in force
+  const ruleSetsById = useAppStore((state) => state.ruleSets.byId)
+  const effectiveRuleSet = useEffectiveRuleSet()
+  const exceptions = useCaseRuleExceptions(id)
+  const screenedCase = useFraudScreening(caseData ?? null)
+  const decisionTrace = useMemo(() => {
+    if (!screenedCase || screenedCase.extractedData.fields.length === 0) return null
+    const ruleSet =
+      (screenedCase.ruleSetVersionId && ruleSetsById[screenedCase.ruleSetVersionId]) || effectiveRuleSet
+    return buildDecisionTrace(screenedCase, ruleSet, exceptions).trace
+  }, [screenedCase, ruleSetsById, effectiveRuleSet, exceptions])
 
   if (!caseData) {
     return (
@@ -238,7 +260,12 @@ function CaseDetailContent({ id }: { id: string }) {
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-lg">Extracted Data</CardTitle>
-                    <ConfidenceMeter value={caseData.extractedData.confidence} size="sm" showLabel />
+                    <ConfidenceMeter
+                      value={caseData.extractedData.confidence}
+                      level={getConfidenceLevel(caseData.extractedData.confidence, thresholdsFor())}
+                      size="sm"
+                      showLabel
+                    />
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -247,7 +274,12 @@ function CaseDetailContent({ id }: { id: string }) {
                       <div key={field.id} className="space-y-1">
                         <p className="text-sm font-medium">{field.label}</p>
                         <p className="text-sm text-text-secondary">{String(field.value)}</p>
-                        <ConfidenceMeter value={field.confidence} size="sm" variant="linear" />
+                        <ConfidenceMeter
+                          value={field.confidence}
+                          level={getConfidenceLevel(field.confidence, thresholdsFor(field.name))}
+                          size="sm"
+                          variant="linear"
+                        />
                       </div>
                     ))}
                   </div>
@@ -321,10 +353,18 @@ function CaseDetailContent({ id }: { id: string }) {
 
           {/* Trace Tab */}
           <TabsContent value="trace" className="flex-1 m-0 p-0 overflow-hidden">
-            <DecisionTraceViewer
-              trace={mockDecisionTrace as DecisionTrace}
-              onNodeAction={(node) => console.log('Node action:', node)}
-            />
+            {decisionTrace ? (
+              <DecisionTraceViewer
+                trace={decisionTrace}
+                onNodeAction={(node) => console.log('Node action:', node)}
+              />
+            ) : (
+              <div className="flex items-center justify-center h-full p-6 text-center">
+                <p className="text-sm text-text-secondary">
+                  No extracted data yet. The decision trace appears once rules have been evaluated.
+                </p>
+              </div>
+            )}
           </TabsContent>
         </Tabs>
       </aside>
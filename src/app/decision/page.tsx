@@ -15,7 +15,10 @@ import {
   type DecisionType,
 } from '@/components/features/decision-summary'
 import { Shield, ArrowLeft, Home, CheckCircle } from 'lucide-react'
+import { ExportMenu } from '@/components/features/export-menu'
 import { useWorkflowContext } from '@/hooks/useWorkflowContext'
+import { useAppStore } from '@/lib/store'
+import { mockCases } from '@/lib/mock-data'
 import { toast } from 'sonner'
 
 function DecisionPageContent() {
@@ -217,9 +220,29 @@ function DecisionPageContent() {
     },
   ]
 
+  // The active case's computed decision replaces the mock amounts
+  const caseDecision = activeCase?.decision
+  const decisions = mockDecisions.map((d) =>
+    caseDecision && d.caseId === activeCase.id
+      ? {
+          ...d,
+          decisionType: caseDecision.status,
+          approvedAmount: caseDecision.approvedAmount,
+          payoutAmount: caseDecision.status === 'partial' ? caseDecision.claimAmount : caseDecision.approvedAmount,
+          calculation: caseDecision.calculation,
+        }
+      : d
+  )
+
   const selectedDecision = selectedDecisionId
-    ? mockDecisions.find((d) => d.id === selectedDecisionId)
-    : mockDecisions[0]
+    ? decisions.find((d) => d.id === selectedDecisionId)
+    : decisions[0]
+
+  // Case the selected decision was made on, for exporting its extracted data
+  const storedDecidedCase = useAppStore((state) =>
+    selectedDecision ? state.cases.byId[selectedDecision.caseId] : undefined
+  )
+  const decidedCase = storedDecidedCase ?? mockCases.find((c) => c.id === selectedDecision?.caseId)
 
   // Handlers
   const handleApprove = () => {
@@ -280,10 +303,10 @@ function DecisionPageContent() {
 
         <ScrollArea className="flex-1 p-4">
           <div className="space-y-4">
-            <DecisionStats decisions={mockDecisions} />
+            <DecisionStats decisions={decisions} />
             <DecisionHistory
-              decisions={mockDecisions}
-              selectedDecisionId={selectedDecisionId || mockDecisions[0].id}
+              decisions={decisions}
+              selectedDecisionId={selectedDecisionId || decisions[0].id}
               onSelectDecision={setSelectedDecisionId}
             />
           </div>
@@ -295,6 +318,12 @@ function DecisionPageContent() {
         <div className="p-6 space-y-6 max-w-4xl mx-auto">
           <WorkflowStepper currentStep={6} showLabels showNumbers={false} />
 
+          {decidedCase && (
+            <div className="flex justify-end">
+              <ExportMenu cases={[decidedCase]} label="Export case data" />
+            </div>
+          )}
+
           {selectedDecision && (
             <DecisionSummaryCard
               decision={selectedDecision}
@@ -18,7 +18,7 @@
  * - Zoom, pan, and page navigation for document inspection
  */
 
-import React, { useState, useCallback, Suspense, useRef, useEffect } from 'react'
+import React, { useState, useCallback, useMemo, Suspense, useRef, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Button } from '@/components/ui/button'
@@ -28,16 +28,31 @@ import { WorkflowStepper } from '@/components/features/workflow-stepper'
 import {
   FieldGroup,
   CompactExtractedField,
+  ExtractedField as ExtractedFieldEditor,
   type ExtractedField,
   type FieldGroup as FieldGroupType,
   confidenceConfig,
+  toExtractedFieldViewModel,
 } from '@/components/features/extraction-editor'
 import {
   ExtractionDocumentViewer,
   createBoundingBoxesFromFields,
+  createBoundingBoxesFromTables,
+  toSourceRegion,
   type BoundingBox,
+  type DrawnRegion,
 } from '@/components/features/extraction-document-viewer'
+import { FieldConflictPanel } from '@/components/features/field-conflicts'
+import { FieldHistoryPopover } from '@/components/features/field-history'
+import { LineItemTable } from '@/components/features/line-item-table'
+import { ExportMenu } from '@/components/features/export-menu'
+import { DocumentClassificationBadge } from '@/components/features/document-classification'
 import { useExtractionSync } from '@/hooks/useExtractionSync'
+import { useExtractionFieldEdits } from '@/hooks/useExtractionFieldEdits'
+import { useExtractionUndo } from '@/hooks/useExtractionUndo'
+import { useReviewQueue } from '@/hooks/useReviewQueue'
+import { ProgressBar } from '@/components/ui/progress'
+import { toast } from 'sonner'
 import {
   FileText,
   User,
@@ -54,9 +69,43 @@ import {
   Eye,
   EyeOff,
   Layers,
+  ShieldCheck,
+  Undo2,
+  Redo2,
+  CheckCheck,
+  Flag,
+  Keyboard,
+  Receipt,
+  X,
 } from 'lucide-react'
-import { useWorkflowContext } from '@/hooks/useWorkflowContext'
+import { useWorkflowContext, useCaseById } from '@/hooks/useWorkflowContext'
+import { mockCases } from '@/lib/mock-data'
+import { useConfidenceThresholds } from '@/lib/store'
+import { findFieldConflicts } from '@/lib/field-consistency'
+import {
+  findMissingFields,
+  getExtractionSchema,
+  OTHER_GROUP_ID,
+  schemaGroups,
+  type SchemaField,
+} from '@/lib/extraction-schemas'
+import { useReextractField } from '@/lib/api-hooks'
+import type { ApiError } from '@/lib/api-client'
 import { cn } from '@/lib/utils'
+import type { DocumentClassType } from '@/types'
+
+// ============================================
+// Field Groups
+// ============================================
+
+const groupIcons: Record<string, React.ReactNode> = {
+  claimant: <User className="h-4 w-4" />,
+  claim: <DollarSign className="h-4 w-4" />,
+  provider: <Building className="h-4 w-4" />,
+  policy: <ShieldCheck className="h-4 w-4" />,
+  billing: <Receipt className="h-4 w-4" />,
+  [OTHER_GROUP_ID]: <FileText className="h-4 w-4" />,
+}
 
 // ============================================
 // Enhanced Field Card with Hover/Click Sync
@@ -66,20 +115,24 @@ interface SyncedFieldCardProps {
   field: ExtractedField & { groupName?: string }
   isActive: boolean
   isHovered: boolean
+  isReviewTarget?: boolean // current field of the review queue
   onHover: (fieldId: string | null) => void
   onClick: (fieldId: string) => void
   onEdit: (fieldId: string) => void
   registerRef: (fieldId: string, ref: HTMLElement | null) => void
+  actions?: React.ReactNode
 }
 
 function SyncedFieldCard({
   field,
   isActive,
   isHovered,
+  isReviewTarget = false,
   onHover,
   onClick,
   onEdit,
   registerRef,
+  actions,
 }: SyncedFieldCardProps) {
   const config = confidenceConfig[field.confidenceLevel]
   const isHighlighted = isActive || isHovered
@@ -88,7 +141,7 @@ function SyncedFieldCard({
     <div
       ref={(ref) => registerRef(field.id, ref)}
       className={cn(
-        'relative p-3 rounded-lg border-2 transition-all duration-200 cursor-pointer',
+        'group relative p-3 rounded-lg border-2 transition-all duration-200 cursor-pointer',
         'hover:shadow-md',
         isHighlighted && 'ring-2 ring-offset-2',
         field.confidenceLevel === 'high' && 'border-emerald-300 hover:border-emerald-400',
@@ -99,7 +152,9 @@ function SyncedFieldCard({
         isActive && field.confidenceLevel === 'low' && 'ring-red-500 bg-red-50',
         isHovered && !isActive && 'bg-gray-50',
         field.status === 'edited' && 'border-l-4 border-l-primary',
+        isReviewTarget && 'ring-2 ring-primary ring-offset-2',
       )}
+      aria-current={isReviewTarget || undefined}
       onMouseEnter={() => onHover(field.id)}
       onMouseLeave={() => onHover(null)}
       onClick={() => onClick(field.id)}
@@ -129,6 +184,12 @@ function SyncedFieldCard({
             {field.status === 'edited' && (
               <Badge variant="outline" className="text-xs h-4 px-1">Edited</Badge>
             )}
+            {field.flagged && (
+              <Badge variant="outline" className="text-xs h-4 px-1 gap-0.5 text-warning border-current">
+                <Flag className="h-2.5 w-2.5" />
+                Flagged
+              </Badge>
+            )}
           </div>
 
           {/* Value */}
@@ -155,18 +216,21 @@ function SyncedFieldCard({
           </div>
         </div>
 
-        {/* Edit button */}
-        <Button
-          variant="ghost"
-          size="sm"
-          className="h-7 px-2 opacity-0 group-hover:opacity-100 transition-opacity"
-          onClick={(e) => {
-            e.stopPropagation()
-            onEdit(field.id)
-          }}
-        >
-          Edit
-        </Button>
+        {/* Actions */}
+        <div className="flex items-center">
+          {actions}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 opacity-0 group-hover:opacity-100 transition-opacity"
+            onClick={(e) => {
+              e.stopPropagation()
+              onEdit(field.id)
+            }}
+          >
+            Edit
+          </Button>
+        </div>
       </div>
 
       {/* Low confidence warning */}
@@ -180,153 +244,109 @@ function SyncedFieldCard({
   )
 }
 
+// ============================================
+// Missing Required Field
+// ============================================
+
+function MissingFieldCard({ field }: { field: SchemaField }) {
+  return (
+    <div className="p-3 rounded-lg border-2 border-dashed border-error/40 bg-error/5">
+      <div className="flex items-center gap-2 mb-1">
+        <p className="text-xs font-medium text-text-secondary">{field.label}</p>
+        <span className="text-error text-xs">*</span>
+        <Badge variant="outline" className="text-xs h-4 px-1 text-error border-current">
+          Missing
+        </Badge>
+      </div>
+      <p className="text-xs text-text-tertiary">
+        Required but not found in the case documents
+      </p>
+    </div>
+  )
+}
+
 // ============================================
 // Main Page Component
 // ============================================
 
 function ExtractionEditorPageContent() {
-  const { caseId, navigateToStep } = useWorkflowContext()
+  const { caseId, activeCase, navigateToStep } = useWorkflowContext()
   const [editingFieldId, setEditingFieldId] = useState<string | null>(null)
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(
-    new Set(['claimant', 'claim', 'provider'])
+    () => new Set(schemaGroups.map((group) => group.id))
   )
 
-  // Mock extraction data with source regions for document mapping
-  const mockFieldGroups: FieldGroupType[] = [
-    {
-      id: 'claimant',
-      name: 'Claimant Information',
-      icon: <User className="h-4 w-4" />,
-      isExpanded: true,
-      fields: [
-        {
-          id: 'field-1',
-          label: 'Full Name',
-          value: 'John Andrew Smith Jr.',
-          originalValue: 'John Andrew Smith Jr.',
-          confidence: 96,
-          confidenceLevel: 'high',
-          status: 'auto-accepted',
-          sourceRegion: { page: 1, x: 50, y: 145, width: 200, height: 20 },
-          isRequired: true,
-        },
-        {
-          id: 'field-2',
-          label: 'Date of Birth',
-          value: 'March 15, 1985',
-          originalValue: 'March 15, 1985',
-          confidence: 94,
-          confidenceLevel: 'high',
-          status: 'auto-accepted',
-          sourceRegion: { page: 1, x: 350, y: 145, width: 150, height: 20 },
-          isRequired: true,
-        },
-        {
-          id: 'field-3',
-          label: 'Address',
-          value: '123 Main Street, Apt 4B, New York, NY 10001',
-          originalValue: '123 Main Street, Apt 4B, New York, NY 10001',
-          confidence: 78,
-          confidenceLevel: 'medium',
-          status: 'review-suggested',
-          sourceRegion: { page: 1, x: 50, y: 195, width: 450, height: 20 },
-        },
-      ],
-    },
-    {
-      id: 'claim',
-      name: 'Claim Details',
-      icon: <FileText className="h-4 w-4" />,
-      isExpanded: true,
-      fields: [
-        {
-          id: 'field-4',
-          label: 'Claim ID',
-          value: 'CLM-2024-08947',
-          originalValue: 'CLM-2024-08947',
-          confidence: 100,
-          confidenceLevel: 'high',
-          status: 'auto-accepted',
-          sourceRegion: { page: 1, x: 350, y: 265, width: 150, height: 20 },
-          isRequired: true,
-        },
-        {
-          id: 'field-5',
-          label: 'Claim Date',
-          value: 'January 15, 2024',
-          originalValue: 'January 15, 2024',
-          confidence: 98,
-          confidenceLevel: 'high',
-          status: 'auto-accepted',
-          sourceRegion: { page: 1, x: 50, y: 265, width: 150, height: 20 },
-          isRequired: true,
-        },
-        {
-          id: 'field-6',
-          label: 'Claim Amount',
-          value: '$3,280.00',
-          originalValue: '$3,280.00',
-          confidence: 92,
-          confidenceLevel: 'high',
-          status: 'auto-accepted',
-          sourceRegion: { page: 2, x: 50, y: 265, width: 120, height: 25 },
-          isRequired: true,
-        },
-        {
-          id: 'field-7',
-          label: 'Treatment Type',
-          value: 'Emergency Room Visit',
-          originalValue: 'Emergency Room Visit',
-          confidence: 65,
-          confidenceLevel: 'low',
-          status: 'review-required',
-          sourceRegion: { page: 1, x: 50, y: 315, width: 200, height: 20 },
-        },
-      ],
-    },
-    {
-      id: 'provider',
-      name: 'Provider Information',
-      icon: <Building className="h-4 w-4" />,
-      isExpanded: true,
-      fields: [
-        {
-          id: 'field-8',
-          label: 'Provider Name',
-          value: 'City Medical Center',
-          originalValue: 'City Medical Center',
-          confidence: 88,
-          confidenceLevel: 'medium',
-          status: 'review-suggested',
-          sourceRegion: { page: 2, x: 50, y: 110, width: 250, height: 20 },
-          isRequired: true,
-        },
-        {
-          id: 'field-9',
-          label: 'NPI Number',
-          value: '1234567890',
-          originalValue: '1234567890',
-          confidence: 45,
-          confidenceLevel: 'low',
-          status: 'review-required',
-          sourceRegion: { page: 2, x: 50, y: 160, width: 120, height: 20 },
-        },
-        {
-          id: 'field-10',
-          label: 'Tax ID',
-          value: '12-3456789',
-          originalValue: '12-3456789',
-          confidence: 52,
-          confidenceLevel: 'low',
-          status: 'review-required',
-          sourceRegion: { page: 2, x: 300, y: 160, width: 120, height: 20 },
-        },
-      ],
-    },
-  ]
+  // Fields of the case under review, grouped and ordered by its extraction schema.
+  // Re-read from the store so saved edits on the demo case are picked up.
+  const reviewedCase = useCaseById(activeCase?.id ?? mockCases[0].id) ?? mockCases[0]
+  const caseFields = reviewedCase.extractedData.fields
+  const thresholdsFor = useConfidenceThresholds(reviewedCase.type)
+  const schema = useMemo(
+    () =>
+      getExtractionSchema(
+        reviewedCase.type,
+        reviewedCase.documents.map((doc) => doc.classification.type)
+      ),
+    [reviewedCase.type, reviewedCase.documents]
+  )
+  // Nothing is missing before extraction has run
+  const missingFields = useMemo(
+    () => (caseFields.length > 0 ? findMissingFields(schema, caseFields) : []),
+    [schema, caseFields]
+  )
+  const fieldGroups = useMemo<FieldGroupType[]>(() => {
+    const schemaFieldNames = new Set(schema.fields.map((field) => field.name))
+    return schema.groups
+      .map((group) => {
+        const fields =
+          group.id === OTHER_GROUP_ID
+            ? caseFields
+                .filter((field) => !schemaFieldNames.has(field.name))
+                .map((field) => toExtractedFieldViewModel(field, false, thresholdsFor(field.name)))
+            : schema.fields
+                .filter((schemaField) => schemaField.group === group.id)
+                .flatMap((schemaField) =>
+                  caseFields
+                    .filter((field) => field.name === schemaField.name)
+                    .map((field) =>
+                      toExtractedFieldViewModel(field, schemaField.isRequired, thresholdsFor(field.name))
+                    )
+                )
+        return { ...group, icon: groupIcons[group.id], isExpanded: true, fields }
+      })
+      .filter(
+        (group) =>
+          group.fields.length > 0 || missingFields.some((field) => field.group === group.id)
+      )
+  }, [schema, caseFields, missingFields, thresholdsFor])
+  // Thresholds of fields without their own, shown in the legend
+  const caseThresholds = thresholdsFor()
+  const missingByGroup = useMemo(() => {
+    const byGroup: Record<string, SchemaField[]> = {}
+    for (const field of missingFields) (byGroup[field.group] ??= []).push(field)
+    return byGroup
+  }, [missingFields])
+  const fieldsById = useMemo(
+    () => Object.fromEntries(caseFields.map((field) => [field.id, field])),
+    [caseFields]
+  )
+  const {
+    saveField,
+    revertField,
+    acceptFields,
+    toggleFlag,
+    resolveConflict,
+    reclassifyDocument,
+    applyFieldReextraction,
+    saveTableCell,
+    addTableRow,
+    removeTableRow,
+  } = useExtractionFieldEdits(reviewedCase)
+  const reextractField = useReextractField()
+  const { canUndo, canRedo, undoLabel, redoLabel, undo, redo } = useExtractionUndo(reviewedCase.id)
 
   // Flatten fields for sync hook
-  const allFields = mockFieldGroups.flatMap((group) =>
+  const allFields = fieldGroups.flatMap((group) =>
     group.fields.map((field) => ({
       ...field,
       groupId: group.id,
@@ -347,14 +367,35 @@ function ExtractionEditorPageContent() {
     setShowAllHighlights,
     toggleDocumentPanel,
     registerFieldRef,
+    scrollToField,
     totalPages,
   } = useExtractionSync({
     fields: allFields,
     initialPage: 1,
   })
 
+  // Line-item tables; their cells are highlighted in the viewer like fields
+  const caseTables = reviewedCase.extractedData.tables ?? []
+  const [activeCellId, setActiveCellId] = useState<string | null>(null)
+  const [hoveredCellId, setHoveredCellId] = useState<string | null>(null)
+  const isTableCell = (id: string) => caseTables.some((table) => table.rows.some((row) => id.startsWith(`${row.id}:`)))
+
+  const selectField = (fieldId: string) => {
+    setActiveCellId(null)
+    setActiveField(fieldId)
+  }
+  const handleBoxClick = (id: string) => (isTableCell(id) ? setActiveCellId(id) : selectField(id))
+  const handleBoxHover = (id: string | null) => {
+    if (id && isTableCell(id)) {
+      setHoveredCellId(id)
+    } else {
+      setHoveredCellId(null)
+      setHoveredField(id)
+    }
+  }
+
   // Create bounding boxes for document viewer
-  const boundingBoxes = createBoundingBoxesFromFields(allFields)
+  const boundingBoxes = [...createBoundingBoxesFromFields(allFields), ...createBoundingBoxesFromTables(caseTables, thresholdsFor('lineItems'))]
 
   // Mock document pages
   const documentPages = [
@@ -374,16 +415,75 @@ function ExtractionEditorPageContent() {
     })
   }
 
-  const handleFieldSave = async (fieldId: string, value: string) => {
-    console.log('Saving field:', fieldId, 'with value:', value)
-    await new Promise((resolve) => setTimeout(resolve, 1000))
-    console.log('Field saved successfully')
+  // Per-document values that disagree
+  const conflicts = useMemo(
+    () => findFieldConflicts(reviewedCase.extractedData),
+    [reviewedCase]
+  )
+
+  const handleFieldSave = async (fieldId: string, value: string, reason?: string) => {
+    const error = saveField(fieldId, value, reason)
+    if (error) throw new Error(error)
+    setEditingFieldId(null)
   }
 
+  // Read a field again from a region drawn on the document
+  const handleRegionReextract = async (fieldId: string, region: DrawnRegion) => {
+    const field = fieldsById[fieldId]
+    try {
+      const result = await reextractField.mutateAsync({
+        caseId: reviewedCase.id,
+        fieldId,
+        source: {
+          documentId: field.source.documentId,
+          page: region.page,
+          region: toSourceRegion(region),
+        },
+      })
+      applyFieldReextraction(fieldId, result)
+      toast.success(`${field.label} re-extracted`, {
+        description: `${result.confidence}% confidence`,
+      })
+    } catch (error) {
+      toast.error(`Could not re-extract ${field.label}`, {
+        description: (error as ApiError).message,
+      })
+      throw error
+    }
+  }
+  const regionTargets = useMemo(
+    () => caseFields.map((field) => ({ fieldId: field.id, label: field.label })),
+    [caseFields]
+  )
+
   // Stats
   const highConfidenceCount = allFields.filter((f) => f.confidenceLevel === 'high').length
   const mediumConfidenceCount = allFields.filter((f) => f.confidenceLevel === 'medium').length
   const lowConfidenceCount = allFields.filter((f) => f.confidenceLevel === 'low').length
+  const suggestedFieldIds = allFields.filter((f) => f.status === 'review-suggested').map((f) => f.id)
+
+  // Review queue: review-required and review-suggested fields, in display order
+  const reviewFields = useMemo(
+    () => fieldGroups.flatMap((group) => group.fields.map((field) => fieldsById[field.id])),
+    [fieldGroups, fieldsById]
+  )
+  const reviewQueue = useReviewQueue({
+    fields: reviewFields,
+    thresholdsFor,
+    onAccept: (fieldId) => {
+      if (acceptFields([fieldId]) === 0) {
+        toast.error(`${fieldsById[fieldId]?.label} cannot be accepted as it is`, {
+          description: 'Its value does not validate. Press E to correct it.',
+        })
+      }
+    },
+    onEdit: setEditingFieldId,
+    onFlag: toggleFlag,
+    onFocusField: (fieldId) => {
+      setActiveField(fieldId)
+      scrollToField(fieldId)
+    },
+  })
 
   return (
     <div className="flex-1 flex min-h-0 overflow-hidden">
@@ -400,12 +500,14 @@ function ExtractionEditorPageContent() {
             boundingBoxes={boundingBoxes}
             currentPage={currentPage}
             onPageChange={setCurrentPage}
-            activeFieldId={activeFieldId}
-            hoveredFieldId={hoveredFieldId}
-            onFieldHover={setHoveredField}
-            onFieldClick={setActiveField}
+            activeFieldId={activeCellId ?? activeFieldId}
+            hoveredFieldId={hoveredCellId ?? hoveredFieldId}
+            onFieldHover={handleBoxHover}
+            onFieldClick={handleBoxClick}
             showAllHighlights={showAllHighlights}
             onToggleHighlights={setShowAllHighlights}
+            regionTargets={regionTargets}
+            onRegionReextract={handleRegionReextract}
             className="flex-1"
           />
         )}
@@ -441,6 +543,57 @@ function ExtractionEditorPageContent() {
             </div>
 
             <div className="flex items-center gap-2">
+              {/* Undo / redo */}
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={undo}
+                  disabled={!canUndo}
+                  title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                  aria-label="Undo"
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={redo}
+                  disabled={!canRedo}
+                  title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                  aria-label="Redo"
+                >
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {/* Review queue */}
+              <Button
+                variant={reviewQueue.isActive ? 'secondary' : 'outline'}
+                size="sm"
+                className="gap-1.5"
+                onClick={reviewQueue.isActive ? reviewQueue.stop : reviewQueue.start}
+                disabled={!reviewQueue.isActive && reviewQueue.isComplete}
+              >
+                <Keyboard className="h-4 w-4" />
+                {reviewQueue.isActive ? 'Exit review' : `Review queue (${reviewQueue.remaining})`}
+              </Button>
+
+              {/* Bulk accept */}
+              {suggestedFieldIds.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-1.5"
+                  onClick={() => acceptFields(suggestedFieldIds)}
+                >
+                  <CheckCheck className="h-4 w-4" />
+                  Accept suggested ({suggestedFieldIds.length})
+                </Button>
+              )}
+
               {/* Confidence summary */}
               <div className="flex items-center gap-3 text-xs mr-4">
                 <div className="flex items-center gap-1">
@@ -457,6 +610,8 @@ function ExtractionEditorPageContent() {
                 </div>
               </div>
 
+              <ExportMenu cases={[reviewedCase]} />
+
               {/* Toggle document panel (mobile) */}
               <Button
                 variant="outline"
@@ -501,8 +656,97 @@ function ExtractionEditorPageContent() {
               </CardContent>
             </Card>
 
+            {/* Review queue progress */}
+            {reviewQueue.isActive && (
+              <Card className="border-primary sticky top-0 z-10">
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <h3 className="text-sm font-semibold">
+                        {reviewQueue.isComplete
+                          ? 'Review queue complete'
+                          : `Reviewing ${fieldsById[reviewQueue.currentFieldId ?? '']?.label ?? ''}`}
+                      </h3>
+                      <p className="text-xs text-text-secondary">
+                        {reviewQueue.reviewedCount} of {reviewQueue.total} reviewed
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={reviewQueue.stop} aria-label="Exit review">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <ProgressBar value={reviewQueue.reviewedCount} max={Math.max(reviewQueue.total, 1)} size="sm" />
+                  {!reviewQueue.isComplete && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-text-secondary">
+                      {[
+                        ['A', 'Accept'],
+                        ['E', 'Edit'],
+                        ['F', 'Flag'],
+                        ['J / ↓', 'Next'],
+                        ['K / ↑', 'Previous'],
+                        ['Esc', 'Exit'],
+                      ].map(([key, action]) => (
+                        <span key={key}>
+                          <kbd className="px-1.5 py-0.5 rounded border border-border-light bg-bg-tertiary font-mono">{key}</kbd>{' '}
+                          {action}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <FieldConflictPanel
+              conflicts={conflicts}
+              documents={reviewedCase.documents}
+              onResolve={resolveConflict}
+            />
+
+            {/* Document classifications */}
+            {reviewedCase.documents.length > 0 && (
+              <Card>
+                <CardHeader className="py-3">
+                  <CardTitle className="text-sm">Documents</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 pb-4">
+                  {reviewedCase.documents.map((doc) => (
+                    <div key={doc.id} className="flex items-center justify-between gap-3">
+                      <span className="text-sm truncate">{doc.name}</span>
+                      <DocumentClassificationBadge
+                        size="sm"
+                        classification={{
+                          documentId: doc.id,
+                          classification: {
+                            type: doc.classification.type as DocumentClassType,
+                            confidence: doc.classification.confidence,
+                            detectedAt: new Date(doc.uploadedAt),
+                            processingTime: 0,
+                            manualOverride: doc.classification.manuallyOverridden,
+                          },
+                        }}
+                        onTypeChange={reclassifyDocument}
+                      />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {caseFields.length === 0 && (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <FileText className="h-8 w-8 text-text-tertiary mx-auto mb-2" />
+                  <p className="text-sm font-medium">No extracted fields yet</p>
+                  <p className="text-xs text-text-secondary">
+                    Fields appear here once extraction has run on the case documents.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Field Groups */}
-            {mockFieldGroups.map((group) => (
+            {fieldGroups.map((group) => (
               <Card key={group.id}>
                 <CardContent className="p-4">
                   {/* Group Header */}
@@ -520,6 +764,9 @@ function ExtractionEditorPageContent() {
                         <h3 className="text-sm font-semibold">{group.name}</h3>
                         <p className="text-xs text-text-secondary">
                           {group.fields.length} field{group.fields.length !== 1 ? 's' : ''}
+                          {missingByGroup[group.id] && (
+                            <span className="text-error"> · {missingByGroup[group.id].length} missing</span>
+                          )}
                         </p>
                       </div>
                     </div>
@@ -544,17 +791,40 @@ function ExtractionEditorPageContent() {
                   {/* Field Cards */}
                   {expandedGroups.has(group.id) && (
                     <div className="space-y-3">
-                      {group.fields.map((field) => (
-                        <SyncedFieldCard
-                          key={field.id}
-                          field={{ ...field, groupName: group.name }}
-                          isActive={activeFieldId === field.id}
-                          isHovered={hoveredFieldId === field.id}
-                          onHover={setHoveredField}
-                          onClick={setActiveField}
-                          onEdit={setEditingFieldId}
-                          registerRef={registerFieldRef}
-                        />
+                      {group.fields.map((field) =>
+                        editingFieldId === field.id ? (
+                          <ExtractedFieldEditor
+                            key={field.id}
+                            field={field}
+                            isEditing
+                            showReason
+                            onSave={(value, reason) => handleFieldSave(field.id, value, reason)}
+                            onCancel={() => setEditingFieldId(null)}
+                          />
+                        ) : (
+                          <SyncedFieldCard
+                            key={field.id}
+                            field={{ ...field, groupName: group.name }}
+                            isActive={activeFieldId === field.id}
+                            isHovered={hoveredFieldId === field.id}
+                            isReviewTarget={reviewQueue.currentFieldId === field.id}
+                            onHover={setHoveredField}
+                            onClick={selectField}
+                            onEdit={setEditingFieldId}
+                            registerRef={registerFieldRef}
+                            actions={
+                              <FieldHistoryPopover
+                                caseId={reviewedCase.id}
+                                field={fieldsById[field.id]}
+                                onRevert={(revision) => revertField(field.id, revision)}
+                                className="opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+                              />
+                            }
+                          />
+                        )
+                      )}
+                      {missingByGroup[group.id]?.map((field) => (
+                        <MissingFieldCard key={field.name} field={field} />
                       ))}
                     </div>
                   )}
@@ -562,6 +832,22 @@ function ExtractionEditorPageContent() {
               </Card>
             ))}
 
+            {/* Line items */}
+            {caseTables.map((table) => (
+              <LineItemTable
+                key={table.id}
+                table={table}
+                totalField={caseFields.find((field) => field.name === table.totalFieldName)}
+                thresholds={thresholdsFor(table.name)}
+                activeCellId={activeCellId}
+                onCellSave={(rowId, column, value) => saveTableCell(table.id, rowId, column, value)}
+                onAddRow={() => addTableRow(table.id)}
+                onRemoveRow={(rowId) => removeTableRow(table.id, rowId)}
+                onCellHover={setHoveredCellId}
+                onCellClick={setActiveCellId}
+              />
+            ))}
+
             {/* Legend */}
             <Card>
               <CardHeader className="py-3">
@@ -572,21 +858,23 @@ function ExtractionEditorPageContent() {
                   <div className="p-2.5 rounded-lg border border-emerald-200 bg-emerald-50">
                     <div className="flex items-center gap-2 mb-1">
                       <div className="w-3 h-3 rounded-full bg-emerald-500" />
-                      <span className="text-xs font-medium">High (≥90%)</span>
+                      <span className="text-xs font-medium">High (≥{caseThresholds.high}%)</span>
                     </div>
                     <p className="text-xs text-text-secondary">Auto-accepted</p>
                   </div>
                   <div className="p-2.5 rounded-lg border border-amber-200 bg-amber-50">
                     <div className="flex items-center gap-2 mb-1">
                       <div className="w-3 h-3 rounded-full bg-amber-500" />
-                      <span className="text-xs font-medium">Medium (70-89%)</span>
+                      <span className="text-xs font-medium">
+                        Medium ({caseThresholds.medium}-{caseThresholds.high - 1}%)
+                      </span>
                     </div>
                     <p className="text-xs text-text-secondary">Review suggested</p>
                   </div>
                   <div className="p-2.5 rounded-lg border border-red-200 bg-red-50">
                     <div className="flex items-center gap-2 mb-1">
                       <div className="w-3 h-3 rounded-full bg-red-500" />
-                      <span className="text-xs font-medium">Low (&lt;70%)</span>
+                      <span className="text-xs font-medium">Low (&lt;{caseThresholds.medium}%)</span>
                     </div>
                     <p className="text-xs text-text-secondary">Review required</p>
                   </div>
@@ -608,21 +896,25 @@ function ExtractionEditorPageContent() {
                   </Button>
 
                   <div className="flex items-center gap-2 text-center">
-                    {lowConfidenceCount > 0 ? (
+                    {!reviewQueue.isComplete || missingFields.length > 0 ? (
                       <AlertTriangle className="h-5 w-5 text-amber-500" />
                     ) : (
                       <FileCheck className="h-5 w-5 text-emerald-500" />
                     )}
                     <div>
                       <p className="text-sm font-medium">
-                        {lowConfidenceCount > 0
-                          ? `${lowConfidenceCount} field${lowConfidenceCount > 1 ? 's' : ''} need review`
-                          : 'All fields ready'}
+                        {!reviewQueue.isComplete
+                          ? `${reviewQueue.remaining} field${reviewQueue.remaining > 1 ? 's' : ''} need review`
+                          : missingFields.length > 0
+                            ? `${missingFields.length} required field${missingFields.length > 1 ? 's' : ''} missing`
+                            : 'All fields ready'}
                       </p>
                       <p className="text-xs text-text-secondary">
-                        {lowConfidenceCount > 0
-                          ? 'Complete reviews to continue'
-                          : 'Proceed to rules evaluation'}
+                        {!reviewQueue.isComplete
+                          ? 'Complete the review queue to continue'
+                          : missingFields.length > 0
+                            ? 'Rules that depend on them will not pass'
+                            : 'Proceed to rules evaluation'}
                       </p>
                     </div>
                   </div>
@@ -630,6 +922,7 @@ function ExtractionEditorPageContent() {
                   <Button
                     size="lg"
                     onClick={() => navigateToStep('rules', caseId || undefined)}
+                    disabled={!reviewQueue.isComplete}
                     className="gap-2"
                   >
                     Continue to Rules
@@ -14,6 +14,7 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Input } from '@/components/ui/input'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Separator } from '@/components/ui/separator'
+import { ExportMenu } from '@/components/features/export-menu'
 import {
   FileText,
   Upload,
@@ -156,15 +157,20 @@ export default function HomePage() {
             <div className="flex items-center justify-between">
               <CardTitle>Recent Cases</CardTitle>
 
-              {/* Search */}
-              <div className="relative max-w-sm">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-secondary" />
-                <Input
-                  placeholder="Search cases..."
-                  className="pl-9"
-                  value={filters.searchQuery || ''}
-                  onChange={handleSearchChange}
-                />
+              <div className="flex items-center gap-3">
+                {/* Search */}
+                <div className="relative max-w-sm">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-secondary" />
+                  <Input
+                    placeholder="Search cases..."
+                    className="pl-9"
+                    value={filters.searchQuery || ''}
+                    onChange={handleSearchChange}
+                  />
+                </div>
+
+                {/* Export the cases matching the filters */}
+                <ExportMenu cases={cases} label={`Export (${cases.length})`} size="default" />
               </div>
             </div>
           </CardHeader>
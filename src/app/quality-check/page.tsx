@@ -9,7 +9,6 @@ import { WorkflowStepper } from '@/components/features/workflow-stepper'
 import {
   QualityCheckPanel,
   CompactQualityCheck,
-  type DocumentQuality,
 } from '@/components/features/quality-check-panel'
 import {
   QualityGateModal,
@@ -18,6 +17,7 @@ import {
 } from '@/components/features/quality-check-modal'
 import { Shield, FileText, AlertTriangle, ArrowRight, ArrowLeft } from 'lucide-react'
 import { useWorkflowContext } from '@/hooks/useWorkflowContext'
+import type { DocumentQuality } from '@/types'
 
 function QualityCheckPageContent() {
   const { caseId, activeCase, navigateToStep } = useWorkflowContext()
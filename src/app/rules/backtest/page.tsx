@@ -0,0 +1,322 @@
+'use client'
+
+import React, { Suspense, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { RuleDiff } from '@/components/features/rules-engine'
+import { ArrowLeft, ArrowRight, ChevronDown, ChevronRight, History, Play } from 'lucide-react'
+import { useAllCases, useRuleSetVersions, useEffectiveRuleSet } from '@/lib/store'
+import { useBacktestRuleSet } from '@/lib/api-hooks'
+import { backtestRuleSet } from '@/lib/backtest'
+import { mockCases } from '@/lib/mock-data'
+import { cn, formatCurrency, formatDate } from '@/lib/utils'
+import type { BacktestCaseImpact, BacktestReport, DecisionStatus } from '@/types'
+
+type CaseSource = 'local' | 'api'
+
+const DECISION_STATUSES: DecisionStatus[] = ['approved', 'partial', 'rejected']
+
+const decisionColor: Record<DecisionStatus, string> = {
+  approved: 'text-success',
+  partial: 'text-warning',
+  rejected: 'text-error',
+}
+
+// ============================================
+// Case Impact Row
+// ============================================
+
+function CaseImpactRow({ impact }: { impact: BacktestCaseImpact }) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  return (
+    <div className="border border-border-light rounded-lg bg-bg-primary">
+      <button
+        type="button"
+        className="w-full flex items-center gap-3 p-3 text-left"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-4 w-4 text-text-tertiary" />
+        ) : (
+          <ChevronRight className="h-4 w-4 text-text-tertiary" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{impact.caseTitle}</p>
+          <p className="text-xs text-text-tertiary">{impact.caseId}</p>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <span className={cn('capitalize', decisionColor[impact.baselineDecision])}>
+            {impact.baselineDecision}
+          </span>
+          <ArrowRight className="h-3 w-3 text-text-tertiary" />
+          <span className={cn('capitalize font-medium', decisionColor[impact.draftDecision])}>
+            {impact.draftDecision}
+          </span>
+        </div>
+        <span
+          className={cn(
+            'w-28 text-right text-sm font-medium',
+            impact.payoutDelta > 0 && 'text-success',
+            impact.payoutDelta < 0 && 'text-error'
+          )}
+        >
+          {impact.payoutDelta > 0 ? '+' : ''}
+          {formatCurrency(impact.payoutDelta)}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-2">
+          <p className="text-xs text-text-secondary">
+            Payout {formatCurrency(impact.baselinePayout)} → {formatCurrency(impact.draftPayout)}
+          </p>
+          {impact.diffs.map((diff) => (
+            <RuleDiff key={diff.ruleId} diff={diff} title={diff.ruleName} />
+          ))}
+          {impact.removedRuleIds.length > 0 && (
+            <p className="text-xs text-text-secondary">
+              Removed in draft: {impact.removedRuleIds.join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// Backtest Page
+// ============================================
+
+function BacktestPageContent() {
+  const searchParams = useSearchParams()
+  const versions = useRuleSetVersions()
+  const baseline = useEffectiveRuleSet()
+  const storeCases = useAllCases()
+  const apiBacktest = useBacktestRuleSet()
+
+  const [draftId, setDraftId] = useState(searchParams.get('version') ?? versions[0]?.id ?? baseline.id)
+  const [source, setSource] = useState<CaseSource>('local')
+  const [localReport, setLocalReport] = useState<BacktestReport | null>(null)
+
+  const draft = versions.find((v) => v.id === draftId) ?? baseline
+  // Cases are only in the store once a workflow page has loaded them
+  const localCases = storeCases.length > 0 ? storeCases : mockCases
+  const report = source === 'api' ? apiBacktest.data ?? null : localReport
+
+  const handleRun = () => {
+    if (source === 'api') {
+      apiBacktest.mutate({ draft, baseline })
+    } else {
+      setLocalReport(backtestRuleSet(localCases, draft, baseline))
+    }
+  }
+
+  const handleReset = () => {
+    setLocalReport(null)
+    apiBacktest.reset()
+  }
+
+  const downgrades = report
+    ? report.transitions.approved.rejected + report.transitions.approved.partial
+    : 0
+
+  return (
+    <main className="flex-1 min-w-0 overflow-y-auto bg-bg-secondary">
+      <div className="p-6 space-y-6 max-w-5xl mx-auto">
+        <Link href="/rules/editor">
+          <Button variant="ghost" className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Rule Editor
+          </Button>
+        </Link>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              Backtest Rule Set
+            </CardTitle>
+            <p className="text-sm text-text-secondary">
+              Compares a rule set version with version {baseline.version} (currently in force) over
+              existing cases. Nothing is written back to the cases.
+            </p>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-center gap-3">
+            <Select
+              value={draft.id}
+              onValueChange={(id) => {
+                setDraftId(id)
+                handleReset()
+              }}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.id}>
+                    Version {version.version} ({version.status})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={source}
+              onValueChange={(value) => {
+                setSource(value as CaseSource)
+                handleReset()
+              }}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="local">Loaded cases ({localCases.length})</SelectItem>
+                <SelectItem value="api">Cases from API</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={handleRun} disabled={apiBacktest.isPending}>
+              <Play className="h-4 w-4 mr-2" />
+              {apiBacktest.isPending ? 'Running...' : 'Run Backtest'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {source === 'api' && apiBacktest.isError && (
+          <Card className="border-error bg-error/5">
+            <CardContent className="p-4 text-sm text-error">
+              Could not load cases from the API: {apiBacktest.error.message}
+            </CardContent>
+          </Card>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-xs text-text-secondary">Cases evaluated</p>
+                  <p className="text-2xl font-semibold">{report.totalCases - report.skippedCases}</p>
+                  {report.skippedCases > 0 && (
+                    <p className="text-xs text-text-tertiary">{report.skippedCases} without extracted data</p>
+                  )}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-xs text-text-secondary">Cases affected</p>
+                  <p className="text-2xl font-semibold">{report.changedCases}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-xs text-text-secondary">Approved → rejected / partial</p>
+                  <p className={cn('text-2xl font-semibold', downgrades > 0 && 'text-error')}>
+                    {report.transitions.approved.rejected} / {report.transitions.approved.partial}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-xs text-text-secondary">Total payout delta</p>
+                  <p
+                    className={cn(
+                      'text-2xl font-semibold',
+                      report.totalPayoutDelta > 0 && 'text-success',
+                      report.totalPayoutDelta < 0 && 'text-error'
+                    )}
+                  >
+                    {report.totalPayoutDelta > 0 ? '+' : ''}
+                    {formatCurrency(report.totalPayoutDelta)}
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Decision Changes</CardTitle>
+                <p className="text-xs text-text-secondary">
+                  Rows are version {baseline.version}, columns are version {draft.version} ·{' '}
+                  {formatDate(report.ranAt)} · {report.duration}ms
+                </p>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead className="text-xs text-text-secondary">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium" />
+                      {DECISION_STATUSES.map((to) => (
+                        <th key={to} className="px-3 py-2 text-right font-medium capitalize">
+                          {to}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {DECISION_STATUSES.map((from) => (
+                      <tr key={from} className="border-t border-border-light">
+                        <td className={cn('px-3 py-2 capitalize', decisionColor[from])}>{from}</td>
+                        {DECISION_STATUSES.map((to) => (
+                          <td
+                            key={to}
+                            className={cn(
+                              'px-3 py-2 text-right',
+                              from !== to && report.transitions[from][to] > 0 && 'font-semibold'
+                            )}
+                          >
+                            {report.transitions[from][to]}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">Affected Cases</CardTitle>
+                  <Badge variant="outline">{report.impacts.length}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {report.impacts.length === 0 ? (
+                  <p className="text-sm text-text-secondary">
+                    No case outcomes change under version {draft.version}.
+                  </p>
+                ) : (
+                  report.impacts.map((impact) => <CaseImpactRow key={impact.caseId} impact={impact} />)
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
+
+// Wrap with Suspense for useSearchParams
+export default function BacktestPage() {
+  return (
+    <Suspense fallback={<div className="h-full flex items-center justify-center">Loading...</div>}>
+      <BacktestPageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,287 @@
+'use client'
+
+import React, { useState, useMemo } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  RuleDefinitionEditor,
+  RuleSetVersionList,
+  RULE_CATEGORIES,
+  createEmptyRule,
+} from '@/components/features/rule-editor'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  GitBranch,
+  Plus,
+  Send,
+  Trash2,
+  Lock,
+  ShieldAlert,
+  FlaskConical,
+  History,
+} from 'lucide-react'
+import { useAppStore, useRuleSetVersions, useEffectiveRuleSet } from '@/lib/store'
+import { validateRuleDefinition } from '@/lib/rules-engine'
+import { mockExtractedData } from '@/lib/mock-data'
+import { formatDate } from '@/lib/utils'
+import type { RuleCategory, RuleDefinition } from '@/types'
+
+// Facts derived from the case itself rather than extracted fields
+const DERIVED_FACTS = ['caseType', 'documentTypes', 'documentCount', 'fraudRiskScore', 'fraudEvidence']
+
+const EDITOR_ROLES = ['admin', 'manager']
+
+export default function RuleEditorPage() {
+  const versions = useRuleSetVersions()
+  const effectiveRuleSet = useEffectiveRuleSet()
+  const user = useAppStore((state) => state.session.user)
+  const createRuleSetDraft = useAppStore((state) => state.createRuleSetDraft)
+  const updateRuleSetDraft = useAppStore((state) => state.updateRuleSetDraft)
+  const deleteRuleSetDraft = useAppStore((state) => state.deleteRuleSetDraft)
+  const publishRuleSet = useAppStore((state) => state.publishRuleSet)
+
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const selected = versions.find((v) => v.id === selectedId) ?? versions[0] ?? null
+
+  const canEdit = !!user && EDITOR_ROLES.includes(user.role)
+  const isDraft = selected?.status === 'draft'
+  const readOnly = !canEdit || !isDraft
+
+  // Fields a published rule already reads are known; a draft cannot vouch for its own
+  const knownFields = useMemo(() => {
+    const published = versions
+      .filter((v) => v.status === 'published')
+      .flatMap((v) => v.rules.flatMap((rule) => rule.inputFields))
+    return [...mockExtractedData.fields.map((f) => f.name), ...DERIVED_FACTS, ...published]
+  }, [versions])
+
+  const fieldNames = useMemo(() => {
+    const referenced = versions.flatMap((v) => v.rules.flatMap((rule) => rule.inputFields))
+    return Array.from(new Set([...knownFields, ...referenced])).sort()
+  }, [versions, knownFields])
+
+  const validationErrors = useMemo(
+    () =>
+      isDraft && selected
+        ? selected.rules.flatMap((rule) => validateRuleDefinition(rule, knownFields))
+        : [],
+    [isDraft, selected, knownFields]
+  )
+
+  const rulesByCategory = useMemo(
+    () =>
+      RULE_CATEGORIES.map((category) => ({
+        category,
+        rules: (selected?.rules ?? []).filter((rule) => rule.category === category),
+      })),
+    [selected]
+  )
+
+  const setRules = (rules: RuleDefinition[]) => {
+    if (selected) updateRuleSetDraft(selected.id, { rules })
+  }
+
+  const handleRuleChange = (updated: RuleDefinition, originalId: string) =>
+    setRules((selected?.rules ?? []).map((rule) => (rule.id === originalId ? updated : rule)))
+
+  const handleAddRule = (category: RuleCategory) =>
+    setRules([...(selected?.rules ?? []), createEmptyRule(category)])
+
+  const handleDeleteRule = (ruleId: string) =>
+    setRules((selected?.rules ?? []).filter((rule) => rule.id !== ruleId))
+
+  const handleNewDraft = () => {
+    const draftId = createRuleSetDraft(selected?.id ?? effectiveRuleSet.id)
+    setSelectedId(draftId)
+  }
+
+  const handleDeleteDraft = () => {
+    if (!selected) return
+    deleteRuleSetDraft(selected.id)
+    setSelectedId(null)
+  }
+
+  const handlePublish = () => {
+    if (!selected || validationErrors.length > 0) return
+    publishRuleSet(selected.id, selected.effectiveFrom)
+  }
+
+  return (
+    <div className="flex-1 flex min-h-0 overflow-hidden">
+      {/* LEFT PANEL - Versions (320px) */}
+      <aside className="w-[320px] flex-shrink-0 border-r border-border-light bg-bg-primary flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-border-light">
+          <div className="flex items-center gap-2">
+            <GitBranch className="h-6 w-6 text-primary" />
+            <h2 className="text-lg font-semibold">Rule Sets</h2>
+          </div>
+          <p className="text-xs text-text-secondary mt-1">
+            Published versions are locked. Create a draft to make changes.
+          </p>
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="p-4 space-y-4">
+            {canEdit && (
+              <Button variant="outline" className="w-full" onClick={handleNewDraft}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Draft from v{selected?.version ?? effectiveRuleSet.version}
+              </Button>
+            )}
+            <RuleSetVersionList
+              versions={versions}
+              selectedId={selected?.id ?? null}
+              effectiveId={effectiveRuleSet.id}
+              onSelect={setSelectedId}
+            />
+          </div>
+        </ScrollArea>
+      </aside>
+
+      {/* CENTER PANEL - Rule Authoring */}
+      <main className="flex-1 min-w-0 overflow-y-auto bg-bg-secondary">
+        <div className="p-6 space-y-6 max-w-4xl mx-auto">
+          <Link href="/rules">
+            <Button variant="ghost" className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Rules Engine
+            </Button>
+          </Link>
+
+          {!canEdit && (
+            <Card className="border-warning bg-warning/5">
+              <CardContent className="p-4 flex items-center gap-3">
+                <ShieldAlert className="h-5 w-5 text-warning" />
+                <p className="text-sm">Only managers can author and publish rule sets.</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {selected && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  {!isDraft && <Lock className="h-4 w-4 text-text-tertiary" />}
+                  Rule Set Version {selected.version}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-text-secondary">Effective from</p>
+                    <Input
+                      type="date"
+                      value={selected.effectiveFrom.slice(0, 10)}
+                      disabled={readOnly}
+                      onChange={(e) => updateRuleSetDraft(selected.id, { effectiveFrom: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1 text-xs text-text-secondary">
+                    <p>Created by {selected.createdBy} on {formatDate(selected.createdAt)}</p>
+                    {selected.basedOn && (
+                      <p>
+                        Based on version{' '}
+                        {versions.find((v) => v.id === selected.basedOn)?.version ?? 'unknown'}
+                      </p>
+                    )}
+                    {selected.publishedAt && (
+                      <p>Published by {selected.publishedBy} on {formatDate(selected.publishedAt)}</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-text-secondary">Change notes</p>
+                  <Textarea
+                    placeholder="What changed in this version?"
+                    value={selected.notes ?? ''}
+                    disabled={readOnly}
+                    onChange={(e) => updateRuleSetDraft(selected.id, { notes: e.target.value })}
+                  />
+                </div>
+
+                {canEdit && validationErrors.length > 0 && (
+                  <div className="rounded-lg border border-error/30 bg-error/5 p-3 space-y-1">
+                    <p className="text-sm font-medium text-error flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4" />
+                      Fix {validationErrors.length} problem{validationErrors.length === 1 ? '' : 's'} before publishing
+                    </p>
+                    <ul className="list-disc pl-6 text-xs text-text-secondary space-y-0.5">
+                      {validationErrors.map((error, index) => (
+                        <li key={index}>{error}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-end gap-2">
+                  <Link href={`/rules/backtest?version=${selected.id}`}>
+                    <Button variant="outline">
+                      <History className="h-4 w-4 mr-2" />
+                      Backtest
+                    </Button>
+                  </Link>
+                  <Link href={`/rules/regression?version=${selected.id}`}>
+                    <Button variant="outline">
+                      <FlaskConical className="h-4 w-4 mr-2" />
+                      Run Golden Cases
+                    </Button>
+                  </Link>
+                  {isDraft && canEdit && (
+                    <>
+                      <Button variant="outline" onClick={handleDeleteDraft}>
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Discard Draft
+                      </Button>
+                      <Button
+                        onClick={handlePublish}
+                        disabled={selected.rules.length === 0 || validationErrors.length > 0}
+                      >
+                        <Send className="h-4 w-4 mr-2" />
+                        Publish Version {selected.version}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Rules by Category */}
+          {selected &&
+            rulesByCategory.map(({ category, rules }) => (
+              <section key={category} className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold">
+                    {category}{' '}
+                    <span className="text-text-tertiary font-normal">({rules.length})</span>
+                  </h3>
+                  {!readOnly && (
+                    <Button variant="outline" size="sm" onClick={() => handleAddRule(category)}>
+                      <Plus className="h-3 w-3 mr-1" />
+                      Add Rule
+                    </Button>
+                  )}
+                </div>
+                {rules.map((rule) => (
+                  <RuleDefinitionEditor
+                    key={rule.id}
+                    rule={rule}
+                    readOnly={readOnly}
+                    fieldNames={fieldNames}
+                    onChange={(updated) => handleRuleChange(updated, rule.id)}
+                    onDelete={() => handleDeleteRule(rule.id)}
+                  />
+                ))}
+              </section>
+            ))}
+        </div>
+      </main>
+    </div>
+  )
+}
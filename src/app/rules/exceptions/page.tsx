@@ -0,0 +1,169 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { ArrowLeft, Check, X, ShieldAlert, ShieldCheck } from 'lucide-react'
+import { useAppStore, useRuleExceptions } from '@/lib/store'
+import { useRuleExceptionWorkflow, EXCEPTION_REVIEWER_ROLES } from '@/hooks/useRuleExceptionWorkflow'
+import { cn, formatDate } from '@/lib/utils'
+import type { RuleException, RuleExceptionStatus } from '@/types'
+
+const statusColor: Record<RuleExceptionStatus, string> = {
+  pending: 'text-warning',
+  approved: 'text-success',
+  denied: 'text-error',
+}
+
+// ============================================
+// Pending Exception Card
+// ============================================
+
+interface PendingExceptionCardProps {
+  exception: RuleException
+  canReview: boolean
+  onReview: (status: 'approved' | 'denied', note: string) => void
+}
+
+function PendingExceptionCard({ exception, canReview, onReview }: PendingExceptionCardProps) {
+  const [note, setNote] = useState('')
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium">{exception.ruleName}</p>
+            <Link href={`/cases/${exception.caseId}`} className="text-xs text-primary hover:underline">
+              {exception.caseId}
+            </Link>
+          </div>
+          <p className="text-xs text-text-tertiary text-right">
+            Requested by {exception.requestedBy}
+            <br />
+            {formatDate(exception.requestedAt)}
+          </p>
+        </div>
+
+        <p className="text-sm text-text-secondary">{exception.reason}</p>
+
+        {canReview && (
+          <>
+            <Textarea
+              placeholder="Review note (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <div className="flex items-center justify-end gap-2">
+              <Button variant="outline" onClick={() => onReview('denied', note)}>
+                <X className="h-4 w-4 mr-2" />
+                Deny
+              </Button>
+              <Button onClick={() => onReview('approved', note)}>
+                <Check className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// ============================================
+// Exception Queue Page
+// ============================================
+
+export default function RuleExceptionsPage() {
+  const exceptions = useRuleExceptions()
+  const user = useAppStore((state) => state.session.user)
+  const { reviewException } = useRuleExceptionWorkflow()
+
+  const canReview = !!user && EXCEPTION_REVIEWER_ROLES.includes(user.role)
+  const pending = exceptions.filter((e) => e.status === 'pending')
+  const reviewed = exceptions
+    .filter((e) => e.status !== 'pending')
+    .sort((a, b) => (b.reviewedAt ?? '').localeCompare(a.reviewedAt ?? ''))
+
+  return (
+    <main className="flex-1 min-w-0 overflow-y-auto bg-bg-secondary">
+      <div className="p-6 space-y-6 max-w-4xl mx-auto">
+        <Link href="/rules">
+          <Button variant="ghost" className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Rules Engine
+          </Button>
+        </Link>
+
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-6 w-6 text-primary" />
+          <h2 className="text-lg font-semibold">Rule Exception Queue</h2>
+          <Badge variant="outline" className="text-warning border-current">
+            {pending.length} pending
+          </Badge>
+        </div>
+
+        {!canReview && (
+          <Card className="border-warning bg-warning/5">
+            <CardContent className="p-4 flex items-center gap-3">
+              <ShieldAlert className="h-5 w-5 text-warning" />
+              <p className="text-sm">Only managers can approve or deny exceptions.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <section className="space-y-3">
+          {pending.length === 0 ? (
+            <p className="text-sm text-text-secondary">No exceptions are waiting for review.</p>
+          ) : (
+            pending.map((exception) => (
+              <PendingExceptionCard
+                key={exception.id}
+                exception={exception}
+                canReview={canReview}
+                onReview={(status, note) => reviewException(exception.id, status, note)}
+              />
+            ))
+          )}
+        </section>
+
+        {reviewed.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Reviewed</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {reviewed.map((exception) => (
+                <div key={exception.id} className="flex items-start gap-3 text-sm">
+                  <Badge
+                    variant="outline"
+                    className={cn('capitalize border-current', statusColor[exception.status])}
+                  >
+                    {exception.status}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <p>
+                      {exception.ruleName}{' '}
+                      <span className="text-text-tertiary">({exception.caseId})</span>
+                    </p>
+                    <p className="text-xs text-text-secondary">{exception.reason}</p>
+                    {exception.reviewNote && (
+                      <p className="text-xs text-text-secondary">Note: {exception.reviewNote}</p>
+                    )}
+                    <p className="text-xs text-text-tertiary">
+                      {exception.reviewedBy} • {exception.reviewedAt && formatDate(exception.reviewedAt)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
-import React, { useState, Suspense } from 'react'
+import React, { useState, useMemo, Suspense } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Button } from '@/components/ui/button'
@@ -8,164 +9,81 @@ import { WorkflowStepper } from '@/components/features/workflow-stepper'
 import {
   RulesEnginePanel,
   CompactRuleList,
+  toRuleViewModel,
   type RuleResult,
   type RuleCategory,
 } from '@/components/features/rules-engine'
-import { FileText, Shield, AlertTriangle, RefreshCw, ArrowLeft, ArrowRight } from 'lucide-react'
-import { useWorkflowContext } from '@/hooks/useWorkflowContext'
+import { WhatIfPanel } from '@/components/features/what-if-panel'
+import { FileText, Shield, AlertTriangle, RefreshCw, ArrowLeft, ArrowRight, FlaskConical } from 'lucide-react'
+import { useWorkflowContext, useCaseById } from '@/hooks/useWorkflowContext'
+import { useRulesReplay } from '@/hooks/useRulesReplay'
+import { useWhatIfSimulation } from '@/hooks/useWhatIfSimulation'
+import { useRuleExceptionWorkflow } from '@/hooks/useRuleExceptionWorkflow'
+import { useRuleSetVersions, useCaseRuleExceptions } from '@/lib/store'
+import { mockCases } from '@/lib/mock-data'
 
 function RulesEnginePageContent() {
   const { caseId, activeCase, navigateToStep } = useWorkflowContext()
   const [expandedRules, setExpandedRules] = useState<Set<string>>(new Set())
 
-  // Mock rules data
-  const mockRules: RuleResult[] = [
-    // Eligibility Rules
-    {
-      id: 'rule-1',
-      name: 'Policy Term Validation',
-      category: 'eligibility' as const,
-      status: 'pass' as const,
-      inputs: [
-        { field: 'treatmentDate', value: 'Jan 15, 2024', displayName: 'Treatment Date' },
-        { field: 'policyStartDate', value: 'Jan 1, 2024', displayName: 'Policy Start' },
-        { field: 'policyEndDate', value: 'Dec 31, 2024', displayName: 'Policy End' },
-      ],
-      output: 'Treatment within policy term',
-      reasoning: 'The treatment date (Jan 15, 2024) falls within the active policy period (Jan 1, 2024 - Dec 31, 2024). No policy lapse detected.',
-      policyClause: 'Clause 3.2 - Coverage Period',
-      confidence: 0.98,
-      evaluatedAt: new Date(Date.now() - 5000),
-    },
-    {
-      id: 'rule-2',
-      name: 'Coverage Type Check',
-      category: 'eligibility' as const,
-      status: 'pass' as const,
-      inputs: [
-        { field: 'treatmentType', value: 'Emergency Room', displayName: 'Treatment Type' },
-        { field: 'planType', value: 'Premium', displayName: 'Plan Type' },
-      ],
-      output: 'Covered under policy',
-      reasoning: 'Emergency room visits are covered under the Premium plan. No exclusions apply.',
-      policyClause: 'Clause 4.1 - Covered Services',
-      confidence: 0.95,
-      evaluatedAt: new Date(Date.now() - 4500),
-    },
+  // Evaluate rule definitions against the active case (demo case when none selected).
+  // Re-read from the store so replayed results on demo cases are picked up.
+  const evaluatedCase = useCaseById(activeCase?.id ?? mockCases[0].id) ?? mockCases[0]
+  const {
+    ruleSet,
+    results,
+    staleRuleIds,
+    diffsByRuleId,
+    replayAll,
+    replayCategory,
+    replayRule,
+  } = useRulesReplay(evaluatedCase)
 
-    // Validation Rules
-    {
-      id: 'rule-3',
-      name: 'Pre-Existing Condition',
-      category: 'validation' as const,
-      status: 'fail' as const,
-      inputs: [
-        { field: 'diagnosisCode', value: 'E11', displayName: 'Diagnosis' },
-        { field: 'patientHistory', value: 'Type 2 Diabetes', displayName: 'History' },
-      ],
-      output: 'Exclusion applied - Clause 4.2',
-      reasoning: 'The diagnosis code E11 (Type 2 Diabetes) is listed as a pre-existing condition exclusion in the policy. This condition was diagnosed prior to policy effective date.',
-      policyClause: 'Clause 4.2 - Pre-Existing Exclusions',
-      confidence: 0.92,
-      evaluatedAt: new Date(Date.now() - 4000),
-    },
-    {
-      id: 'rule-4',
-      name: 'Waiting Period',
-      category: 'validation' as const,
-      status: 'pass' as const,
-      inputs: [
-        { field: 'policyEffectiveDate', value: 'Jan 1, 2024', displayName: 'Effective Date' },
-        { field: 'claimDate', value: 'Jan 15, 2024', displayName: 'Claim Date' },
-      ],
-      output: 'Waiting period satisfied',
-      reasoning: '30-day waiting period has elapsed. Policy effective: Jan 1, 2024. Claim filed: Jan 15, 2024.',
-      policyClause: 'Clause 5.1 - Waiting Period',
-      confidence: 0.96,
-      evaluatedAt: new Date(Date.now() - 3500),
-    },
+  // Rule set version that produced the recorded results
+  const versions = useRuleSetVersions()
+  const recordedRuleSet = versions.find((v) => v.id === evaluatedCase.ruleSetVersionId) ?? null
 
-    // Compliance Rules
-    {
-      id: 'rule-5',
-      name: 'Authorization Required',
-      category: 'compliance' as const,
-      status: 'warning' as const,
-      inputs: [
-        { field: 'procedureCode', value: '99213', displayName: 'Procedure Code' },
-        { field: 'authorization', value: 'Not on file', displayName: 'Prior Auth' },
-      ],
-      output: 'Authorization recommended',
-      reasoning: 'Procedure code 99213 (Emergency room visit) typically requires prior authorization. However, emergency exceptions may apply. Manual review recommended.',
-      policyClause: 'Clause 6.3 - Prior Authorization',
-      confidence: 0.75,
-      evaluatedAt: new Date(Date.now() - 3000),
-    },
-    {
-      id: 'rule-6',
-      name: 'Network Provider',
-      category: 'compliance' as const,
-      status: 'pass' as const,
-      inputs: [
-        { field: 'providerNPI', value: '1234567890', displayName: 'Provider NPI' },
-        { field: 'networkStatus', value: 'In-Network', displayName: 'Status' },
-      ],
-      output: 'In-network provider confirmed',
-      reasoning: 'Provider City Medical Center (NPI: 1234567890) is verified as in-network for the Premium plan.',
-      policyClause: 'Clause 7.2 - Provider Network',
-      confidence: 0.94,
-      evaluatedAt: new Date(Date.now() - 2500),
-    },
+  const caseExceptions = useCaseRuleExceptions(evaluatedCase.id)
+  const { requestException } = useRuleExceptionWorkflow()
 
-    // Calculation Rules
-    {
-      id: 'rule-7',
-      name: 'Allowable Amount',
-      category: 'calculation' as const,
-      status: 'pass' as const,
-      inputs: [
-        { field: 'billedAmount', value: '$3,280.00', displayName: 'Billed' },
-        { field: 'allowedAmount', value: '$2,950.00', displayName: 'Allowed' },
-        { field: 'negotiatedRate', value: '85%', displayName: 'Rate' },
-      ],
-      output: '$2,507.50 allowable',
-      reasoning: 'Calculated allowable amount: $3,280.00 × 85% = $2,788.00. Less $50 copay = $2,738.00. Less $230.50 deductible = $2,507.50.',
-      policyClause: 'Clause 8.1 - Fee Schedule',
-      confidence: 0.99,
-      evaluatedAt: new Date(Date.now() - 2000),
-    },
-    {
-      id: 'rule-8',
-      name: 'Deductible Application',
-      category: 'calculation' as const,
-      status: 'pass' as const,
-      inputs: [
-        { field: 'accumulatedDeductible', value: '$450.00', displayName: 'YTD' },
-        { field: 'annualDeductible', value: '$500.00', displayName: 'Annual' },
-        { field: 'claimAmount', value: '$2,738.00', displayName: 'Claim' },
-      ],
-      output: '$50.00 remaining',
-      reasoning: 'Year-to-date deductible: $450.00 of $500.00. Claim amount $2,738.00 × 10% = $273.80 deductible applied. Remaining deductible: $50.00.',
-      policyClause: 'Clause 8.2 - Deductible',
-      confidence: 0.97,
-      evaluatedAt: new Date(Date.now() - 1000),
-    },
-  ]
+  // Sandbox overrides, never persisted
+  const whatIf = useWhatIfSimulation(evaluatedCase, ruleSet)
+  const simulation = whatIf.isActive ? whatIf.simulation : null
+
+  const rules: RuleResult[] = useMemo(() => {
+    const labels = Object.fromEntries(
+      evaluatedCase.extractedData.fields.map((field) => [field.name, field.label])
+    )
+    if (simulation) {
+      return simulation.results.map((result) =>
+        toRuleViewModel(result, labels, simulation.diffsByRuleId[result.id])
+      )
+    }
+    return results.map((result) =>
+      toRuleViewModel(
+        result,
+        labels,
+        diffsByRuleId[result.id],
+        caseExceptions.find((e) => e.ruleId === result.id && e.status === 'pending')
+      )
+    )
+  }, [evaluatedCase, results, diffsByRuleId, simulation, caseExceptions])
 
   const handleReplayAll = async () => {
-    console.log('Replaying all rules...')
-    await new Promise((resolve) => setTimeout(resolve, 2000))
-    console.log('All rules replayed')
+    await replayAll()
   }
 
   const handleReplayCategory = async (category: RuleCategory) => {
-    console.log('Replaying category:', category)
-    await new Promise((resolve) => setTimeout(resolve, 1500))
+    await replayCategory(rules.filter((r) => r.category === category).map((r) => r.id))
   }
 
   const handleReplayRule = async (ruleId: string) => {
-    console.log('Replaying rule:', ruleId)
-    await new Promise((resolve) => setTimeout(resolve, 1000))
+    await replayRule(ruleId)
+  }
+
+  const handleRequestException = (ruleId: string, reason: string) => {
+    const result = results.find((r) => r.id === ruleId)
+    if (result) requestException(evaluatedCase, result, reason)
   }
 
   return (
@@ -177,6 +95,24 @@ function RulesEnginePageContent() {
             <Shield className="h-6 w-6 text-primary" />
             <h2 className="text-lg font-semibold">Rules Engine</h2>
           </div>
+          <div className="flex items-center justify-between mt-2">
+            <p className="text-xs text-text-secondary">
+              {recordedRuleSet
+                ? `Evaluated with rule set v${recordedRuleSet.version}`
+                : `Rule set v${ruleSet.version}`}
+              {recordedRuleSet && recordedRuleSet.id !== ruleSet.id && (
+                <span className="text-warning"> (v{ruleSet.version} now in force)</span>
+              )}
+            </p>
+            <div className="flex items-center gap-3">
+              <Link href="/rules/exceptions" className="text-xs text-primary hover:underline">
+                Exceptions
+              </Link>
+              <Link href="/rules/editor" className="text-xs text-primary hover:underline">
+                Edit Rules
+              </Link>
+            </div>
+          </div>
         </div>
 
         <ScrollArea className="flex-1 p-4">
@@ -188,34 +124,57 @@ function RulesEnginePageContent() {
                     <div>
                       <p className="text-xs text-text-secondary mb-1">Total Rules</p>
                       <p className="text-2xl font-bold text-primary">
-                        {mockRules.length}
+                        {rules.length}
                       </p>
                     </div>
                     <div className="flex items-center gap-3 text-xs">
                       <span className="flex items-center gap-1 text-success">
                         <div className="w-2 h-2 rounded-full bg-success" />
-                        {mockRules.filter((r) => r.status === 'pass').length} Pass
+                        {rules.filter((r) => r.status === 'pass').length} Pass
                       </span>
                       <span className="flex items-center gap-1 text-error">
                         <div className="w-2 h-2 rounded-full bg-error" />
-                        {mockRules.filter((r) => r.status === 'fail').length} Fail
+                        {rules.filter((r) => r.status === 'fail').length} Fail
                       </span>
                       <span className="flex items-center gap-1 text-warning">
                         <div className="w-2 h-2 rounded-full bg-warning" />
-                        {mockRules.filter((r) => r.status === 'warning').length} Warning
+                        {rules.filter((r) => r.status === 'warning').length} Warning
                       </span>
                     </div>
                   </div>
                 </CardContent>
               </Card>
 
+              {/* Stale Results Alert */}
+              {staleRuleIds.length > 0 && (
+                <Card className="border-warning bg-warning/5">
+                  <CardContent className="p-3">
+                    <div className="flex items-start gap-2">
+                      <RefreshCw className="h-4 w-4 text-warning flex-shrink-0 mt-0.5" />
+                      <div className="flex-1">
+                        <p className="text-xs font-medium text-warning mb-1">
+                          Extracted Data Changed
+                        </p>
+                        <p className="text-xs text-text-secondary mb-2">
+                          {staleRuleIds.length} rule(s) would evaluate differently with the
+                          current extracted data.
+                        </p>
+                        <Button variant="outline" size="xs" onClick={handleReplayAll}>
+                          Replay All
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Compact Rules List */}
               <div>
                 <p className="text-xs font-medium text-text-secondary px-1 mb-2">
                   ALL RULES
                 </p>
                 <CompactRuleList
-                  rules={mockRules}
+                  rules={rules}
                   onRuleClick={(rule) => {
                     setExpandedRules((prev) => {
                       const next = new Set(prev)
@@ -231,7 +190,7 @@ function RulesEnginePageContent() {
               </div>
 
               {/* Critical Alert */}
-              {mockRules.filter((r) => r.status === 'fail').length > 0 && (
+              {rules.filter((r) => r.status === 'fail').length > 0 && (
                 <Card className="border-error bg-error/5">
                   <CardContent className="p-3">
                     <div className="flex items-start gap-2">
@@ -241,7 +200,7 @@ function RulesEnginePageContent() {
                           Rules Failed
                         </p>
                         <p className="text-xs text-text-secondary">
-                          {mockRules.filter((r) => r.status === 'fail').length} rule(s) failed
+                          {rules.filter((r) => r.status === 'fail').length} rule(s) failed
                           validation. Review required before approval.
                         </p>
                       </div>
@@ -266,17 +225,43 @@ function RulesEnginePageContent() {
             </CardContent>
           </Card>
 
+          {/* What-If Sandbox */}
+          {simulation && (
+            <WhatIfPanel
+              fields={evaluatedCase.extractedData.fields}
+              overrides={whatIf.overrides}
+              baselineDecision={simulation.baselineDecision}
+              decision={simulation.decision}
+              onOverride={whatIf.setOverride}
+              onClearOverride={whatIf.clearOverride}
+              onReset={whatIf.reset}
+            />
+          )}
+
           {/* Rules Engine Panel */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">Business Rules Evaluation</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">
+                  {simulation ? 'Simulated Rules Evaluation' : 'Business Rules Evaluation'}
+                </CardTitle>
+                <Button
+                  variant={whatIf.isActive ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={whatIf.toggle}
+                >
+                  <FlaskConical className="h-4 w-4 mr-1" />
+                  {whatIf.isActive ? 'Exit What-If' : 'What-If'}
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               <RulesEnginePanel
-                rules={mockRules}
-                onReplayAll={handleReplayAll}
-                onReplayCategory={handleReplayCategory}
-                onReplayRule={handleReplayRule}
+                rules={rules}
+                onReplayAll={simulation ? undefined : handleReplayAll}
+                onReplayCategory={simulation ? undefined : handleReplayCategory}
+                onReplayRule={simulation ? undefined : handleReplayRule}
+                onRequestException={simulation ? undefined : handleRequestException}
               />
             </CardContent>
           </Card>
@@ -373,11 +358,11 @@ function RulesEnginePageContent() {
                 </Button>
                 <div className="text-center">
                   <p className="text-sm font-medium">
-                    {mockRules.filter(r => r.status === 'pass').length} of {mockRules.length} rules passed
+                    {rules.filter(r => r.status === 'pass').length} of {rules.length} rules passed
                   </p>
                   <p className="text-xs text-text-secondary">
-                    {mockRules.filter(r => r.status === 'fail').length > 0
-                      ? `${mockRules.filter(r => r.status === 'fail').length} failed - review required`
+                    {rules.filter(r => r.status === 'fail').length > 0
+                      ? `${rules.filter(r => r.status === 'fail').length} failed - review required`
                       : 'Ready to generate decision'}
                   </p>
                 </div>
@@ -0,0 +1,129 @@
+'use client'
+
+import React, { Suspense, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { GoldenMismatchTable, GoldenCaseOutcomeList } from '@/components/features/golden-case-report'
+import { ArrowLeft, FlaskConical, Play } from 'lucide-react'
+import { useRuleSetVersions, useEffectiveRuleSet } from '@/lib/store'
+import { goldenCaseLibrary, runGoldenCases } from '@/lib/golden-cases'
+import { formatDate } from '@/lib/utils'
+import type { GoldenRunReport } from '@/types'
+
+function RegressionPageContent() {
+  const searchParams = useSearchParams()
+  const versions = useRuleSetVersions()
+  const effectiveRuleSet = useEffectiveRuleSet()
+
+  const [selectedId, setSelectedId] = useState(searchParams.get('version') ?? effectiveRuleSet.id)
+  const [report, setReport] = useState<GoldenRunReport | null>(null)
+
+  const ruleSet = versions.find((v) => v.id === selectedId) ?? effectiveRuleSet
+
+  const handleRun = () => setReport(runGoldenCases(goldenCaseLibrary, ruleSet))
+
+  const handleSelect = (versionId: string) => {
+    setSelectedId(versionId)
+    setReport(null)
+  }
+
+  return (
+    <main className="flex-1 min-w-0 overflow-y-auto bg-bg-secondary">
+      <div className="p-6 space-y-6 max-w-5xl mx-auto">
+        <Link href="/rules/editor">
+          <Button variant="ghost" className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Rule Editor
+          </Button>
+        </Link>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <FlaskConical className="h-5 w-5 text-primary" />
+              Golden Case Regression
+            </CardTitle>
+            <p className="text-sm text-text-secondary">
+              Runs a rule set against {goldenCaseLibrary.length} saved cases with known outcomes.
+              The same check runs headlessly with <code>npm run rules:check</code>.
+            </p>
+          </CardHeader>
+          <CardContent className="flex items-center gap-3">
+            <Select value={ruleSet.id} onValueChange={handleSelect}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.id}>
+                    Version {version.version} ({version.status})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleRun}>
+              <Play className="h-4 w-4 mr-2" />
+              Run Golden Cases
+            </Button>
+          </CardContent>
+        </Card>
+
+        {report && (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">Mismatches</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-success border-current">
+                      {report.passed} passed
+                    </Badge>
+                    {report.failed > 0 && (
+                      <Badge variant="outline" className="text-error border-current">
+                        {report.failed} failed
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <p className="text-xs text-text-secondary">
+                  Version {report.ruleSetVersion} · {formatDate(report.ranAt)} · {report.duration}ms
+                </p>
+              </CardHeader>
+              <CardContent>
+                <GoldenMismatchTable report={report} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Cases</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <GoldenCaseOutcomeList report={report} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
+
+// Wrap with Suspense for useSearchParams
+export default function GoldenRegressionPage() {
+  return (
+    <Suspense fallback={<div className="h-full flex items-center justify-center">Loading...</div>}>
+      <RegressionPageContent />
+    </Suspense>
+  )
+}
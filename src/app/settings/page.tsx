@@ -0,0 +1,350 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { FileCode2, Gauge, Plus, Settings, Trash2 } from 'lucide-react'
+import { useAppStore, useXmlExportMapping } from '@/lib/store'
+import { fieldDefinitions } from '@/lib/extraction-schemas'
+import { isSameThresholdScope, validateConfidenceThresholds } from '@/lib/confidence-thresholds'
+import { validateXmlExportMapping } from '@/lib/case-export'
+import type { CaseType, ConfidenceThresholdRule, XmlExportMapping } from '@/types'
+
+const caseTypes: CaseType[] = ['insurance', 'finance', 'compliance']
+
+// Select value standing for "every case type" or "every field"
+const ANY = 'any'
+
+function scopeLabel(rule: ConfidenceThresholdRule): string {
+  if (!rule.caseType && !rule.fieldName) return 'Default'
+  const field = rule.fieldName ? fieldDefinitions[rule.fieldName]?.label ?? rule.fieldName : 'All fields'
+  return rule.caseType ? `${field} · ${rule.caseType}` : field
+}
+
+// A blank input is not a threshold of 0; NaN makes validation reject it
+function parseThreshold(value: string): number {
+  return value.trim() === '' ? NaN : Number(value)
+}
+
+// ============================================
+// Threshold Rule Row
+// ============================================
+
+interface ThresholdRuleRowProps {
+  rule: ConfidenceThresholdRule
+  onSave: (rule: ConfidenceThresholdRule) => void
+  onRemove?: () => void
+}
+
+function ThresholdRuleRow({ rule, onSave, onRemove }: ThresholdRuleRowProps) {
+  const [high, setHigh] = useState(String(rule.high))
+  const [medium, setMedium] = useState(String(rule.medium))
+  const [error, setError] = useState<string | null>(null)
+
+  const isChanged = high !== String(rule.high) || medium !== String(rule.medium)
+
+  const save = () => {
+    const thresholds = { high: parseThreshold(high), medium: parseThreshold(medium) }
+    const validationError = validateConfidenceThresholds(thresholds)
+    setError(validationError)
+    if (!validationError) onSave({ ...rule, ...thresholds })
+  }
+
+  return (
+    <div className="py-3 border-b border-border-light last:border-b-0">
+      <div className="flex items-center gap-3">
+        <p className="flex-1 text-sm font-medium">{scopeLabel(rule)}</p>
+        <label className="flex items-center gap-1.5 text-xs text-text-secondary">
+          Auto-accept ≥
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={high}
+            onChange={(e) => setHigh(e.target.value)}
+            className="h-8 w-20"
+          />
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-text-secondary">
+          Review ≥
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={medium}
+            onChange={(e) => setMedium(e.target.value)}
+            className="h-8 w-20"
+          />
+        </label>
+        <Button size="sm" variant="outline" onClick={save} disabled={!isChanged}>
+          Save
+        </Button>
+        {onRemove ? (
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onRemove} aria-label="Remove override">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        ) : (
+          <div className="w-8" />
+        )}
+      </div>
+      {error && <p className="mt-1 text-xs text-error">{error}</p>}
+    </div>
+  )
+}
+
+// ============================================
+// New Override Form
+// ============================================
+
+function NewThresholdRuleForm({ onAdd }: { onAdd: (rule: ConfidenceThresholdRule) => string | null }) {
+  const [caseType, setCaseType] = useState<string>(ANY)
+  const [fieldName, setFieldName] = useState<string>(ANY)
+  const [high, setHigh] = useState('90')
+  const [medium, setMedium] = useState('70')
+  const [error, setError] = useState<string | null>(null)
+
+  const add = () => {
+    if (caseType === ANY && fieldName === ANY) {
+      setError('Choose a case type, a field or both')
+      return
+    }
+    const addError = onAdd({
+      ...(caseType !== ANY && { caseType: caseType as CaseType }),
+      ...(fieldName !== ANY && { fieldName }),
+      high: parseThreshold(high),
+      medium: parseThreshold(medium),
+    })
+    setError(addError)
+  }
+
+  return (
+    <div className="pt-4 space-y-2">
+      <div className="flex items-center gap-3">
+        <Select value={caseType} onValueChange={setCaseType}>
+          <SelectTrigger className="h-8 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY} className="text-xs">All case types</SelectItem>
+            {caseTypes.map((type) => (
+              <SelectItem key={type} value={type} className="text-xs capitalize">
+                {type}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={fieldName} onValueChange={setFieldName}>
+          <SelectTrigger className="h-8 flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY} className="text-xs">All fields</SelectItem>
+            {Object.entries(fieldDefinitions).map(([name, definition]) => (
+              <SelectItem key={name} value={name} className="text-xs">
+                {definition.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          value={high}
+          onChange={(e) => setHigh(e.target.value)}
+          className="h-8 w-20"
+          aria-label="Auto-accept threshold"
+        />
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          value={medium}
+          onChange={(e) => setMedium(e.target.value)}
+          className="h-8 w-20"
+          aria-label="Review threshold"
+        />
+        <Button size="sm" className="gap-1.5" onClick={add}>
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </div>
+      {error && <p className="text-xs text-error">{error}</p>}
+    </div>
+  )
+}
+
+// ============================================
+// XML Export Mapping Form
+// ============================================
+
+interface XmlMappingFormProps {
+  mapping: XmlExportMapping
+  onSave: (mapping: XmlExportMapping) => void
+}
+
+function XmlMappingForm({ mapping, onSave }: XmlMappingFormProps) {
+  const [draft, setDraft] = useState(mapping)
+  const [error, setError] = useState<string | null>(null)
+
+  const setFieldElement = (fieldName: string, element: string) => {
+    const others = Object.fromEntries(Object.entries(draft.fieldElements).filter(([name]) => name !== fieldName))
+    setDraft({ ...draft, fieldElements: element.trim() ? { ...others, [fieldName]: element.trim() } : others })
+  }
+
+  const save = () => {
+    const validationError = validateXmlExportMapping(draft)
+    setError(validationError)
+    if (!validationError) onSave(draft)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1 text-xs text-text-secondary">
+          Root element
+          <Input
+            value={draft.rootElement}
+            onChange={(e) => setDraft({ ...draft, rootElement: e.target.value.trim() })}
+            className="h-8"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-text-secondary">
+          Case element
+          <Input
+            value={draft.caseElement}
+            onChange={(e) => setDraft({ ...draft, caseElement: e.target.value.trim() })}
+            className="h-8"
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-text-secondary">Field elements</p>
+        {Object.entries(fieldDefinitions).map(([name, definition]) => (
+          <div key={name} className="flex items-center gap-3">
+            <span className="w-40 text-sm">{definition.label}</span>
+            <Input
+              value={draft.fieldElements[name] ?? ''}
+              placeholder={name}
+              onChange={(e) => setFieldElement(name, e.target.value)}
+              className="h-8 flex-1"
+              aria-label={`${definition.label} element`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox
+            checked={draft.includeMetadata}
+            onCheckedChange={(checked) => setDraft({ ...draft, includeMetadata: checked === true })}
+          />
+          Include confidence, source and edit details as attributes
+        </label>
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox
+            checked={draft.omitUnmappedFields}
+            onCheckedChange={(checked) => setDraft({ ...draft, omitUnmappedFields: checked === true })}
+          />
+          Leave out fields without an element name
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        {error ? <p className="text-xs text-error">{error}</p> : <span />}
+        <Button size="sm" onClick={save} disabled={draft === mapping}>
+          Save mapping
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// ============================================
+// Settings Page
+// ============================================
+
+export default function SettingsPage() {
+  const rules = useAppStore((state) => state.settings.confidenceThresholds)
+  const setConfidenceThresholdRule = useAppStore((state) => state.setConfidenceThresholdRule)
+  const removeConfidenceThresholdRule = useAppStore((state) => state.removeConfidenceThresholdRule)
+  const xmlMapping = useXmlExportMapping()
+  const setXmlExportMapping = useAppStore((state) => state.setXmlExportMapping)
+
+  const addRule = (rule: ConfidenceThresholdRule) => {
+    const error = validateConfidenceThresholds(rule)
+    if (error) return error
+    if (rules.some((r) => isSameThresholdScope(r, rule))) {
+      return 'An override for this case type and field already exists'
+    }
+    setConfidenceThresholdRule(rule)
+    return null
+  }
+
+  return (
+    <main className="flex-1 min-w-0 overflow-y-auto bg-bg-secondary">
+      <div className="p-6 space-y-6 max-w-4xl mx-auto">
+        <div className="flex items-center gap-2">
+          <Settings className="h-6 w-6 text-primary" />
+          <h2 className="text-lg font-semibold">Settings</h2>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Gauge className="h-4 w-4 text-primary" />
+              Confidence Thresholds
+            </CardTitle>
+            <p className="text-sm text-text-secondary">
+              Extracted fields at or above the auto-accept threshold are accepted without review; below
+              the review threshold they must be reviewed. The most specific override applies: case type
+              and field, then field, then case type, then the default.
+            </p>
+          </CardHeader>
+          <CardContent>
+            {rules.map((rule) => (
+              <ThresholdRuleRow
+                key={`${rule.caseType ?? ANY}:${rule.fieldName ?? ANY}:${rule.high}:${rule.medium}`}
+                rule={rule}
+                onSave={setConfidenceThresholdRule}
+                onRemove={
+                  rule.caseType || rule.fieldName
+                    ? () => removeConfidenceThresholdRule(rule)
+                    : undefined
+                }
+              />
+            ))}
+            <NewThresholdRuleForm onAdd={addRule} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <FileCode2 className="h-4 w-4 text-primary" />
+              XML Export Mapping
+            </CardTitle>
+            <p className="text-sm text-text-secondary">
+              Element names used when cases are exported as XML. Fields without an element name use
+              their field name.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <XmlMappingForm mapping={xmlMapping} onSave={setXmlExportMapping} />
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
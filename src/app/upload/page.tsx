@@ -1,6 +1,7 @@
 'use client'
 
-import React, { useState, Suspense } from 'react'
+import React, { useRef, useState, Suspense } from 'react'
+import { toast } from 'sonner'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ScrollArea } from '@/components/ui/scroll-area'
@@ -25,15 +26,37 @@ import {
   ClassificationPreviewList,
   ClassificationStats,
   type ClassificationResult,
-  type DocumentClassType,
 } from '@/components/features/document-classification'
-import { Upload, FolderOpen, Sparkles, ArrowRight } from 'lucide-react'
+import {
+  CompactQualityCheck,
+  QualityCheckPanel,
+} from '@/components/features/quality-check-panel'
+import { Upload, FolderOpen, Sparkles, ArrowRight, ScanSearch } from 'lucide-react'
 import { useWorkflowContext } from '@/hooks/useWorkflowContext'
-import type { Document, QualityCheck } from '@/types'
+import { useChunkedUpload, useDiscardChunkedUpload } from '@/hooks/useChunkedUpload'
+import { useAllCases } from '@/lib/store'
+import { findDuplicateDocuments, hashFileContents, mergeUploadedDocuments } from '@/lib/document-duplicates'
+import { checkDocumentQuality } from '@/lib/local-quality-check'
+import { toDocumentQualityChecks } from '@/lib/image-quality'
+import type { Document, DocumentClassType, DocumentQuality, QualityCheck } from '@/types'
 
 function DocumentUploadPageContent() {
   const { caseId, activeCase, navigateToStep, createCase, updateCaseDocuments, updateCaseStatus } = useWorkflowContext()
+  const uploadFile = useChunkedUpload()
+  const discardUpload = useDiscardChunkedUpload()
+  const storeCases = useAllCases()
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
+  // Documents the server created, by file id, once the zone reports the upload complete
+  const [uploadedDocuments, setUploadedDocuments] = useState<Record<string, Document>>({})
+  // Documents returned by upload handlers that the zone may not have accepted yet
+  const returnedDocuments = useRef(new WeakMap<File, Document>())
+  // Files a corrected image replaced, by file id, oldest first. The original is
+  // always kept and uploaded; later replaced corrections only if they were uploaded.
+  const priorVersions = useRef(
+    new Map<string, Array<{ file: File; contentHash?: string; replacedAt: string; document?: Document }>>()
+  )
+  const [localQuality, setLocalQuality] = useState<Record<string, DocumentQuality>>({})
+  const [selectedQualityId, setSelectedQualityId] = useState<string | null>(null)
   const [folders, setFolders] = useState<DocumentFolder[]>([
     {
       id: 'folder-1',
@@ -115,6 +138,19 @@ function DocumentUploadPageContent() {
     },
   ])
 
+  // Analyse pages locally so quality feedback does not wait for the upload
+  const analyseQuality = (file: UploadedFile) => {
+    checkDocumentQuality(file.file, file.id)
+      .then((quality) => {
+        if (quality) setLocalQuality((prev) => ({ ...prev, [file.id]: quality }))
+      })
+      .catch((error) =>
+        toast.error(`Could not check the quality of ${file.file.name}`, {
+          description: (error as Error).message,
+        })
+      )
+  }
+
   const handleFilesSelected = (files: UploadedFile[]) => {
     setUploadedFiles((prev) => [...prev, ...files])
 
@@ -130,6 +166,71 @@ function DocumentUploadPageContent() {
     }))
 
     setClassifications((prev) => [...prev, ...newClassifications])
+    files.forEach(analyseQuality)
+  }
+
+  const forgetFiles = (fileIds: string[]) => {
+    const without = <T,>(byId: Record<string, T>) =>
+      Object.fromEntries(Object.entries(byId).filter(([id]) => !fileIds.includes(id)))
+    setUploadedFiles((prev) => prev.filter((f) => !fileIds.includes(f.id)))
+    setUploadedDocuments(without)
+    setLocalQuality(without)
+    setClassifications((prev) => prev.filter((c) => !fileIds.includes(c.documentId)))
+  }
+
+  const handleFilesRemoved = (files: UploadedFile[]) => {
+    files.forEach((file) => {
+      discardUpload(file.file)
+      priorVersions.current.get(file.id)?.forEach((version) => discardUpload(version.file))
+      priorVersions.current.delete(file.id)
+    })
+    forgetFiles(files.map((file) => file.id))
+  }
+
+  // The corrected image is checked again; its original becomes a prior version at Continue
+  const handleFileCorrected = (file: UploadedFile, replaced: File) => {
+    const document = returnedDocuments.current.get(replaced)
+    if (replaced === file.originalFile || document) {
+      const previous = uploadedFiles.find((f) => f.id === file.id)
+      priorVersions.current.set(file.id, [
+        ...(priorVersions.current.get(file.id) ?? []),
+        { file: replaced, contentHash: previous?.contentHash, replacedAt: new Date().toISOString(), document },
+      ])
+    }
+    if (!document) discardUpload(replaced)
+    setUploadedFiles((prev) => prev.map((f) => (f.id === file.id ? file : f)))
+    setUploadedDocuments((prev) => {
+      const next = { ...prev }
+      delete next[file.id]
+      return next
+    })
+    setLocalQuality((prev) => {
+      const next = { ...prev }
+      delete next[file.id]
+      return next
+    })
+    analyseQuality(file)
+  }
+
+  const completedCount = uploadedFiles.filter((file) => uploadedDocuments[file.id]).length
+  const allUploaded = uploadedFiles.length > 0 && completedCount === uploadedFiles.length
+
+  const qualityResults = uploadedFiles.flatMap((file) => (localQuality[file.id] ? [localQuality[file.id]] : []))
+  const selectedQuality = qualityResults.find((quality) => quality.documentId === selectedQualityId) ?? qualityResults[0]
+
+  // Skewed photos can be straightened in the upload zone before they are sent
+  const correctionHints = Object.fromEntries(
+    Object.entries(localQuality).flatMap(([fileId, quality]) => {
+      const skew = quality.checks.find((check) => check.id === 'skew')
+      return skew && skew.status !== 'pass' ? [[fileId, `${skew.details} — correct the image to straighten it`]] : []
+    })
+  )
+
+  // The case being uploaded to may be a demo case that is not in the store
+  const findDuplicates = (contentHash: string) => {
+    const isDemoCase = activeCase?.id === caseId && !storeCases.some((c) => c.id === caseId)
+    const knownCases = activeCase && isDemoCase ? [...storeCases, activeCase] : storeCases
+    return findDuplicateDocuments(contentHash, knownCases, caseId)
   }
 
   const handleFolderClick = (folderId: string) => {
@@ -217,12 +318,75 @@ function DocumentUploadPageContent() {
                 maxFiles={50}
                 multiple
                 onFilesSelected={handleFilesSelected}
-                onUploadComplete={(file) => console.log('Upload complete:', file.id)}
+                findDuplicates={findDuplicates}
+                correctionHints={correctionHints}
+                qualityResults={localQuality}
+                onFileCorrected={handleFileCorrected}
+                onFilesRemoved={handleFilesRemoved}
+                onUpload={async (file, { signal, onProgress }) => {
+                  // An original not uploaded before it was corrected goes up first, to be kept as a prior version
+                  const pending = (priorVersions.current.get(file.id) ?? []).filter((version) => !version.document)
+                  const totalSize = pending.reduce((sum, version) => sum + version.file.size, file.file.size)
+                  let sentSize = 0
+                  const progressOf = (size: number) => (progress: number) =>
+                    onProgress(((sentSize + (size * progress) / 100) / totalSize) * 100)
+
+                  for (const version of pending) {
+                    const contentHash = version.contentHash ?? (await hashFileContents(version.file).catch(() => undefined))
+                    version.document = await uploadFile(version.file, {
+                      caseId,
+                      contentHash,
+                      signal,
+                      onProgress: progressOf(version.file.size),
+                    })
+                    sentSize += version.file.size
+                  }
+
+                  const document = await uploadFile(file.file, {
+                    caseId,
+                    contentHash: file.contentHash,
+                    signal,
+                    onProgress: progressOf(file.file.size),
+                  })
+                  returnedDocuments.current.set(file.file, document)
+                }}
+                onUploadComplete={(file) => {
+                  const document = returnedDocuments.current.get(file.file)
+                  if (document) setUploadedDocuments((prev) => ({ ...prev, [file.id]: document }))
+                }}
                 onUploadError={(fileId, error) => console.error('Upload error:', fileId, error)}
               />
             </CardContent>
           </Card>
 
+          {/* Pre-upload Quality */}
+          {qualityResults.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <ScanSearch className="h-5 w-5 text-primary" />
+                  Pre-upload Quality
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {qualityResults.length > 1 && (
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {qualityResults.map((quality) => (
+                      <CompactQualityCheck
+                        key={quality.documentId}
+                        quality={quality}
+                        onClick={() => setSelectedQualityId(quality.documentId)}
+                      />
+                    ))}
+                  </div>
+                )}
+                {selectedQuality && (
+                  <QualityCheckPanel quality={selectedQuality} showDocumentPreview={false} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Classification Stats */}
           {classifications.length > 0 && (
             <Card>
@@ -295,14 +459,19 @@ function DocumentUploadPageContent() {
                 <div className="flex items-center justify-between gap-4">
                   <div>
                     <p className="text-sm font-medium">
-                      {uploadedFiles.length} document{uploadedFiles.length > 1 ? 's' : ''} uploaded
+                      {allUploaded
+                        ? `${uploadedFiles.length} document${uploadedFiles.length > 1 ? 's' : ''} uploaded`
+                        : `${completedCount} of ${uploadedFiles.length} documents uploaded`}
                     </p>
                     <p className="text-xs text-text-secondary">
-                      Ready to proceed to quality check
+                      {allUploaded
+                        ? 'Ready to proceed to quality check'
+                        : 'Finish, resume or remove the remaining uploads to continue'}
                     </p>
                   </div>
                   <Button
                     size="lg"
+                    disabled={!allUploaded}
                     onClick={() => {
                       // Create a new case if we don't have one
                       let targetCaseId = caseId
@@ -313,26 +482,53 @@ function DocumentUploadPageContent() {
                         )
                       }
 
-                      // Convert uploaded files to documents and update case
-                      const documents: Document[] = uploadedFiles.map((uploadedFile, index) => ({
-                        id: `doc-${Date.now()}-${index}`,
-                        name: uploadedFile.file.name,
-                        type: uploadedFile.file.type,
-                        size: uploadedFile.size,
-                        url: `/documents/${uploadedFile.id}`,
-                        thumbnail: `/thumbnails/${uploadedFile.id}.png`,
-                        uploadedAt: new Date().toISOString(),
-                        qualityScore: 0,
-                        qualityChecks: [],
-                        classification: {
-                          type: classifications.find(c => c.documentId === uploadedFile.id)?.classification.type || 'unknown',
-                          confidence: classifications.find(c => c.documentId === uploadedFile.id)?.classification.confidence || 0.5,
-                          manuallyOverridden: false,
-                        },
-                        extractionStatus: 'pending',
-                      }))
-
-                      updateCaseDocuments(documents)
+                      // The documents the server created, with what was learned locally before upload
+                      const documents: Document[] = uploadedFiles.map((uploadedFile) => {
+                        const quality = localQuality[uploadedFile.id]
+                        return {
+                          ...uploadedDocuments[uploadedFile.id],
+                          ...(quality && {
+                            qualityScore: quality.overallScore,
+                            qualityChecks: toDocumentQualityChecks(quality),
+                          }),
+                          classification: {
+                            type: classifications.find(c => c.documentId === uploadedFile.id)?.classification.type || 'unknown',
+                            confidence: classifications.find(c => c.documentId === uploadedFile.id)?.classification.confidence || 0.5,
+                            manuallyOverridden: false,
+                          },
+                          contentHash: uploadedFile.contentHash ?? uploadedDocuments[uploadedFile.id].contentHash,
+                          ...(priorVersions.current.has(uploadedFile.id) && {
+                            previousVersions: (priorVersions.current.get(uploadedFile.id) ?? []).flatMap(
+                              ({ document, replacedAt }) =>
+                                document
+                                  ? [
+                                      {
+                                        documentId: document.id,
+                                        name: document.name,
+                                        type: document.type,
+                                        size: document.size,
+                                        url: document.url,
+                                        replacedAt,
+                                        reason: 'Image corrected before upload',
+                                      },
+                                    ]
+                                  : []
+                            ),
+                          }),
+                        }
+                      })
+
+                      // Earlier copies the reviewer chose to replace are dropped from the case
+                      const replacedIds = uploadedFiles
+                        .filter((uploadedFile) => uploadedFile.duplicateResolution === 'replace')
+                        .flatMap((uploadedFile) =>
+                          (uploadedFile.duplicates ?? [])
+                            .filter((duplicate) => duplicate.sameCase)
+                            .map((duplicate) => duplicate.document.id)
+                        )
+                      const existingDocuments = activeCase?.id === targetCaseId ? activeCase.documents : []
+
+                      updateCaseDocuments(mergeUploadedDocuments(existingDocuments, documents, replacedIds))
                       updateCaseStatus('in-progress')
                       navigateToStep('quality-check', targetCaseId)
                     }}
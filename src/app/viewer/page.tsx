@@ -11,10 +11,10 @@ import {
   DocumentThumbnail,
   DocumentViewerSkeleton,
   type DocumentFile,
-  type SourceRegion,
 } from '@/components/features/document-viewer'
 import { WorkflowStepper } from '@/components/features/workflow-stepper'
 import { FileText, Grid, Rows } from 'lucide-react'
+import type { SourceRegion } from '@/types'
 
 export default function DocumentViewerPage() {
   const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(null)
@@ -273,6 +273,13 @@ export default function DocumentViewerPage() {
                       <strong>Page navigation</strong> for multi-page PDF documents
                     </span>
                   </li>
+                  <li className="flex items-start gap-2">
+                    <FileText className="h-4 w-4 text-text-tertiary mt-0.5 flex-shrink-0" />
+                    <span>
+                      <strong>Find in document</strong> searches the PDF text layer and steps
+                      through matches across pages
+                    </span>
+                  </li>
                 </ul>
               </div>
             </CardContent>
@@ -24,6 +24,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { ConfidenceMeter } from '@/components/ui/confidence-meter'
 import { Separator } from '@/components/ui/separator'
+import type { BenefitCalculation } from '@/types'
 
 // ============================================
 // Decision Types
@@ -61,6 +62,7 @@ export interface DecisionSummary {
   rationale: DecisionRationale
   approvedAmount?: number
   payoutAmount?: number
+  calculation?: BenefitCalculation
   approvedAt?: Date
   approver?: string
   approvalSteps: ApprovalStep[]
@@ -163,6 +165,54 @@ export function DecisionBadge({
   )
 }
 
+// ============================================
+// BenefitCalculationBreakdown Component
+// Itemised path from the claimed to the payable amount
+// ============================================
+
+export interface BenefitCalculationBreakdownProps {
+  calculation: BenefitCalculation
+  className?: string
+}
+
+export function BenefitCalculationBreakdown({ calculation, className }: BenefitCalculationBreakdownProps) {
+  return (
+    <div className={cn('rounded-lg border border-border-light', className)}>
+      <div className="px-4 py-3 border-b border-border-light">
+        <h4 className="text-sm font-medium">Benefit Calculation</h4>
+      </div>
+      <table className="w-full text-sm">
+        <tbody>
+          <tr>
+            <td className="px-4 py-2">Claimed amount</td>
+            <td className="px-4 py-2 text-right" />
+            <td className="px-4 py-2 text-right font-medium">{formatAmount(calculation.claimAmount)}</td>
+          </tr>
+          {calculation.lines.map((line, index) => (
+            <tr key={index} className="border-t border-border-light">
+              <td className="px-4 py-2">
+                <p>{line.label}</p>
+                {line.reference && <p className="text-xs text-text-tertiary">{line.reference}</p>}
+              </td>
+              <td className="px-4 py-2 text-right text-error whitespace-nowrap">{formatAmount(line.amount)}</td>
+              <td className="px-4 py-2 text-right text-text-secondary whitespace-nowrap">
+                {formatAmount(line.runningTotal)}
+              </td>
+            </tr>
+          ))}
+          <tr className="border-t border-border-light bg-bg-tertiary">
+            <td className="px-4 py-2 font-medium">Payable amount</td>
+            <td className="px-4 py-2 text-right text-text-secondary whitespace-nowrap">
+              {calculation.totalDeduction > 0 && formatAmount(-calculation.totalDeduction)}
+            </td>
+            <td className="px-4 py-2 text-right font-semibold">{formatAmount(calculation.payableAmount)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 // ============================================
 // DecisionSummaryCard Component
 // ============================================
@@ -315,6 +365,10 @@ export function DecisionSummaryCard({
             )}
           </div>
 
+          {decision.calculation && decision.decisionType !== 'rejected' && (
+            <BenefitCalculationBreakdown calculation={decision.calculation} />
+          )}
+
           {/* Rationale */}
           <div className="space-y-3">
             <button
@@ -20,42 +20,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
 import { Input } from '@/components/ui/input'
-
-// ============================================
-// Decision Trace Types
-// ============================================
-
-export type DecisionNodeType = 'rule' | 'condition' | 'action' | 'result'
-export type NodeStatus = 'pass' | 'fail' | 'skipped' | 'pending'
-
-export interface DecisionNode {
-  id: string
-  type: DecisionNodeType
-  status: NodeStatus
-  name: string
-  description?: string
-  input: Record<string, any>
-  output?: Record<string, any>
-  reasoning?: string
-  policyReference?: string
-  children?: DecisionNode[]
-  evaluatedAt?: string
-  evaluationDuration?: number // in ms
-  canOverride?: boolean
-}
-
-export interface DecisionTrace {
-  id: string
-  caseId: string
-  decisionId: string
-  rootNode: DecisionNode
-  totalNodes: number
-  passedNodes: number
-  failedNodes: number
-  skippedNodes: number
-  evaluationDuration: number // in ms
-  evaluatedAt: string
-}
+import type { DecisionNode, DecisionNodeType, DecisionTrace, NodeStatus } from '@/types'
 
 // ============================================
 // Node Status Configuration
@@ -84,6 +49,13 @@ const NODE_STATUS_CONFIG: Record<NodeStatus, NodeStatusConfig> = {
     bgColor: 'bg-red-50',
     borderColor: 'border-red-200',
   },
+  warning: {
+    icon: AlertTriangle,
+    label: 'Warning',
+    color: 'text-amber-700',
+    bgColor: 'bg-amber-50',
+    borderColor: 'border-amber-200',
+  },
   skipped: {
     icon: MinusCircle,
     label: 'Skipped',
@@ -196,7 +168,7 @@ export function DecisionTreeNode({
             >
               {node.type}
             </Badge>
-            {node.evaluationDuration && (
+            {node.evaluationDuration !== undefined && (
               <Badge variant="secondary" className="text-xs font-mono">
                 {node.evaluationDuration}ms
               </Badge>
@@ -22,19 +22,12 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover'
 import { ConfidenceMeter } from '@/components/ui/confidence-meter'
+import type { DocumentClassType } from '@/types'
 
 // ============================================
 // Document Classification Types
 // ============================================
 
-export type DocumentClassType =
-  | 'identity'
-  | 'medical'
-  | 'receipt'
-  | 'policy'
-  | 'invoice'
-  | 'unknown'
-
 export interface DocumentClassification {
   type: DocumentClassType
   confidence: number
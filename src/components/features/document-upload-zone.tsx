@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useCallback, useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { cn } from '@/lib/utils'
 import {
   Upload,
@@ -10,11 +10,25 @@ import {
   X,
   Check,
   AlertCircle,
+  Pause,
+  Play,
+  RotateCw,
+  Copy,
+  Loader2,
+  Crop,
 } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { ProgressBar } from '@/components/ui/progress'
+import {
+  hashFileContents,
+  type DocumentDuplicate,
+  type DuplicateResolution,
+} from '@/lib/document-duplicates'
+import type { DocumentQuality } from '@/types'
+import { ImageCorrectionEditor } from './image-correction-editor'
+import { QualityGateModal } from './quality-check-modal'
 
 // ============================================
 // Document Upload Zone Component
@@ -28,10 +42,23 @@ export interface UploadedFile {
   file: File
   type: DocumentFileType
   size: number
-  status: 'pending' | 'uploading' | 'success' | 'error'
+  status: 'checking' | 'duplicate' | 'pending' | 'uploading' | 'paused' | 'success' | 'error'
   progress: number
   error?: string
   preview?: string
+  /** SHA-256 of the contents, absent where Web Crypto is unavailable */
+  contentHash?: string
+  /** Documents already on file with the same contents */
+  duplicates?: DocumentDuplicate[]
+  duplicateResolution?: DuplicateResolution
+  /** The file as selected, when a corrected image has replaced it */
+  originalFile?: File
+}
+
+/** Passed to an upload handler so it can report progress and stop when paused */
+export interface UploadControls {
+  signal: AbortSignal
+  onProgress: (progress: number) => void
 }
 
 export interface DocumentUploadZoneProps extends React.HTMLAttributes<HTMLDivElement> {
@@ -43,8 +70,18 @@ export interface DocumentUploadZoneProps extends React.HTMLAttributes<HTMLDivEle
   maxFiles?: number
   /** Enable multiple file upload */
   multiple?: boolean
-  /** Callback when files are selected/validated */
+  /** Callback when files are selected/validated, after the duplicate check */
   onFilesSelected?: (files: UploadedFile[]) => void
+  /** Documents already on file with the given content hash */
+  findDuplicates?: (contentHash: string) => DocumentDuplicate[]
+  /** Reasons to correct an image before it is uploaded, by file id */
+  correctionHints?: Record<string, string>
+  /** Pre-upload quality results, by file id; a failed result opens the quality gate */
+  qualityResults?: Record<string, DocumentQuality>
+  /** Callback when a corrected image replaces a file and its upload restarts */
+  onFileCorrected?: (file: UploadedFile, replaced: File) => void
+  /** Callback when files are removed from the list, one by one or all at once */
+  onFilesRemoved?: (files: UploadedFile[]) => void
   /** Callback when file upload progress updates */
   onUploadProgress?: (fileId: string, progress: number) => void
   /** Callback when upload completes */
@@ -53,8 +90,11 @@ export interface DocumentUploadZoneProps extends React.HTMLAttributes<HTMLDivEle
   onUploadError?: (fileId: string, error: string) => void
   /** Disable the upload zone */
   disabled?: boolean
-  /** Custom upload handler (if not provided, simulates upload) */
-  onUpload?: (file: UploadedFile) => Promise<void>
+  /**
+   * Custom upload handler (if not provided, simulates upload). Pausing aborts
+   * `controls.signal`; resuming calls the handler again for the same file.
+   */
+  onUpload?: (file: UploadedFile, controls: UploadControls) => Promise<void>
 }
 
 export function DocumentUploadZone({
@@ -63,6 +103,11 @@ export function DocumentUploadZone({
   maxFiles = 50,
   multiple = true,
   onFilesSelected,
+  findDuplicates,
+  correctionHints,
+  qualityResults,
+  onFileCorrected,
+  onFilesRemoved,
   onUploadProgress,
   onUploadComplete,
   onUploadError,
@@ -73,6 +118,17 @@ export function DocumentUploadZone({
 }: DocumentUploadZoneProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
+  const [editingFileId, setEditingFileId] = useState<string | null>(null)
+  const [gateFileId, setGateFileId] = useState<string | null>(null)
+  const controllersRef = useRef(new Map<string, AbortController>())
+  // Results the gate has been opened for; a corrected file is checked again and gets a new one
+  const gatedResultsRef = useRef(new WeakSet<DocumentQuality>())
+
+  // Stop uploads still running when the zone goes away
+  useEffect(() => {
+    const controllers = controllersRef.current
+    return () => controllers.forEach((controller) => controller.abort())
+  }, [])
 
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes'
@@ -144,75 +200,191 @@ export function DocumentUploadZone({
     return validFiles
   }
 
-  const handleFiles = useCallback(
-    (files: FileList) => {
-      const validFiles = validateFiles(files)
-
-      const newFiles: UploadedFile[] = validFiles.map((file) => ({
-        id: `${file.name}-${Date.now()}-${Math.random()}`,
-        file,
-        type: getFileType(file),
-        size: file.size,
-        status: 'pending',
-        progress: 0,
-      }))
-
-      setUploadedFiles((prev) => [...prev, ...newFiles])
-      onFilesSelected?.(newFiles)
-
-      // Start upload simulation if no custom handler
-      if (!onUpload) {
-        newFiles.forEach((uploadedFile) => simulateUpload(uploadedFile))
-      } else {
-        newFiles.forEach((uploadedFile) => {
-          onUpload(uploadedFile)
-            .then(() => {
-              updateFileStatus(uploadedFile.id, 'success', 100)
-              onUploadComplete?.(uploadedFile)
-            })
-            .catch((error) => {
-              updateFileStatus(uploadedFile.id, 'error', 0, error.message)
-              onUploadError?.(uploadedFile.id, error.message)
-            })
-        })
-      }
-    },
-    [uploadedFiles.length, maxFiles, maxFileSize, onFilesSelected, onUpload, onUploadComplete, onUploadError]
-  )
+  const handleFiles = (files: FileList) => {
+    const validFiles = validateFiles(files)
 
-  const simulateUpload = (uploadedFile: UploadedFile) => {
-    updateFileStatus(uploadedFile.id, 'uploading', 0)
+    const newFiles: UploadedFile[] = validFiles.map((file) => ({
+      id: `${file.name}-${Date.now()}-${Math.random()}`,
+      file,
+      type: getFileType(file),
+      size: file.size,
+      status: 'checking',
+      progress: 0,
+    }))
 
-    let progress = 0
-    const interval = setInterval(() => {
-      progress += Math.random() * 15
-      if (progress >= 100) {
-        progress = 100
-        clearInterval(interval)
-        updateFileStatus(uploadedFile.id, 'success', 100)
-        onUploadComplete?.(uploadedFile)
-      } else {
+    setUploadedFiles((prev) => [...prev, ...newFiles])
+    newFiles.forEach((uploadedFile) => checkForDuplicates(uploadedFile))
+  }
+
+  /**
+   * Hash the file and hold it for a decision if the same contents are already
+   * on file. Removing the file while it is hashed aborts its controller, and
+   * the check then stops without starting an upload.
+   */
+  const checkForDuplicates = async (uploadedFile: UploadedFile) => {
+    const controller = new AbortController()
+    controllersRef.current.set(uploadedFile.id, controller)
+    const contentHash = await hashFileContents(uploadedFile.file).catch(() => undefined)
+    if (controller.signal.aborted) return
+    controllersRef.current.delete(uploadedFile.id)
+
+    const duplicates = contentHash && findDuplicates ? findDuplicates(contentHash) : []
+    const checked: UploadedFile = { ...uploadedFile, contentHash, status: 'pending' }
+
+    if (duplicates.length > 0) {
+      replaceFile({ ...checked, status: 'duplicate', duplicates })
+    } else {
+      acceptFile(checked)
+    }
+  }
+
+  const acceptFile = (uploadedFile: UploadedFile) => {
+    replaceFile(uploadedFile)
+    // A corrected file was reported through onFileCorrected when it replaced the original
+    if (!uploadedFile.originalFile) onFilesSelected?.([uploadedFile])
+    startUpload(uploadedFile)
+  }
+
+  const resolveDuplicate = (uploadedFile: UploadedFile, resolution: DuplicateResolution) => {
+    if (resolution === 'skip') {
+      removeFile(uploadedFile.id)
+      return
+    }
+    acceptFile({ ...uploadedFile, status: 'pending', duplicateResolution: resolution })
+  }
+
+  // Used when there is no custom handler; continues from the file's progress
+  const simulateUpload = (uploadedFile: UploadedFile, { signal, onProgress }: UploadControls) =>
+    new Promise<void>((resolve, reject) => {
+      let progress = uploadedFile.progress
+      const interval = setInterval(() => {
+        progress += Math.random() * 15
+        if (progress >= 100) {
+          clearInterval(interval)
+          resolve()
+        } else {
+          onProgress(progress)
+        }
+      }, 200)
+      signal.addEventListener(
+        'abort',
+        () => {
+          clearInterval(interval)
+          reject(new DOMException('Upload paused', 'AbortError'))
+        },
+        { once: true }
+      )
+    })
+
+  // Start or resume the upload of a file
+  const startUpload = (uploadedFile: UploadedFile) => {
+    const controller = new AbortController()
+    controllersRef.current.set(uploadedFile.id, controller)
+    updateFileStatus(uploadedFile.id, 'uploading')
+
+    // An upload replaced by a newer one for the same file no longer reports
+    const isCurrent = () => controllersRef.current.get(uploadedFile.id) === controller
+
+    const upload = onUpload ?? simulateUpload
+    upload(uploadedFile, {
+      signal: controller.signal,
+      onProgress: (progress) => {
+        if (!isCurrent()) return
         updateFileStatus(uploadedFile.id, 'uploading', progress)
         onUploadProgress?.(uploadedFile.id, progress)
-      }
-    }, 200)
+      },
+    })
+      .then(() => {
+        if (!isCurrent()) return
+        updateFileStatus(uploadedFile.id, 'success', 100)
+        onUploadComplete?.(uploadedFile)
+      })
+      .catch((error) => {
+        if (!isCurrent()) return
+        // Progress is kept: the next attempt continues where this one stopped
+        if (controller.signal.aborted) {
+          updateFileStatus(uploadedFile.id, 'paused')
+          return
+        }
+        updateFileStatus(uploadedFile.id, 'error', undefined, error.message)
+        onUploadError?.(uploadedFile.id, error.message)
+      })
+      .finally(() => {
+        if (isCurrent()) controllersRef.current.delete(uploadedFile.id)
+      })
+  }
+
+  const pauseUpload = (id: string) => {
+    controllersRef.current.get(id)?.abort()
+  }
+
+  // Swap in the corrected image; it is checked for duplicates and uploaded in place of what was sent so far
+  const applyCorrection = (uploadedFile: UploadedFile, corrected: File) => {
+    controllersRef.current.get(uploadedFile.id)?.abort()
+    controllersRef.current.delete(uploadedFile.id)
+
+    const updated: UploadedFile = {
+      ...uploadedFile,
+      file: corrected,
+      size: corrected.size,
+      originalFile: uploadedFile.originalFile ?? uploadedFile.file,
+      contentHash: undefined,
+      duplicates: undefined,
+      duplicateResolution: undefined,
+      status: 'checking',
+      progress: 0,
+      error: undefined,
+    }
+    replaceFile(updated)
+    onFileCorrected?.(updated, uploadedFile.file)
+    checkForDuplicates(updated)
+  }
+
+  const replaceFile = (uploadedFile: UploadedFile) => {
+    setUploadedFiles((prev) => prev.map((file) => (file.id === uploadedFile.id ? uploadedFile : file)))
   }
 
   const updateFileStatus = (
     id: string,
     status: UploadedFile['status'],
-    progress: number,
+    progress?: number,
     error?: string
   ) => {
     setUploadedFiles((prev) =>
       prev.map((file) =>
-        file.id === id ? { ...file, status, progress, error } : file
+        file.id === id ? { ...file, status, progress: progress ?? file.progress, error } : file
       )
     )
   }
 
   const removeFile = (id: string) => {
+    controllersRef.current.get(id)?.abort()
+    controllersRef.current.delete(id)
     setUploadedFiles((prev) => prev.filter((file) => file.id !== id))
+    onFilesRemoved?.(uploadedFiles.filter((file) => file.id === id))
+  }
+
+  const editingFile = uploadedFiles.find((file) => file.id === editingFileId)
+
+  // Open the quality gate for the next failed result, one file at a time
+  useEffect(() => {
+    if (gateFileId || editingFileId || !qualityResults) return
+    const failed = uploadedFiles.find((file) => {
+      const quality = qualityResults[file.id]
+      return quality?.overallStatus === 'fail' && !gatedResultsRef.current.has(quality)
+    })
+    if (!failed) return
+    gatedResultsRef.current.add(qualityResults[failed.id])
+    setGateFileId(failed.id)
+  }, [qualityResults, uploadedFiles, gateFileId, editingFileId])
+
+  const gateFile = uploadedFiles.find((file) => file.id === gateFileId)
+  const gateQuality = gateFile && qualityResults?.[gateFile.id]
+
+  const clearFiles = () => {
+    controllersRef.current.forEach((controller) => controller.abort())
+    setUploadedFiles([])
+    onFilesRemoved?.(uploadedFiles)
   }
 
   const handleDragEnter = (e: React.DragEvent) => {
@@ -335,7 +507,7 @@ export function DocumentUploadZone({
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setUploadedFiles([])}
+                  onClick={clearFiles}
                   disabled={disabled}
                 >
                   Clear All
@@ -349,7 +521,8 @@ export function DocumentUploadZone({
                     className={cn(
                       'flex items-center gap-3 p-3 rounded-lg border transition-colors',
                       file.status === 'error' && 'border-error bg-error/5',
-                      file.status !== 'error' && 'border-border-light bg-bg-tertiary'
+                      file.status === 'duplicate' && 'border-warning bg-warning/5',
+                      file.status !== 'error' && file.status !== 'duplicate' && 'border-border-light bg-bg-tertiary'
                     )}
                   >
                     {/* File Icon */}
@@ -365,19 +538,46 @@ export function DocumentUploadZone({
                       </div>
                       <div className="flex items-center gap-2 text-xs text-text-secondary">
                         <span>{formatFileSize(file.size)}</span>
+                        {file.status === 'checking' && (
+                          <span className="flex items-center gap-1">
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                            Checking for duplicates...
+                          </span>
+                        )}
+                        {file.duplicateResolution === 'replace' && (
+                          <span>Replaces the earlier copy</span>
+                        )}
                         {file.status === 'uploading' && (
                           <span>Uploading... {Math.round(file.progress)}%</span>
                         )}
+                        {file.status === 'paused' && (
+                          <span>Paused at {Math.round(file.progress)}%</span>
+                        )}
                         {file.status === 'success' && (
                           <span className="text-success">Uploaded successfully</span>
                         )}
                         {file.status === 'error' && (
                           <span className="text-error">{file.error || 'Upload failed'}</span>
                         )}
+                        {file.originalFile && <span>Corrected</span>}
                       </div>
 
+                      {/* Correction Hint */}
+                      {correctionHints?.[file.id] && (
+                        <p className="text-xs text-warning">{correctionHints[file.id]}</p>
+                      )}
+
+                      {/* Duplicate Warning */}
+                      {file.status === 'duplicate' && file.duplicates && (
+                        <DuplicateWarning
+                          duplicates={file.duplicates}
+                          disabled={disabled}
+                          onResolve={(resolution) => resolveDuplicate(file, resolution)}
+                        />
+                      )}
+
                       {/* Progress Bar */}
-                      {file.status === 'uploading' && (
+                      {(file.status === 'uploading' || file.status === 'paused') && (
                         <ProgressBar value={file.progress} max={100} size="sm" />
                       )}
                     </div>
@@ -394,6 +594,42 @@ export function DocumentUploadZone({
                           <AlertCircle className="h-5 w-5" />
                         </div>
                       )}
+                      {file.status === 'uploading' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => pauseUpload(file.id)}
+                          disabled={disabled}
+                          className="h-8 w-8"
+                          aria-label="Pause upload"
+                        >
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(file.status === 'paused' || file.status === 'error') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => startUpload(file)}
+                          disabled={disabled}
+                          className="h-8 w-8"
+                          aria-label={file.status === 'paused' ? 'Resume upload' : 'Retry upload'}
+                        >
+                          {file.status === 'paused' ? <Play className="h-4 w-4" /> : <RotateCw className="h-4 w-4" />}
+                        </Button>
+                      )}
+                      {file.type === 'image' && file.status !== 'checking' && file.status !== 'duplicate' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setEditingFileId(file.id)}
+                          disabled={disabled}
+                          className={cn('h-8 w-8', correctionHints?.[file.id] && 'text-warning')}
+                          aria-label="Correct image"
+                        >
+                          <Crop className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon"
@@ -411,6 +647,84 @@ export function DocumentUploadZone({
           </CardContent>
         </Card>
       )}
+
+      {/* Quality Gate */}
+      {gateFile && gateQuality && (
+        <QualityGateModal
+          open
+          quality={gateQuality}
+          onOpenChange={(open) => !open && setGateFileId(null)}
+          onReplace={() => {
+            setGateFileId(null)
+            removeFile(gateFile.id)
+            document.getElementById('file-upload')?.click()
+          }}
+          onCorrect={
+            gateFile.type === 'image'
+              ? () => {
+                  setGateFileId(null)
+                  setEditingFileId(gateFile.id)
+                }
+              : undefined
+          }
+        />
+      )}
+
+      {/* Image Correction */}
+      {editingFile && (
+        <ImageCorrectionEditor
+          open
+          file={editingFile.file}
+          hint={correctionHints?.[editingFile.id]}
+          onOpenChange={(open) => !open && setEditingFileId(null)}
+          onApply={(corrected) => applyCorrection(editingFile, corrected)}
+        />
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// Duplicate Warning
+// Shown for a file whose contents are already on file
+// ============================================
+
+interface DuplicateWarningProps {
+  duplicates: DocumentDuplicate[]
+  disabled?: boolean
+  onResolve: (resolution: DuplicateResolution) => void
+}
+
+function DuplicateWarning({ duplicates, disabled, onResolve }: DuplicateWarningProps) {
+  // Only a copy in the case being uploaded to can be replaced
+  const canReplace = duplicates.some((duplicate) => duplicate.sameCase)
+
+  return (
+    <div className="pt-1 space-y-2">
+      <div className="flex items-start gap-1.5 text-xs text-warning">
+        <Copy className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+        <ul className="space-y-0.5">
+          {duplicates.map((duplicate) => (
+            <li key={`${duplicate.caseId}:${duplicate.document.id}`}>
+              Same file as {duplicate.document.name}{' '}
+              {duplicate.sameCase ? 'in this case' : `in ${duplicate.caseId} (${duplicate.caseTitle})`}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" className="h-7" onClick={() => onResolve('skip')} disabled={disabled}>
+          Skip
+        </Button>
+        {canReplace && (
+          <Button variant="outline" size="sm" className="h-7" onClick={() => onResolve('replace')} disabled={disabled}>
+            Replace
+          </Button>
+        )}
+        <Button variant="outline" size="sm" className="h-7" onClick={() => onResolve('keep-both')} disabled={disabled}>
+          Keep both
+        </Button>
+      </div>
     </div>
   )
 }
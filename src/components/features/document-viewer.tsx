@@ -1,10 +1,15 @@
 'use client'
 
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
+import dynamic from 'next/dynamic'
+import Image from 'next/image'
 import { cn } from '@/lib/utils'
+import { findTextMatches, type PageText } from '@/lib/pdf-text-search'
 import {
   ChevronLeft,
   ChevronRight,
+  ChevronUp,
+  ChevronDown,
   ZoomIn,
   ZoomOut,
   Maximize,
@@ -12,12 +17,22 @@ import {
   Loader2,
   File,
   Check,
+  Search,
+  X,
 } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
 import { Skeleton } from '@/components/ui/skeleton'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import type { SourceRegion } from '@/types'
+
+// pdf.js needs browser APIs, so the page is never rendered on the server
+const PdfPage = dynamic(() => import('./pdf-page').then((m) => m.PdfPage), { ssr: false })
+
+// Width pages are rendered at, in the pixels highlight regions are given in
+const PAGE_WIDTH = 600
 
 // ============================================
 // Document Viewer Types
@@ -25,17 +40,6 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 
 export type DocumentType = 'pdf' | 'image'
 
-export interface SourceRegion {
-  id: string
-  page: number
-  x: number
-  y: number
-  width: number
-  height: number
-  label?: string
-  color?: string
-}
-
 export interface DocumentFile {
   id: string
   name: string
@@ -56,6 +60,47 @@ export interface DocumentViewerProps {
   className?: string
 }
 
+// ============================================
+// Region Highlight
+// ============================================
+
+interface RegionHighlightProps {
+  region: SourceRegion
+  isActive: boolean
+  onClick?: () => void
+}
+
+function RegionHighlight({ region, isActive, onClick }: RegionHighlightProps) {
+  return (
+    <div
+      onClick={onClick}
+      className={cn(
+        'absolute border-2 rounded cursor-pointer transition-all',
+        'hover:opacity-80',
+        isActive && 'ring-2 ring-offset-2 ring-primary',
+        region.color === 'success' && 'border-success bg-success/10 animate-pulse',
+        region.color === 'warning' && 'border-warning bg-warning/10',
+        region.color === 'error' && 'border-error bg-error/10',
+        region.color === 'match' && 'border-yellow-500 bg-yellow-300/40',
+        !region.color && 'border-primary bg-primary/10'
+      )}
+      style={{
+        left: `${region.x}px`,
+        top: `${region.y}px`,
+        width: `${region.width}px`,
+        height: `${region.height}px`,
+      }}
+      title={region.label}
+    >
+      {region.label && (
+        <span className="text-xs font-medium p-1">
+          {region.label}
+        </span>
+      )}
+    </div>
+  )
+}
+
 // ============================================
 // Document Viewer Component
 // ============================================
@@ -73,8 +118,51 @@ export function DocumentViewer({
 }: DocumentViewerProps) {
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [numPages, setNumPages] = useState<number | null>(null)
+  const [pageTexts, setPageTexts] = useState<PageText[]>([])
+  const [searchQuery, setSearchQuery] = useState('')
+  const [activeMatchIndex, setActiveMatchIndex] = useState(0)
+  const [loadedUrl, setLoadedUrl] = useState(document.url)
   const containerRef = useRef<HTMLDivElement>(null)
 
+  // Start over when another document is shown
+  if (loadedUrl !== document.url) {
+    setLoadedUrl(document.url)
+    setIsLoading(true)
+    setError(null)
+    setNumPages(null)
+    setPageTexts([])
+    setActiveMatchIndex(0)
+  }
+
+  const pageCount = numPages ?? document.pageCount
+
+  // ============================================
+  // Text Search
+  // ============================================
+
+  const matches = useMemo(() => findTextMatches(pageTexts, searchQuery), [pageTexts, searchQuery])
+  const activeMatch = matches[activeMatchIndex]
+
+  const goToMatch = (index: number, from = matches) => {
+    const match = from[index]
+    if (!match) return
+    setActiveMatchIndex(index)
+    if (match.page !== currentPage) onPageChange?.(match.page)
+  }
+
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query)
+    // Start from the first match on or after the page being read
+    const next = findTextMatches(pageTexts, query)
+    const index = next.findIndex((match) => match.page >= currentPage)
+    setActiveMatchIndex(0)
+    goToMatch(index === -1 ? 0 : index, next)
+  }
+
+  const handleNextMatch = () => goToMatch((activeMatchIndex + 1) % matches.length)
+  const handlePreviousMatch = () => goToMatch((activeMatchIndex - 1 + matches.length) % matches.length)
+
   const zoomLevels = [50, 75, 100, 125, 150, 200]
   const zoomIndex = zoomLevels.indexOf(zoom)
   const canZoomIn = zoomIndex < zoomLevels.length - 1
@@ -113,16 +201,16 @@ export function DocumentViewer({
                 <p className="text-sm font-medium line-clamp-1 max-w-[200px]">
                   {document.name}
                 </p>
-                {document.pageCount && (
+                {pageCount && (
                   <p className="text-xs text-text-tertiary">
-                    {document.pageCount} page{document.pageCount !== 1 ? 's' : ''}
+                    {pageCount} page{pageCount !== 1 ? 's' : ''}
                   </p>
                 )}
               </div>
             </div>
 
             {/* Page Navigation */}
-            {document.pageCount && document.pageCount > 1 && (
+            {pageCount && pageCount > 1 && (
               <div className="flex items-center gap-2">
                 <Button
                   variant="outline"
@@ -133,13 +221,13 @@ export function DocumentViewer({
                   <ChevronLeft className="h-4 w-4" />
                 </Button>
                 <span className="text-sm text-text-secondary min-w-[80px] text-center">
-                  Page {currentPage} of {document.pageCount}
+                  Page {currentPage} of {pageCount}
                 </span>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => onPageChange?.(Math.min(document.pageCount ?? 1, currentPage + 1))}
-                  disabled={currentPage >= (document.pageCount ?? 1)}
+                  onClick={() => onPageChange?.(Math.min(pageCount, currentPage + 1))}
+                  disabled={currentPage >= pageCount}
                 >
                   <ChevronRight className="h-4 w-4" />
                 </Button>
@@ -186,13 +274,69 @@ export function DocumentViewer({
               </Badge>
             )}
           </div>
+
+          {/* Text Search */}
+          {document.type === 'pdf' && (
+            <div className="flex items-center gap-2 mt-3 pt-3 border-t border-border-light">
+              <div className="relative flex-1">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-text-tertiary" />
+                <Input
+                  value={searchQuery}
+                  onChange={(e) => handleSearchChange(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key !== 'Enter' || matches.length === 0) return
+                    e.preventDefault()
+                    if (e.shiftKey) handlePreviousMatch()
+                    else handleNextMatch()
+                  }}
+                  placeholder={isLoading ? 'Loading text...' : 'Find in document'}
+                  disabled={isLoading || !!error}
+                  className="h-8 pl-8 pr-8"
+                  aria-label="Find in document"
+                />
+                {searchQuery && (
+                  <button
+                    type="button"
+                    onClick={() => handleSearchChange('')}
+                    className="absolute right-2.5 top-1/2 -translate-y-1/2 text-text-tertiary hover:text-text-primary"
+                    aria-label="Clear search"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+              {searchQuery.trim() && (
+                <span className="text-sm text-text-secondary min-w-[80px] text-center" aria-live="polite">
+                  {matches.length > 0 ? `${activeMatchIndex + 1} of ${matches.length}` : 'No matches'}
+                </span>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handlePreviousMatch}
+                disabled={matches.length === 0}
+                title="Previous match (Shift+Enter)"
+              >
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleNextMatch}
+                disabled={matches.length === 0}
+                title="Next match (Enter)"
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Document Display */}
       <Card>
         <CardContent className="p-6">
-          {isLoading && (
+          {isLoading && !error && (
             <div className="flex flex-col items-center justify-center py-12 space-y-4">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
               <p className="text-sm text-text-secondary">Loading document...</p>
@@ -209,80 +353,71 @@ export function DocumentViewer({
             </div>
           )}
 
-          {!isLoading && !error && (
-            <div
-              ref={containerRef}
-              className="relative mx-auto bg-bg-tertiary rounded overflow-hidden"
-              style={{
-                maxWidth: '100%',
-                transform: `scale(${zoom / 100})`,
-                transformOrigin: 'top center',
-              }}
-            >
-              {/* PDF Placeholder - In production, integrate actual PDF.js */}
-              <div className="min-h-[800px] w-[600px] bg-white shadow-lg mx-auto p-8">
-                <div className="space-y-4">
-                  {/* Mock document content */}
-                  <div className="text-center border-b border-border-light pb-4 mb-6">
-                    <h2 className="text-lg font-bold">INSURANCE CLAIM FORM</h2>
-                    <p className="text-xs text-text-secondary mt-2">
-                      Claim ID: CLM-2024-08947
-                    </p>
-                  </div>
-
-                  <div className="space-y-3">
-                    <div>
-                      <p className="text-xs text-text-tertiary mb-1">CLAIMANT INFORMATION</p>
-                      <div className="border border-border-light rounded p-3 space-y-2">
-                        <div className="grid grid-cols-2 gap-4">
-                          <div>
-                            <p className="text-xs text-text-tertiary">Full Name</p>
-                            <p className="text-sm font-medium">John Andrew Smith Jr.</p>
-                          </div>
-                          <div>
-                            <p className="text-xs text-text-tertiary">Date of Birth</p>
-                            <p className="text-sm">March 15, 1985</p>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
+          {/* Kept mounted while loading: the page reports when it is ready */}
+          <div
+            ref={containerRef}
+            className={cn('relative mx-auto bg-bg-tertiary rounded overflow-hidden', (isLoading || error) && 'hidden')}
+            style={{
+              maxWidth: '100%',
+              transform: `scale(${zoom / 100})`,
+              transformOrigin: 'top center',
+            }}
+          >
+            <div className="relative bg-white shadow-lg mx-auto" style={{ width: PAGE_WIDTH }}>
+              {document.type === 'pdf' ? (
+                <PdfPage
+                  key={document.url}
+                  url={document.url}
+                  pageNumber={currentPage}
+                  width={PAGE_WIDTH}
+                  onLoadSuccess={(pages) => {
+                    setNumPages(pages)
+                    setIsLoading(false)
+                  }}
+                  onLoadError={setError}
+                  onTextLoaded={setPageTexts}
+                />
+              ) : (
+                // Uploaded files are blob or storage URLs the image optimiser cannot fetch
+                <Image
+                  src={document.url}
+                  alt={document.name}
+                  width={PAGE_WIDTH}
+                  height={PAGE_WIDTH}
+                  unoptimized
+                  className="block w-full h-auto"
+                  onLoad={() => setIsLoading(false)}
+                  onError={() => setError('The image could not be loaded')}
+                />
+              )}
 
-                    {/* Highlight Regions */}
-                    {highlights
-                      .filter((h) => h.page === currentPage)
-                      .map((region) => (
-                        <div
-                          key={region.id}
-                          onClick={() => onRegionClick?.(region)}
-                          className={cn(
-                            'absolute border-2 rounded cursor-pointer transition-all',
-                            'hover:opacity-80',
-                            activeRegionId === region.id && 'ring-2 ring-offset-2 ring-primary',
-                            region.color === 'success' && 'border-success bg-success/10 animate-pulse',
-                            region.color === 'warning' && 'border-warning bg-warning/10',
-                            region.color === 'error' && 'border-error bg-error/10',
-                            !region.color && 'border-primary bg-primary/10'
-                          )}
-                          style={{
-                            left: `${region.x}px`,
-                            top: `${region.y}px`,
-                            width: `${region.width}px`,
-                            height: `${region.height}px`,
-                          }}
-                          title={region.label}
-                        >
-                          {region.label && (
-                            <span className="text-xs font-medium p-1">
-                              {region.label}
-                            </span>
-                          )}
-                        </div>
-                      ))}
-                  </div>
-                </div>
-              </div>
+              {/* Highlight Regions */}
+              {highlights
+                .filter((h) => h.page === currentPage)
+                .map((region) => (
+                  <RegionHighlight
+                    key={region.id}
+                    region={region}
+                    isActive={activeRegionId === region.id}
+                    onClick={() => onRegionClick?.(region)}
+                  />
+                ))}
+
+              {/* Search Matches */}
+              {matches
+                .filter((match) => match.page === currentPage)
+                .flatMap((match) =>
+                  match.regions.map((region) => (
+                    <RegionHighlight
+                      key={region.id}
+                      region={region}
+                      isActive={activeMatch?.id === match.id}
+                      onClick={() => setActiveMatchIndex(matches.indexOf(match))}
+                    />
+                  ))
+                )}
             </div>
-          )}
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,82 @@
+'use client'
+
+import React, { useState } from 'react'
+import { toast } from 'sonner'
+import { Braces, Download, FileCode2, FileSpreadsheet } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useXmlExportMapping } from '@/lib/store'
+import { downloadExportFile, exportCases, type ExportFormat } from '@/lib/case-export'
+import type { Case } from '@/types'
+
+const formats: Array<{ format: ExportFormat; label: string; description: string; icon: React.ReactNode }> = [
+  {
+    format: 'json',
+    label: 'JSON',
+    description: 'Fields and line items with source and edit details',
+    icon: <Braces className="h-4 w-4" />,
+  },
+  {
+    format: 'csv',
+    label: 'CSV',
+    description: 'One row per field or line-item cell',
+    icon: <FileSpreadsheet className="h-4 w-4" />,
+  },
+  {
+    format: 'xml',
+    label: 'XML',
+    description: 'Element names from the mapping in Settings',
+    icon: <FileCode2 className="h-4 w-4" />,
+  },
+]
+
+export interface ExportMenuProps {
+  cases: Case[]
+  label?: string
+  size?: 'sm' | 'default'
+  className?: string
+}
+
+/**
+ * Export action for the extracted data of one case or a selection of cases
+ */
+export function ExportMenu({ cases, label = 'Export', size = 'sm', className }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const xmlMapping = useXmlExportMapping()
+
+  const handleExport = (format: ExportFormat) => {
+    const file = exportCases(cases, format, xmlMapping)
+    downloadExportFile(file)
+    setOpen(false)
+    toast.success(`Exported ${file.filename}`, {
+      description: `${cases.length} case${cases.length !== 1 ? 's' : ''} as ${format.toUpperCase()}`,
+    })
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size={size} className={className} disabled={cases.length === 0}>
+          <Download className="h-4 w-4 mr-1.5" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-1">
+        {formats.map(({ format, label: formatLabel, description, icon }) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            className="w-full flex items-start gap-3 rounded-md px-3 py-2 text-left hover:bg-bg-tertiary transition-colors"
+          >
+            <span className="mt-0.5 text-primary">{icon}</span>
+            <span>
+              <span className="block text-sm font-medium">{formatLabel}</span>
+              <span className="block text-xs text-text-secondary">{description}</span>
+            </span>
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -17,6 +17,9 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react'
 import { cn } from '@/lib/utils'
+import { formatCellValue, lineItemCellId, lineItemColumns } from '@/lib/line-items'
+import { getConfidenceLevel } from '@/components/features/extraction-editor'
+import type { ConfidenceThresholds, ExtractedTable } from '@/types'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -33,7 +36,17 @@ import {
   Layers,
   Move,
   MousePointer2,
+  BoxSelect,
+  Loader2,
+  X,
 } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 
 // ============================================
 // Types
@@ -60,6 +73,15 @@ export interface DocumentPage {
   height: number    // Original height in pixels
 }
 
+// Rectangle drawn by the reviewer, in the same percentages as a BoundingBox
+export interface DrawnRegion {
+  page: number
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
 export interface ExtractionDocumentViewerProps {
   pages: DocumentPage[]
   boundingBoxes: BoundingBox[]
@@ -71,6 +93,9 @@ export interface ExtractionDocumentViewerProps {
   onFieldClick?: (fieldId: string) => void
   showAllHighlights?: boolean
   onToggleHighlights?: (show: boolean) => void
+  // Fields a drawn region can be assigned to; drawing is offered when set
+  regionTargets?: Array<{ fieldId: string; label: string }>
+  onRegionReextract?: (fieldId: string, region: DrawnRegion) => Promise<void>
   className?: string
 }
 
@@ -129,6 +154,7 @@ interface BoundingBoxOverlayProps {
   onMouseEnter: () => void
   onMouseLeave: () => void
   scale: number
+  disabled?: boolean // ignores the pointer, e.g. while a region is drawn over it
 }
 
 function BoundingBoxOverlay({
@@ -140,6 +166,7 @@ function BoundingBoxOverlay({
   onMouseEnter,
   onMouseLeave,
   scale,
+  disabled = false,
 }: BoundingBoxOverlayProps) {
   const colors = getConfidenceColors(box.confidenceLevel)
   const isHighlighted = isActive || isHovered
@@ -153,6 +180,7 @@ function BoundingBoxOverlay({
         colors.border,
         isHighlighted ? colors.bgHover : colors.bg,
         isHighlighted && `shadow-lg ${colors.shadow}`,
+        disabled && 'pointer-events-none',
       )}
       style={{
         left: `${box.x}%`,
@@ -165,6 +193,7 @@ function BoundingBoxOverlay({
       onClick={onClick}
       onMouseEnter={onMouseEnter}
       onMouseLeave={onMouseLeave}
+      data-field-id={box.fieldId}
       role="button"
       aria-label={`Field: ${box.label}, Value: ${box.value}`}
       tabIndex={0}
@@ -370,14 +399,22 @@ export function ExtractionDocumentViewer({
   onFieldClick,
   showAllHighlights = false,
   onToggleHighlights,
+  regionTargets,
+  onRegionReextract,
   className,
 }: ExtractionDocumentViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null)
+  const pageRef = useRef<HTMLDivElement>(null)
   const [scale, setScale] = useState(1)
   const [position, setPosition] = useState({ x: 0, y: 0 })
   const [isDragging, setIsDragging] = useState(false)
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
-  const [interactionMode, setInteractionMode] = useState<'select' | 'pan'>('select')
+  const [interactionMode, setInteractionMode] = useState<'select' | 'pan' | 'draw'>('select')
+  const [drawStart, setDrawStart] = useState<{ x: number; y: number } | null>(null)
+  const [drawnRegion, setDrawnRegion] = useState<DrawnRegion | null>(null)
+  const [regionFieldId, setRegionFieldId] = useState<string | null>(null)
+  const [isReextracting, setIsReextracting] = useState(false)
+  const canDrawRegions = !!onRegionReextract && !!regionTargets?.length
 
   // Get boxes for current page
   const currentPageBoxes = boundingBoxes.filter((box) => box.page === currentPage)
@@ -430,6 +467,65 @@ export function ExtractionDocumentViewer({
     setIsDragging(false)
   }, [])
 
+  // Region drawing: pointer position as a percentage of the page, which
+  // already accounts for zoom and pan
+  const toPagePercent = (e: React.MouseEvent) => {
+    const rect = pageRef.current!.getBoundingClientRect()
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+    }
+  }
+
+  const handleDrawStart = (e: React.MouseEvent) => {
+    if (interactionMode !== 'draw' || isReextracting) return
+    const point = toPagePercent(e)
+    setDrawStart(point)
+    setDrawnRegion({ page: currentPage, x: point.x, y: point.y, width: 0, height: 0 })
+  }
+
+  const handleDrawMove = (e: React.MouseEvent) => {
+    if (!drawStart) return
+    const point = toPagePercent(e)
+    setDrawnRegion({
+      page: currentPage,
+      x: Math.min(drawStart.x, point.x),
+      y: Math.min(drawStart.y, point.y),
+      width: Math.abs(point.x - drawStart.x),
+      height: Math.abs(point.y - drawStart.y),
+    })
+  }
+
+  const handleDrawEnd = () => {
+    if (!drawStart) return
+    setDrawStart(null)
+    // A click or a sliver is not a region
+    if (!drawnRegion || drawnRegion.width < 1 || drawnRegion.height < 1) {
+      setDrawnRegion(null)
+      return
+    }
+    setRegionFieldId((prev) => prev ?? activeFieldId ?? null)
+  }
+
+  const cancelRegion = () => {
+    setDrawStart(null)
+    setDrawnRegion(null)
+  }
+
+  const handleRegionReextract = async () => {
+    if (!drawnRegion || !regionFieldId || !onRegionReextract) return
+    setIsReextracting(true)
+    try {
+      await onRegionReextract(regionFieldId, drawnRegion)
+      setDrawnRegion(null)
+      setInteractionMode('select')
+    } catch {
+      // The caller reports the failure; keep the region so it can be retried
+    } finally {
+      setIsReextracting(false)
+    }
+  }
+
   // Scroll to field when active field changes
   useEffect(() => {
     if (activeFieldId) {
@@ -440,6 +536,13 @@ export function ExtractionDocumentViewer({
     }
   }, [activeFieldId, boundingBoxes, currentPage, onPageChange])
 
+  // Bring the active field's box into view once its page is shown
+  useEffect(() => {
+    if (!activeFieldId) return
+    const element = containerRef.current?.querySelector(`[data-field-id="${activeFieldId}"]`)
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' })
+  }, [activeFieldId, currentPage])
+
   const totalPages = Math.max(...pages.map((p) => p.pageNumber), 2)
 
   return (
@@ -518,6 +621,17 @@ export function ExtractionDocumentViewer({
             >
               <Move className="h-4 w-4" />
             </Button>
+            {canDrawRegions && (
+              <Button
+                variant={interactionMode === 'draw' ? 'secondary' : 'ghost'}
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => setInteractionMode('draw')}
+                title="Draw a region to re-extract a field from"
+              >
+                <BoxSelect className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
 
@@ -596,7 +710,14 @@ export function ExtractionDocumentViewer({
           }}
         >
           {/* Document Page with Overlays */}
-          <div className="relative w-[600px]">
+          <div
+            ref={pageRef}
+            className={cn('relative w-[600px]', interactionMode === 'draw' && 'cursor-crosshair select-none')}
+            onMouseDown={handleDrawStart}
+            onMouseMove={handleDrawMove}
+            onMouseUp={handleDrawEnd}
+            onMouseLeave={handleDrawEnd}
+          >
             <MockDocumentPage pageNumber={currentPage}>
               {/* Render bounding boxes */}
               {(showAllHighlights ? currentPageBoxes : visibleBoxes).map((box) => (
@@ -610,8 +731,70 @@ export function ExtractionDocumentViewer({
                   onMouseEnter={() => onFieldHover?.(box.fieldId)}
                   onMouseLeave={() => onFieldHover?.(null)}
                   scale={scale}
+                  disabled={interactionMode === 'draw'}
                 />
               ))}
+
+              {/* Region drawn for re-extraction */}
+              {drawnRegion && drawnRegion.page === currentPage && (
+                <div
+                  className="absolute z-30 border-2 border-dashed border-primary bg-primary/10 rounded-sm"
+                  style={{
+                    left: `${drawnRegion.x}%`,
+                    top: `${drawnRegion.y}%`,
+                    width: `${drawnRegion.width}%`,
+                    height: `${drawnRegion.height}%`,
+                  }}
+                >
+                  {!drawStart && regionTargets && (
+                    <div
+                      className="absolute top-full left-0 mt-2 w-64 p-2 rounded-lg bg-white shadow-lg border border-gray-200 space-y-2 cursor-default"
+                      onMouseDown={(e) => e.stopPropagation()}
+                    >
+                      <p className="text-xs font-medium text-gray-700">Re-extract a field from this region</p>
+                      <Select value={regionFieldId ?? undefined} onValueChange={setRegionFieldId}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue placeholder="Choose a field" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {regionTargets.map((target) => (
+                            <SelectItem key={target.fieldId} value={target.fieldId} className="text-xs">
+                              {target.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          size="sm"
+                          className="h-7 flex-1 text-xs"
+                          onClick={handleRegionReextract}
+                          disabled={!regionFieldId || isReextracting}
+                        >
+                          {isReextracting ? (
+                            <>
+                              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                              Re-extracting...
+                            </>
+                          ) : (
+                            'Re-extract'
+                          )}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          onClick={cancelRegion}
+                          disabled={isReextracting}
+                          aria-label="Discard region"
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
             </MockDocumentPage>
           </div>
         </div>
@@ -671,6 +854,22 @@ export function ExtractionDocumentViewer({
 // Helper function to create bounding boxes from fields
 // ============================================
 
+// Page size that field source regions are measured in
+export const SOURCE_PAGE_WIDTH = 600
+export const SOURCE_PAGE_HEIGHT = 780
+
+/**
+ * Drawn region as a field source region: [x, y, width, height] in page pixels
+ */
+export function toSourceRegion(region: DrawnRegion): [number, number, number, number] {
+  return [
+    Math.round((region.x / 100) * SOURCE_PAGE_WIDTH),
+    Math.round((region.y / 100) * SOURCE_PAGE_HEIGHT),
+    Math.round((region.width / 100) * SOURCE_PAGE_WIDTH),
+    Math.round((region.height / 100) * SOURCE_PAGE_HEIGHT),
+  ]
+}
+
 export function createBoundingBoxesFromFields(
   fields: Array<{
     id: string
@@ -693,11 +892,11 @@ export function createBoundingBoxesFromFields(
       id: `bbox-${field.id}`,
       fieldId: field.id,
       page: field.sourceRegion!.page,
-      // Convert pixel coordinates to percentages (assuming 600x780 document size)
-      x: (field.sourceRegion!.x / 600) * 100,
-      y: (field.sourceRegion!.y / 780) * 100,
-      width: (field.sourceRegion!.width / 600) * 100,
-      height: (field.sourceRegion!.height / 780) * 100,
+      // Convert pixel coordinates to percentages
+      x: (field.sourceRegion!.x / SOURCE_PAGE_WIDTH) * 100,
+      y: (field.sourceRegion!.y / SOURCE_PAGE_HEIGHT) * 100,
+      width: (field.sourceRegion!.width / SOURCE_PAGE_WIDTH) * 100,
+      height: (field.sourceRegion!.height / SOURCE_PAGE_HEIGHT) * 100,
       label: field.label,
       value: field.value,
       confidence: field.confidence,
@@ -705,4 +904,36 @@ export function createBoundingBoxesFromFields(
     }))
 }
 
+/**
+ * One bounding box per line-item cell that has a source region
+ */
+export function createBoundingBoxesFromTables(
+  tables: ExtractedTable[],
+  thresholds?: ConfidenceThresholds
+): BoundingBox[] {
+  return tables.flatMap((table) =>
+    table.rows.flatMap((row, index) =>
+      lineItemColumns.flatMap(({ column, label }) => {
+        const cell = row.cells[column]
+        if (!cell.source) return []
+        const [x, y, width, height] = cell.source.region
+        const cellId = lineItemCellId(row.id, column)
+        return [{
+          id: `bbox-${cellId}`,
+          fieldId: cellId,
+          page: cell.source.page,
+          x: (x / SOURCE_PAGE_WIDTH) * 100,
+          y: (y / SOURCE_PAGE_HEIGHT) * 100,
+          width: (width / SOURCE_PAGE_WIDTH) * 100,
+          height: (height / SOURCE_PAGE_HEIGHT) * 100,
+          label: `Row ${index + 1} ${label}`,
+          value: formatCellValue(column, cell),
+          confidence: cell.confidence,
+          confidenceLevel: getConfidenceLevel(cell.confidence, thresholds),
+        }]
+      })
+    )
+  )
+}
+
 export default ExtractionDocumentViewer
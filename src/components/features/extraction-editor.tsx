@@ -1,7 +1,8 @@
 'use client'
 
 import React, { useState } from 'react'
-import { cn } from '@/lib/utils'
+import { cn, getConfidenceLevel as getScoreLevel } from '@/lib/utils'
+import { DEFAULT_CONFIDENCE_THRESHOLDS } from '@/lib/confidence-thresholds'
 import {
   Check,
   X,
@@ -23,6 +24,14 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover'
 import { ConfidenceMeter } from '@/components/ui/confidence-meter'
+import {
+  deriveFieldStatus,
+  formatFieldValue,
+  getFieldKind,
+  validateFieldValue,
+  type FieldKind,
+} from '@/lib/field-types'
+import type { ConfidenceThresholds, ExtractedField as ExtractedFieldData } from '@/types'
 
 // ============================================
 // Extraction Field Types
@@ -52,6 +61,8 @@ export interface ExtractedField {
     editedBy: string
   }>
   isRequired?: boolean
+  kind?: FieldKind // validates and normalises edits when set
+  flagged?: boolean
 }
 
 export interface FieldGroup {
@@ -66,22 +77,51 @@ export interface FieldGroup {
 // Confidence Utilities
 // ============================================
 
-export const getConfidenceLevel = (score: number): ConfidenceLevel => {
-  if (score >= 90) return 'high'
-  if (score >= 70) return 'medium'
-  return 'low'
-}
+export const getConfidenceLevel = (
+  score: number,
+  thresholds: ConfidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS
+): ConfidenceLevel => getScoreLevel(score, thresholds)
 
 export const getStatusFromConfidence = (
   confidence: number,
-  isEdited: boolean
+  isEdited: boolean,
+  thresholds: ConfidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS
 ): ExtractedField['status'] => {
   if (isEdited) return 'edited'
-  if (confidence >= 90) return 'auto-accepted'
-  if (confidence >= 70) return 'review-suggested'
+  if (confidence >= thresholds.high) return 'auto-accepted'
+  if (confidence >= thresholds.medium) return 'review-suggested'
   return 'review-required'
 }
 
+/**
+ * View model for an extracted field of a case. Source regions are stored as
+ * [x, y, width, height] on the page; the confidence level and status follow the
+ * field's thresholds.
+ */
+export const toExtractedFieldViewModel = (
+  field: ExtractedFieldData,
+  isRequired?: boolean,
+  thresholds?: ConfidenceThresholds
+): ExtractedField => {
+  const [x, y, width, height] = field.source.region
+  const value = formatFieldValue(field.name, field.value)
+  return {
+    id: field.id,
+    label: field.label,
+    value,
+    originalValue: field.manuallyEdited && field.originalValue !== undefined
+      ? formatFieldValue(field.name, field.originalValue)
+      : value,
+    confidence: field.confidence,
+    confidenceLevel: getConfidenceLevel(field.confidence, thresholds),
+    status: field.manuallyEdited ? 'edited' : deriveFieldStatus(field, thresholds),
+    sourceRegion: { page: field.source.page, x, y, width, height },
+    isRequired,
+    kind: getFieldKind(field.name),
+    flagged: !!field.flag,
+  }
+}
+
 export const confidenceConfig = {
   high: {
     color: 'text-success',
@@ -111,8 +151,9 @@ export interface ExtractedFieldProps {
   field: ExtractedField
   isEditing?: boolean
   onEdit?: () => void
-  onSave?: (value: string) => Promise<void>
+  onSave?: (value: string, reason?: string) => Promise<void>
   onCancel?: () => void
+  showReason?: boolean // ask why the value is being changed
   onViewSource?: () => void
   onReExtract?: () => void
   onShowHistory?: () => void
@@ -125,12 +166,14 @@ export function ExtractedField({
   onEdit,
   onSave,
   onCancel,
+  showReason = false,
   onViewSource,
   onReExtract,
   onShowHistory,
   className,
 }: ExtractedFieldProps) {
   const [editValue, setEditValue] = useState(field.value)
+  const [reason, setReason] = useState('')
   const [isSaving, setIsSaving] = useState(false)
   const [saveError, setSaveError] = useState<string | null>(null)
   const [showSuccess, setShowSuccess] = useState(false)
@@ -140,11 +183,22 @@ export function ExtractedField({
   const handleSave = async () => {
     if (!onSave) return
 
+    let value = editValue
+    if (field.kind) {
+      const result = validateFieldValue(field.kind, editValue)
+      if (!result.valid) {
+        setSaveError(result.error)
+        return
+      }
+      value = result.display
+      setEditValue(value)
+    }
+
     setIsSaving(true)
     setSaveError(null)
 
     try {
-      await onSave(editValue)
+      await onSave(value, reason.trim() || undefined)
       setShowSuccess(true)
       setTimeout(() => setShowSuccess(false), 2000)
     } catch (error) {
@@ -156,6 +210,7 @@ export function ExtractedField({
 
   const handleCancel = () => {
     setEditValue(field.value)
+    setReason('')
     setSaveError(null)
     onCancel?.()
   }
@@ -194,7 +249,7 @@ export function ExtractedField({
 
               {/* Confidence Badge */}
               <div className="flex items-center gap-2">
-                <ConfidenceMeter value={field.confidence} size="sm" />
+                <ConfidenceMeter value={field.confidence} level={field.confidenceLevel} size="sm" />
                 <span className={cn('text-xs', config.color)}>
                   {config.label}
                 </span>
@@ -271,12 +326,27 @@ export function ExtractedField({
             <div className="space-y-2">
               <Input
                 value={editValue}
-                onChange={(e) => setEditValue(e.target.value)}
+                onChange={(e) => {
+                  setEditValue(e.target.value)
+                  setSaveError(null)
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
                 placeholder="Enter value..."
                 className={cn(saveError && 'border-error')}
+                aria-invalid={!!saveError}
                 autoFocus
               />
 
+              {showReason && (
+                <Input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                  placeholder="Reason for change (optional)"
+                  className="text-xs h-8"
+                />
+              )}
+
               {saveError && (
                 <div className="flex items-center gap-1 text-xs text-error">
                   <AlertCircle className="h-3 w-3" />
@@ -509,7 +579,7 @@ export function CompactExtractedField({
 
       {/* Confidence */}
       <div className="text-right flex-shrink-0">
-        <ConfidenceMeter value={field.confidence} size="sm" />
+        <ConfidenceMeter value={field.confidence} level={field.confidenceLevel} size="sm" />
       </div>
     </button>
   )
@@ -0,0 +1,134 @@
+'use client'
+
+import React from 'react'
+import { cn, formatDate } from '@/lib/utils'
+import { AlertTriangle, Check, FileText } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { comparableValue } from '@/lib/field-types'
+import type { FieldConflict } from '@/lib/field-consistency'
+import type { Document } from '@/types'
+
+// ============================================
+// FieldConflictRow Component
+// ============================================
+
+interface FieldConflictRowProps {
+  conflict: FieldConflict
+  documentNames: Record<string, string>
+  onResolve?: (fieldId: string, documentId: string) => void
+}
+
+function FieldConflictRow({ conflict, documentNames, onResolve }: FieldConflictRowProps) {
+  const { field, candidates, resolved } = conflict
+  const current = comparableValue(field.name, field.value)
+
+  return (
+    <div className="rounded-lg border border-border-light p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">{field.label}</p>
+        {resolved ? (
+          <Badge variant="outline" className="text-success border-current">
+            Resolved
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="text-warning border-current">
+            {candidates.length} values
+          </Badge>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        {candidates.map((candidate) => {
+          const isChosen = field.resolution
+            ? field.resolution.documentId === candidate.documentId
+            : comparableValue(field.name, candidate.value) === current
+          return (
+            <div
+              key={candidate.documentId}
+              className={cn(
+                'flex items-center gap-3 rounded px-2 py-1.5 text-sm',
+                isChosen ? 'bg-primary/5' : 'bg-bg-tertiary'
+              )}
+            >
+              <FileText className="h-4 w-4 text-text-tertiary flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{String(candidate.value)}</p>
+                <p className="text-xs text-text-tertiary">
+                  {documentNames[candidate.documentId] ?? candidate.documentId} · page{' '}
+                  {candidate.source.page} · {candidate.confidence}%
+                </p>
+              </div>
+              {isChosen ? (
+                <span className="flex items-center gap-1 text-xs text-primary">
+                  <Check className="h-3 w-3" />
+                  In use
+                </span>
+              ) : (
+                onResolve && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onResolve(field.id, candidate.documentId)}
+                  >
+                    Use this value
+                  </Button>
+                )
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {field.resolution && (
+        <p className="text-xs text-text-tertiary">
+          Chosen by {field.resolution.resolvedBy} from{' '}
+          {documentNames[field.resolution.documentId] ?? field.resolution.documentId} on{' '}
+          {formatDate(field.resolution.resolvedAt)}
+        </p>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// FieldConflictPanel Component
+// Per-document values that disagree, with a way to pick one
+// ============================================
+
+export interface FieldConflictPanelProps {
+  conflicts: FieldConflict[]
+  documents: Document[]
+  onResolve?: (fieldId: string, documentId: string) => void
+  className?: string
+}
+
+export function FieldConflictPanel({ conflicts, documents, onResolve, className }: FieldConflictPanelProps) {
+  if (conflicts.length === 0) return null
+
+  const documentNames = Object.fromEntries(documents.map((doc) => [doc.id, doc.name]))
+  const unresolved = conflicts.filter((c) => !c.resolved).length
+
+  return (
+    <Card className={cn(unresolved > 0 && 'border-warning', className)}>
+      <CardHeader className="py-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <AlertTriangle className={cn('h-4 w-4', unresolved > 0 ? 'text-warning' : 'text-text-tertiary')} />
+          Cross-Document Conflicts
+          {unresolved > 0 && <span className="text-xs font-normal text-text-secondary">{unresolved} to resolve</span>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 pb-4">
+        {conflicts.map((conflict) => (
+          <FieldConflictRow
+            key={conflict.field.id}
+            conflict={conflict}
+            documentNames={documentNames}
+            onResolve={onResolve}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import React, { useState } from 'react'
+import { cn, formatDate } from '@/lib/utils'
+import { History, RotateCcw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useFieldHistory } from '@/lib/api-hooks'
+import { diffValues, getFieldRevisions } from '@/lib/field-history'
+import { formatFieldValue } from '@/lib/field-types'
+import type { ExtractedField, FieldRevision, FieldRevisionKind } from '@/types'
+
+const revisionLabels: Record<FieldRevisionKind, string> = {
+  extraction: 'Extracted',
+  edit: 'Edited',
+  'conflict-resolution': 'Conflict resolved',
+  revert: 'Reverted',
+  're-extraction': 'Re-extracted',
+}
+
+// ============================================
+// ValueDiff Component
+// ============================================
+
+function ValueDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="text-sm break-words">
+      {diffValues(before, after).map((segment, index) => (
+        <span
+          key={index}
+          className={cn(
+            segment.type === 'removed' && 'bg-error/10 text-error line-through',
+            segment.type === 'added' && 'bg-success/10 text-success'
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </p>
+  )
+}
+
+// ============================================
+// RevisionRow Component
+// ============================================
+
+interface RevisionRowProps {
+  field: ExtractedField
+  revision: FieldRevision
+  previous?: FieldRevision
+  revisions: FieldRevision[]
+  isCurrent: boolean
+  onRevert?: (revision: FieldRevision) => void
+}
+
+function RevisionRow({ field, revision, previous, revisions, isCurrent, onRevert }: RevisionRowProps) {
+  const value = formatFieldValue(field.name, revision.value)
+  const restored = revision.revertedFrom && revisions.find((r) => r.id === revision.revertedFrom)
+
+  return (
+    <div className={cn('rounded-lg border p-2.5 space-y-1.5', isCurrent ? 'border-primary/40 bg-primary/5' : 'border-border-light')}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5">
+          <Badge variant="outline" className="text-xs">
+            {revisionLabels[revision.kind]}
+          </Badge>
+          {isCurrent && <span className="text-xs font-medium text-primary">Current</span>}
+        </div>
+        <span className="text-xs text-text-tertiary">{revision.confidence}%</span>
+      </div>
+
+      {previous ? (
+        <ValueDiff before={formatFieldValue(field.name, previous.value)} after={value} />
+      ) : (
+        <p className="text-sm break-words">{value}</p>
+      )}
+
+      <p className="text-xs text-text-tertiary">
+        {revision.editedBy}
+        {revision.editedAt && ` · ${formatDate(revision.editedAt, 'long')}`}
+      </p>
+      {restored && (
+        <p className="text-xs text-text-tertiary">
+          Restored the {revisionLabels[restored.kind].toLowerCase()} value by {restored.editedBy}
+        </p>
+      )}
+      {revision.reason && <p className="text-xs text-text-secondary italic">&ldquo;{revision.reason}&rdquo;</p>}
+
+      {!isCurrent && onRevert && (
+        <Button size="sm" variant="outline" className="h-7 gap-1 text-xs" onClick={() => onRevert(revision)}>
+          <RotateCcw className="h-3 w-3" />
+          Revert to this
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// FieldHistoryPopover Component
+// Every value a field has held, with a diff against the one before
+// ============================================
+
+export interface FieldHistoryPopoverProps {
+  caseId: string
+  field: ExtractedField
+  onRevert?: (revision: FieldRevision) => void
+  className?: string
+}
+
+export function FieldHistoryPopover({ caseId, field, onRevert, className }: FieldHistoryPopoverProps) {
+  const [open, setOpen] = useState(false)
+  const { data } = useFieldHistory(caseId, field.id, { enabled: open })
+
+  // History recorded on the case is the most recent; the server's fills in
+  // for fields that were not changed here
+  const revisions = field.history?.length ? field.history : data?.revisions ?? getFieldRevisions(field)
+  const newestFirst = revisions.map((revision, index) => ({ revision, previous: revisions[index - 1] })).reverse()
+
+  const handleRevert = (revision: FieldRevision) => {
+    onRevert?.(revision)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn('h-7 px-2 gap-1', className)}
+          title="View history"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <History className="h-3.5 w-3.5" />
+          {revisions.length > 1 && <span className="text-xs">{revisions.length}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 border-b border-border-light">
+          <p className="text-sm font-semibold">{field.label} history</p>
+          <p className="text-xs text-text-tertiary">
+            {revisions.length} revision{revisions.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+        <div className="max-h-80 overflow-y-auto p-3 space-y-2">
+          {newestFirst.map(({ revision, previous }, index) => (
+            <RevisionRow
+              key={revision.id}
+              field={field}
+              revision={revision}
+              previous={previous}
+              revisions={revisions}
+              isCurrent={index === 0}
+              onRevert={onRevert && handleRevert}
+            />
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
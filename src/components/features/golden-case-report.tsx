@@ -0,0 +1,93 @@
+'use client'
+
+import React from 'react'
+import { cn } from '@/lib/utils'
+import { CheckCircle, XCircle } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import type { GoldenMismatchKind, GoldenRunReport } from '@/types'
+
+const kindLabel: Record<GoldenMismatchKind, string> = {
+  'rule-status': 'Rule status',
+  'missing-rule': 'Rule missing',
+  'decision-status': 'Decision',
+  'approved-amount': 'Amount',
+}
+
+// ============================================
+// GoldenMismatchTable Component
+// ============================================
+
+export interface GoldenMismatchTableProps {
+  report: GoldenRunReport
+  className?: string
+}
+
+export function GoldenMismatchTable({ report, className }: GoldenMismatchTableProps) {
+  if (report.mismatches.length === 0) {
+    return (
+      <div className={cn('flex items-center gap-2 p-4 text-sm text-success', className)}>
+        <CheckCircle className="h-4 w-4" />
+        All {report.total} golden cases match their expected outcomes
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('overflow-x-auto rounded-lg border border-border-light', className)}>
+      <table className="w-full text-sm">
+        <thead className="bg-bg-tertiary text-xs text-text-secondary">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">Case</th>
+            <th className="px-3 py-2 text-left font-medium">Type</th>
+            <th className="px-3 py-2 text-left font-medium">Check</th>
+            <th className="px-3 py-2 text-left font-medium">Expected</th>
+            <th className="px-3 py-2 text-left font-medium">Actual</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.mismatches.map((mismatch, index) => (
+            <tr
+              key={`${mismatch.goldenCaseId}-${mismatch.kind}-${mismatch.ruleId ?? index}`}
+              className="border-t border-border-light"
+            >
+              <td className="px-3 py-2">{mismatch.goldenCaseName}</td>
+              <td className="px-3 py-2">
+                <Badge variant="outline">{kindLabel[mismatch.kind]}</Badge>
+              </td>
+              <td className="px-3 py-2">{mismatch.subject}</td>
+              <td className="px-3 py-2 font-mono text-xs text-success">{mismatch.expected}</td>
+              <td className="px-3 py-2 font-mono text-xs text-error">{mismatch.actual}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+// ============================================
+// GoldenCaseOutcomeList Component
+// ============================================
+
+export interface GoldenCaseOutcomeListProps {
+  report: GoldenRunReport
+  className?: string
+}
+
+export function GoldenCaseOutcomeList({ report, className }: GoldenCaseOutcomeListProps) {
+  return (
+    <ul className={cn('space-y-1', className)}>
+      {report.outcomes.map((outcome) => (
+        <li key={outcome.goldenCaseId} className="flex items-center gap-2 text-sm">
+          {outcome.passed ? (
+            <CheckCircle className="h-4 w-4 text-success" />
+          ) : (
+            <XCircle className="h-4 w-4 text-error" />
+          )}
+          <span className="flex-1">{outcome.goldenCaseName}</span>
+          <span className="text-xs capitalize text-text-secondary">{outcome.decision.status}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,315 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+import {
+  AlertTriangle,
+  Crop,
+  Loader2,
+  RotateCcw,
+  RotateCw,
+  SquareDashed,
+  Undo2,
+  WandSparkles,
+} from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import {
+  MAX_DESKEW_DEGREES,
+  boundingRectangle,
+  correctImageFile,
+  moveCorner,
+  noCorrection,
+  renderCorrection,
+  suggestDeskewAngle,
+  type ImageCorrection,
+  type Point,
+  type QuarterTurn,
+} from '@/lib/image-correction'
+
+// ============================================
+// Image Correction Editor Component
+// Rotate, deskew, crop and straighten a photographed document before upload
+// ============================================
+
+type EditMode = 'crop' | 'perspective'
+
+// The original is shown within this box; the result preview is rendered at this long side
+const DISPLAY_WIDTH = 360
+const DISPLAY_HEIGHT = 440
+const PREVIEW_SIDE = 480
+const HANDLE_RADIUS = 7
+
+export interface ImageCorrectionEditorProps {
+  open: boolean
+  file: File
+  /** Why a correction is suggested, such as a failed skew check */
+  hint?: string
+  onOpenChange: (open: boolean) => void
+  /** Called with the corrected file; the original is left untouched */
+  onApply: (corrected: File) => void
+}
+
+export function ImageCorrectionEditor({ open, file, hint, onOpenChange, onApply }: ImageCorrectionEditorProps) {
+  const [loaded, setLoaded] = useState<{ file: File; bitmap: ImageBitmap } | null>(null)
+  const [correction, setCorrection] = useState<ImageCorrection | null>(null)
+  const [mode, setMode] = useState<EditMode>('crop')
+  const [dragging, setDragging] = useState<number | null>(null)
+  const [applying, setApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const originalRef = useRef<HTMLCanvasElement>(null)
+  const resultRef = useRef<HTMLCanvasElement>(null)
+
+  const bitmap = loaded?.file === file ? loaded.bitmap : null
+  const displayScale = bitmap ? Math.min(1, DISPLAY_WIDTH / bitmap.width, DISPLAY_HEIGHT / bitmap.height) : 1
+  const previewScale = bitmap ? Math.min(1, PREVIEW_SIDE / Math.max(bitmap.width, bitmap.height)) : 1
+
+  // The decoded image lives as long as the editor shows this file
+  useEffect(() => {
+    let cancelled = false
+    let decoded: ImageBitmap | null = null
+
+    createImageBitmap(file)
+      .then((result) => {
+        decoded = result
+        if (cancelled) {
+          result.close()
+          return
+        }
+        setLoaded({ file, bitmap: result })
+        setCorrection(noCorrection(result.width, result.height))
+        setMode('crop')
+        setError(null)
+      })
+      .catch(() => {
+        if (!cancelled) setError('This image could not be opened for editing')
+      })
+
+    return () => {
+      cancelled = true
+      decoded?.close()
+    }
+  }, [file])
+
+  useEffect(() => {
+    const canvas = originalRef.current
+    if (!bitmap || !canvas) return
+    canvas.width = Math.round(bitmap.width * displayScale)
+    canvas.height = Math.round(bitmap.height * displayScale)
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  }, [bitmap, displayScale])
+
+  useEffect(() => {
+    const canvas = resultRef.current
+    if (!bitmap || !correction || !canvas) return
+    const rendered = renderCorrection(bitmap, correction, previewScale)
+    canvas.width = rendered.width
+    canvas.height = rendered.height
+    canvas.getContext('2d')?.drawImage(rendered, 0, 0)
+  }, [bitmap, correction, previewScale])
+
+  const update = (change: Partial<ImageCorrection>) => {
+    setCorrection((current) => (current ? { ...current, ...change } : current))
+  }
+
+  // Pointer position in source pixels, kept inside the image
+  const toSourcePoint = (event: React.PointerEvent<SVGSVGElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const width = bitmap?.width ?? 0
+    const height = bitmap?.height ?? 0
+    return {
+      x: Math.round(Math.min(width, Math.max(0, ((event.clientX - rect.left) / rect.width) * width))),
+      y: Math.round(Math.min(height, Math.max(0, ((event.clientY - rect.top) / rect.height) * height))),
+    }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging === null || !correction) return
+    update({ corners: moveCorner(correction.corners, dragging, toSourcePoint(event), mode === 'crop') })
+  }
+
+  const changeMode = (next: EditMode) => {
+    setMode(next)
+    // Cropping works on a rectangle, so a perspective outline becomes the box around it
+    if (next === 'crop' && correction) update({ corners: boundingRectangle(correction.corners) })
+  }
+
+  const rotateBy = (quarterTurns: 1 | -1) => {
+    if (!correction) return
+    update({ rotation: ((correction.rotation + quarterTurns * 90 + 360) % 360) as QuarterTurn })
+  }
+
+  const autoDeskew = () => {
+    if (!bitmap || !correction) return
+    update({ deskewAngle: suggestDeskewAngle(bitmap, correction.corners, previewScale) })
+  }
+
+  const handleApply = async () => {
+    if (!correction) return
+    setApplying(true)
+    setError(null)
+    try {
+      onApply(await correctImageFile(file, correction))
+      onOpenChange(false)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const corners = correction?.corners ?? []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg">Correct Image</DialogTitle>
+          <DialogDescription>
+            {file.name} — the corrected image replaces the upload, and the original is kept as a prior version
+          </DialogDescription>
+        </DialogHeader>
+
+        {hint && (
+          <div className="flex items-start gap-2 rounded-lg border border-warning/30 bg-warning/5 p-3">
+            <AlertTriangle className="h-4 w-4 text-warning flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-text-secondary">{hint}</p>
+          </div>
+        )}
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-1 rounded-md border border-border-light p-0.5">
+            <Button
+              size="sm"
+              variant={mode === 'crop' ? 'default' : 'ghost'}
+              onClick={() => changeMode('crop')}
+              disabled={!correction}
+            >
+              <Crop className="h-4 w-4 mr-1" />
+              Crop
+            </Button>
+            <Button
+              size="sm"
+              variant={mode === 'perspective' ? 'default' : 'ghost'}
+              onClick={() => changeMode('perspective')}
+              disabled={!correction}
+            >
+              <SquareDashed className="h-4 w-4 mr-1" />
+              Perspective
+            </Button>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => rotateBy(-1)} disabled={!correction} aria-label="Rotate left">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => rotateBy(1)} disabled={!correction} aria-label="Rotate right">
+            <RotateCw className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={autoDeskew} disabled={!correction}>
+            <WandSparkles className="h-4 w-4 mr-1" />
+            Auto-deskew
+          </Button>
+          <label className="flex items-center gap-2 text-xs text-text-secondary">
+            Deskew
+            <input
+              type="range"
+              min={-MAX_DESKEW_DEGREES}
+              max={MAX_DESKEW_DEGREES}
+              step={0.25}
+              value={correction?.deskewAngle ?? 0}
+              onChange={(e) => update({ deskewAngle: Number(e.target.value) })}
+              disabled={!correction}
+              className="w-32 accent-primary"
+            />
+            <span className="w-12 tabular-nums">{(correction?.deskewAngle ?? 0).toFixed(2)}°</span>
+          </label>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="ml-auto"
+            onClick={() => bitmap && setCorrection(noCorrection(bitmap.width, bitmap.height))}
+            disabled={!correction}
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            Reset
+          </Button>
+        </div>
+
+        {/* Original and Result */}
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-text-secondary">
+              Original — drag the corners {mode === 'crop' ? 'to crop' : 'onto the page edges'}
+            </p>
+            <div className="flex min-h-[200px] items-center justify-center rounded-lg border border-border-light bg-bg-tertiary p-2">
+              {bitmap ? (
+                <div className="relative">
+                  <canvas ref={originalRef} className="block" />
+                  <svg
+                    viewBox={`0 0 ${bitmap.width} ${bitmap.height}`}
+                    className="absolute inset-0 h-full w-full touch-none"
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => setDragging(null)}
+                    onPointerCancel={() => setDragging(null)}
+                  >
+                    <polygon
+                      points={corners.map(({ x, y }) => `${x},${y}`).join(' ')}
+                      className="fill-primary/10 stroke-primary"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                    {corners.map((corner, index) => (
+                      <circle
+                        key={index}
+                        cx={corner.x}
+                        cy={corner.y}
+                        r={HANDLE_RADIUS / displayScale}
+                        className={cn('fill-white stroke-primary cursor-move', dragging === index && 'fill-primary')}
+                        strokeWidth={2}
+                        vectorEffect="non-scaling-stroke"
+                        onPointerDown={(e) => {
+                          e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId)
+                          setDragging(index)
+                        }}
+                      />
+                    ))}
+                  </svg>
+                </div>
+              ) : (
+                !error && <Loader2 className="h-6 w-6 animate-spin text-text-tertiary" />
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-text-secondary">Result</p>
+            <div className="flex min-h-[200px] items-center justify-center rounded-lg border border-border-light bg-bg-tertiary p-2">
+              {correction && bitmap && (
+                <canvas ref={resultRef} className="block max-h-[440px] max-w-full object-contain" />
+              )}
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-error">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!correction || applying}>
+            {applying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Apply Correction
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
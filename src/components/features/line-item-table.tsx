@@ -0,0 +1,251 @@
+'use client'
+
+import React, { useState } from 'react'
+import { cn, getConfidenceLevel } from '@/lib/utils'
+import { AlertTriangle, Check, Plus, Table2, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  checkLineItems,
+  formatCellValue,
+  lineItemCellId,
+  lineItemColumns,
+} from '@/lib/line-items'
+import type { ConfidenceThresholds, ExtractedField, ExtractedTable, LineItemColumn } from '@/types'
+
+// ============================================
+// LineItemCell Component
+// ============================================
+
+interface LineItemCellProps {
+  cellId: string
+  display: string
+  confidence: number
+  thresholds?: ConfidenceThresholds
+  numeric: boolean
+  hasIssue: boolean
+  isActive: boolean
+  onSave: (value: string) => string | null
+  onHover?: (cellId: string | null) => void
+  onClick?: (cellId: string) => void
+}
+
+function LineItemCell({
+  cellId,
+  display,
+  confidence,
+  thresholds,
+  numeric,
+  hasIssue,
+  isActive,
+  onSave,
+  onHover,
+  onClick,
+}: LineItemCellProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const level = getConfidenceLevel(confidence, thresholds)
+
+  const save = () => {
+    if (draft === null) return
+    if (draft === display) {
+      setDraft(null)
+      return
+    }
+    const saveError = onSave(draft)
+    setError(saveError)
+    if (!saveError) setDraft(null)
+  }
+
+  const cancel = () => {
+    setDraft(null)
+    setError(null)
+  }
+
+  return (
+    <td
+      className={cn(
+        'px-2 py-1.5 border-t border-border-light',
+        numeric && 'text-right tabular-nums',
+        level === 'low' && 'bg-red-50',
+        level === 'medium' && 'bg-amber-50',
+        hasIssue && 'text-error font-medium',
+        isActive && 'ring-2 ring-inset ring-primary'
+      )}
+      onMouseEnter={() => onHover?.(cellId)}
+      onMouseLeave={() => onHover?.(null)}
+    >
+      {draft !== null ? (
+        <div>
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={save}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') save()
+              if (e.key === 'Escape') cancel()
+            }}
+            className={cn(
+              'w-full rounded border bg-white px-1.5 py-0.5 text-sm outline-none focus:ring-2 focus:ring-primary/40',
+              numeric && 'text-right',
+              error ? 'border-error' : 'border-border-light'
+            )}
+            aria-invalid={!!error}
+          />
+          {error && <p className="mt-1 text-xs text-error text-left font-normal">{error}</p>}
+        </div>
+      ) : (
+        <button
+          type="button"
+          className={cn('w-full min-h-[1.5rem] hover:underline', numeric ? 'text-right' : 'text-left')}
+          onClick={() => {
+            onClick?.(cellId)
+            setDraft(display)
+          }}
+          title={`${confidence}% confidence · click to edit`}
+        >
+          {display || <span className="text-text-tertiary">—</span>}
+        </button>
+      )}
+    </td>
+  )
+}
+
+// ============================================
+// LineItemTable Component
+// ============================================
+
+export interface LineItemTableProps {
+  table: ExtractedTable
+  totalField?: ExtractedField // scalar field the amounts should add up to
+  thresholds?: ConfidenceThresholds // for shading low and medium confidence cells
+  activeCellId?: string | null
+  onCellSave: (rowId: string, column: LineItemColumn, value: string) => string | null
+  onAddRow?: () => void
+  onRemoveRow?: (rowId: string) => void
+  onCellHover?: (cellId: string | null) => void
+  onCellClick?: (cellId: string) => void
+  className?: string
+}
+
+/**
+ * Editable grid of a receipt's or invoice's line items, with the results of
+ * the row and total checks
+ */
+export function LineItemTable({
+  table,
+  totalField,
+  thresholds,
+  activeCellId,
+  onCellSave,
+  onAddRow,
+  onRemoveRow,
+  onCellHover,
+  onCellClick,
+  className,
+}: LineItemTableProps) {
+  const issues = checkLineItems(table, totalField)
+  const issueCells = new Set(
+    issues.flatMap((issue) => (issue.rowId && issue.column ? [lineItemCellId(issue.rowId, issue.column)] : []))
+  )
+
+  return (
+    <Card className={className}>
+      <CardHeader className="py-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Table2 className="h-4 w-4 text-primary" />
+            {table.label}
+          </CardTitle>
+          {issues.length > 0 ? (
+            <Badge variant="outline" className="text-warning border-current gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {issues.length} issue{issues.length !== 1 ? 's' : ''}
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="text-success border-current gap-1">
+              <Check className="h-3 w-3" />
+              Totals match
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pb-4 space-y-3">
+        <div className="rounded-lg border border-border-light overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-bg-tertiary">
+              <tr>
+                {lineItemColumns.map(({ column, label, numeric }) => (
+                  <th
+                    key={column}
+                    className={cn('px-2 py-1.5 text-xs font-medium text-text-secondary', numeric ? 'text-right' : 'text-left')}
+                  >
+                    {label}
+                  </th>
+                ))}
+                {onRemoveRow && <th className="w-8" />}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row) => (
+                <tr key={row.id} className="group">
+                  {lineItemColumns.map(({ column, numeric }) => {
+                    const cellId = lineItemCellId(row.id, column)
+                    return (
+                      <LineItemCell
+                        key={column}
+                        cellId={cellId}
+                        display={formatCellValue(column, row.cells[column])}
+                        confidence={row.cells[column].confidence}
+                        thresholds={thresholds}
+                        numeric={numeric}
+                        hasIssue={issueCells.has(cellId)}
+                        isActive={activeCellId === cellId}
+                        onSave={(value) => onCellSave(row.id, column, value)}
+                        onHover={onCellHover}
+                        onClick={onCellClick}
+                      />
+                    )
+                  })}
+                  {onRemoveRow && (
+                    <td className="px-1 border-t border-border-light">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={() => onRemoveRow(row.id)}
+                        aria-label="Remove row"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {issues.length > 0 && (
+          <ul className="space-y-1">
+            {issues.map((issue) => (
+              <li key={issue.message} className="flex items-start gap-1.5 text-xs text-warning">
+                <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {onAddRow && (
+          <Button variant="outline" size="sm" className="gap-1.5" onClick={onAddRow}>
+            <Plus className="h-4 w-4" />
+            Add line item
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,56 @@
+'use client'
+
+import React from 'react'
+import { Document, Page } from 'react-pdf'
+import 'react-pdf/dist/Page/TextLayer.css'
+import { pdfjs } from '@/lib/pdf-worker'
+import { toTextRuns, type PageText } from '@/lib/pdf-text-search'
+
+export interface PdfPageProps {
+  url: string
+  pageNumber: number
+  width: number
+  onLoadSuccess?: (numPages: number) => void
+  onLoadError?: (message: string) => void
+  onTextLoaded?: (pages: PageText[]) => void
+}
+
+async function loadPageTexts(pdf: pdfjs.PDFDocumentProxy, width: number): Promise<PageText[]> {
+  return Promise.all(
+    Array.from({ length: pdf.numPages }, async (_, index) => {
+      const page = await pdf.getPage(index + 1)
+      const scale = width / page.getViewport({ scale: 1 }).width
+      const viewport = page.getViewport({ scale })
+      const content = await page.getTextContent()
+      return { page: index + 1, runs: toTextRuns(content, viewport.transform, scale) }
+    })
+  )
+}
+
+/**
+ * One page of a PDF with its text layer, rendered at a fixed width. The
+ * text of every page is read once on load so it can be searched.
+ * Client-only: pdf.js needs browser APIs.
+ */
+export function PdfPage({ url, pageNumber, width, onLoadSuccess, onLoadError, onTextLoaded }: PdfPageProps) {
+  const handleLoadSuccess = (pdf: pdfjs.PDFDocumentProxy) => {
+    onLoadSuccess?.(pdf.numPages)
+    if (onTextLoaded) {
+      loadPageTexts(pdf, width)
+        .then(onTextLoaded)
+        .catch(() => onTextLoaded([]))
+    }
+  }
+
+  return (
+    <Document
+      file={url}
+      onLoadSuccess={handleLoadSuccess}
+      onLoadError={(error) => onLoadError?.(error.message)}
+      loading={null}
+      error={null}
+    >
+      <Page pageNumber={pageNumber} width={width} renderAnnotationLayer={false} loading={null} />
+    </Document>
+  )
+}
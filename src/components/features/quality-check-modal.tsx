@@ -10,6 +10,7 @@ import {
   FileText,
   RotateCcw,
   Shield,
+  Crop,
 } from 'lucide-react'
 import {
   Dialog,
@@ -23,7 +24,8 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import type { DocumentQuality } from './quality-check-panel'
+import { CORRECTABLE_CHECK_IDS } from '@/lib/image-quality'
+import type { DocumentQuality } from '@/types'
 
 // ============================================
 // AI Explanation Component
@@ -103,6 +105,8 @@ export interface QualityGateModalProps {
   quality: DocumentQuality
   onOpenChange: (open: boolean) => void
   onReplace?: () => void
+  /** Offered when a failed check can be fixed by correcting the image */
+  onCorrect?: () => void
   onAcceptWithRisk?: () => void
   allowRiskAcceptance?: boolean
   userPermission?: boolean
@@ -113,12 +117,14 @@ export function QualityGateModal({
   quality,
   onOpenChange,
   onReplace,
+  onCorrect,
   onAcceptWithRisk,
   allowRiskAcceptance = false,
   userPermission = false,
 }: QualityGateModalProps) {
   const failedChecks = quality.checks.filter((c) => c.status === 'fail')
   const warningChecks = quality.checks.filter((c) => c.status === 'warning')
+  const canCorrect = failedChecks.some((c) => CORRECTABLE_CHECK_IDS.includes(c.id))
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -293,6 +299,12 @@ export function QualityGateModal({
                 <RotateCcw className="h-4 w-4 mr-2" />
                 Replace Document
               </Button>
+              {onCorrect && canCorrect && (
+                <Button variant="outline" className="border-border-medium" onClick={onCorrect}>
+                  <Crop className="h-4 w-4 mr-2" />
+                  Correct Image
+                </Button>
+              )}
               {allowRiskAcceptance && userPermission && (
                 <Button
                   variant="outline"
@@ -18,40 +18,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { ConfidenceMeter } from '@/components/ui/confidence-meter'
 import { ScrollArea } from '@/components/ui/scroll-area'
-
-// ============================================
-// Quality Check Types
-// ============================================
-
-export type CheckStatus = 'pass' | 'warning' | 'fail'
-
-export interface QualityCheck {
-  id: string
-  name: string
-  status: CheckStatus
-  score: number // 0-100
-  severity: 'low' | 'medium' | 'high'
-  details: string
-  recommendation?: string
-  affectedRegions?: Array<{
-    page: number
-    x: number
-    y: number
-    width: number
-    height: number
-  }>
-}
-
-export interface DocumentQuality {
-  documentId: string
-  fileName: string
-  thumbnail?: string
-  overallScore: number // 0-100
-  overallStatus: 'high' | 'medium' | 'fail'
-  checks: QualityCheck[]
-  processingTime: number // milliseconds
-  checkedAt: Date
-}
+import type { DocumentQuality, DocumentQualityCheck } from '@/types'
 
 // ============================================
 // Quality Score Badge Component
@@ -113,7 +80,7 @@ export function QualityScoreBadge({
 // ============================================
 
 export interface CheckItemProps {
-  check: QualityCheck
+  check: DocumentQualityCheck
   expanded?: boolean
   onToggle?: () => void
 }
@@ -242,7 +209,7 @@ export function CheckItem({ check, expanded = false, onToggle }: CheckItemProps)
 // Quality Check Panel Component
 // ============================================
 
-type AffectedRegion = NonNullable<QualityCheck['affectedRegions']>[number]
+type AffectedRegion = NonNullable<DocumentQualityCheck['affectedRegions']>[number]
 
 export interface QualityCheckPanelProps extends React.HTMLAttributes<HTMLDivElement> {
   quality: DocumentQuality
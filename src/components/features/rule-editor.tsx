@@ -0,0 +1,547 @@
+'use client'
+
+import React from 'react'
+import { cn, formatDate } from '@/lib/utils'
+import { Plus, Trash2, GitCommit, Lock, Pencil } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type {
+  RuleCategory,
+  RuleCondition,
+  RuleDefinition,
+  RuleOperand,
+  RuleOperator,
+  RuleOutcome,
+  RuleSetVersion,
+  RuleStatus,
+} from '@/types'
+
+// ============================================
+// Editor Configuration
+// ============================================
+
+export const RULE_CATEGORIES: RuleCategory[] = [
+  'Coverage Eligibility',
+  'Documentation Completeness',
+  'Amount Validation',
+  'Fraud Detection',
+  'Compliance Requirements',
+]
+
+const OPERATOR_LABELS: Record<RuleOperator, string> = {
+  equals: 'equals',
+  notEquals: 'does not equal',
+  greaterThan: '>',
+  greaterThanOrEqual: '≥',
+  lessThan: '<',
+  lessThanOrEqual: '≤',
+  in: 'is one of',
+  notIn: 'is not one of',
+  contains: 'contains',
+  containsAll: 'contains all of',
+  startsWith: 'starts with',
+  matches: 'matches pattern',
+  exists: 'is present',
+  notExists: 'is missing',
+  before: 'is before',
+  after: 'is after',
+  onOrBefore: 'is on or before',
+  onOrAfter: 'is on or after',
+}
+
+const LIST_OPERATORS: RuleOperator[] = ['in', 'notIn', 'containsAll']
+const NUMERIC_OPERATORS: RuleOperator[] = ['greaterThan', 'greaterThanOrEqual', 'lessThan', 'lessThanOrEqual']
+const VALUELESS_OPERATORS: RuleOperator[] = ['exists', 'notExists']
+
+const OUTCOME_STATUSES: RuleStatus[] = ['pass', 'fail', 'warning', 'skipped']
+
+// ============================================
+// Operand Helpers
+// ============================================
+
+function isFieldOperand(value: RuleOperand | undefined): value is { field: string; offsetDays?: number } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function operandToText(value: RuleOperand | undefined): string {
+  if (value === undefined || isFieldOperand(value)) return ''
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+function textToOperand(text: string, operator: RuleOperator): RuleOperand {
+  if (LIST_OPERATORS.includes(operator)) {
+    return text.split(',').map((item) => item.trim()).filter(Boolean)
+  }
+  if (NUMERIC_OPERATORS.includes(operator) && text.trim() !== '' && !Number.isNaN(Number(text))) {
+    return Number(text)
+  }
+  return text
+}
+
+export function createEmptyRule(category: RuleCategory = 'Coverage Eligibility'): RuleDefinition {
+  return {
+    id: `rule-${Date.now()}`,
+    name: 'New Rule',
+    category,
+    inputFields: [],
+    conditions: { match: 'all', conditions: [{ field: '', operator: 'exists' }] },
+    outcomes: {
+      pass: { status: 'pass', output: 'Condition met', reasoning: '' },
+      fail: { status: 'fail', output: 'Condition not met', reasoning: '' },
+    },
+    canOverride: false,
+  }
+}
+
+/**
+ * Input fields are every fact referenced by the rule's conditions
+ */
+function collectInputFields(rule: RuleDefinition): string[] {
+  const groups = [rule.conditions, ...(rule.applicability ? [rule.applicability] : [])]
+  const names = groups.flatMap((group) =>
+    group.conditions.flatMap((condition) =>
+      isFieldOperand(condition.value) ? [condition.field, condition.value.field] : [condition.field]
+    )
+  )
+  return Array.from(new Set(names.filter(Boolean)))
+}
+
+// ============================================
+// ConditionRow Component
+// ============================================
+
+interface ConditionRowProps {
+  condition: RuleCondition
+  readOnly: boolean
+  fieldListId: string
+  onChange: (condition: RuleCondition) => void
+  onRemove: () => void
+}
+
+function ConditionRow({ condition, readOnly, fieldListId, onChange, onRemove }: ConditionRowProps) {
+  const comparesField = isFieldOperand(condition.value)
+  const needsValue = !VALUELESS_OPERATORS.includes(condition.operator)
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        className="w-40 h-8"
+        placeholder="field"
+        list={fieldListId}
+        value={condition.field}
+        disabled={readOnly}
+        onChange={(e) => onChange({ ...condition, field: e.target.value })}
+      />
+      <Select
+        value={condition.operator}
+        disabled={readOnly}
+        onValueChange={(operator) => {
+          const next = operator as RuleOperator
+          onChange({
+            ...condition,
+            operator: next,
+            value: VALUELESS_OPERATORS.includes(next) ? undefined : condition.value,
+          })
+        }}
+      >
+        <SelectTrigger size="sm" className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(OPERATOR_LABELS) as RuleOperator[]).map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {OPERATOR_LABELS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {needsValue && (
+        <>
+          <Select
+            value={comparesField ? 'field' : 'value'}
+            disabled={readOnly}
+            onValueChange={(kind) =>
+              onChange({ ...condition, value: kind === 'field' ? { field: '' } : '' })
+            }
+          >
+            <SelectTrigger size="sm" className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="value">Value</SelectItem>
+              <SelectItem value="field">Field</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {isFieldOperand(condition.value) ? (
+            <>
+              <Input
+                className="w-40 h-8"
+                placeholder="field"
+                list={fieldListId}
+                value={condition.value.field}
+                disabled={readOnly}
+                onChange={(e) =>
+                  onChange({ ...condition, value: { ...(condition.value as { field: string }), field: e.target.value } })
+                }
+              />
+              <span className="text-xs text-text-tertiary">+</span>
+              <Input
+                className="w-16 h-8"
+                type="number"
+                value={condition.value.offsetDays ?? 0}
+                disabled={readOnly}
+                onChange={(e) =>
+                  onChange({
+                    ...condition,
+                    value: {
+                      ...(condition.value as { field: string }),
+                      offsetDays: Number(e.target.value) || undefined,
+                    },
+                  })
+                }
+              />
+              <span className="text-xs text-text-tertiary">days</span>
+            </>
+          ) : (
+            <Input
+              className="w-48 h-8"
+              placeholder={LIST_OPERATORS.includes(condition.operator) ? 'a, b, c' : 'value'}
+              value={operandToText(condition.value)}
+              disabled={readOnly}
+              onChange={(e) =>
+                onChange({ ...condition, value: textToOperand(e.target.value, condition.operator) })
+              }
+            />
+          )}
+        </>
+      )}
+
+      {!readOnly && (
+        <Button variant="ghost" size="icon-sm" onClick={onRemove} title="Remove condition">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// OutcomeEditor Component
+// ============================================
+
+interface OutcomeEditorProps {
+  label: string
+  outcome: RuleOutcome
+  readOnly: boolean
+  onChange: (outcome: RuleOutcome) => void
+}
+
+function OutcomeEditor({ label, outcome, readOnly, onChange }: OutcomeEditorProps) {
+  return (
+    <div className="space-y-2 p-3 rounded border border-border-light">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-medium text-text-secondary">{label}</p>
+        <Select
+          value={outcome.status}
+          disabled={readOnly}
+          onValueChange={(status) => onChange({ ...outcome, status: status as RuleStatus })}
+        >
+          <SelectTrigger size="sm" className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {OUTCOME_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {status}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Input
+        className="h-8"
+        placeholder="Short output"
+        value={outcome.output}
+        disabled={readOnly}
+        onChange={(e) => onChange({ ...outcome, output: e.target.value })}
+      />
+      <Textarea
+        placeholder="Reasoning - use {fieldName} to insert values"
+        value={outcome.reasoning}
+        disabled={readOnly}
+        onChange={(e) => onChange({ ...outcome, reasoning: e.target.value })}
+      />
+    </div>
+  )
+}
+
+// ============================================
+// RuleDefinitionEditor Component
+// ============================================
+
+export interface RuleDefinitionEditorProps {
+  rule: RuleDefinition
+  readOnly?: boolean
+  fieldNames?: string[]
+  onChange?: (rule: RuleDefinition) => void
+  onDelete?: () => void
+  className?: string
+}
+
+export function RuleDefinitionEditor({
+  rule,
+  readOnly = false,
+  fieldNames = [],
+  onChange,
+  onDelete,
+  className,
+}: RuleDefinitionEditorProps) {
+  const fieldListId = `rule-fields-${rule.id}`
+
+  const update = (updates: Partial<RuleDefinition>) => {
+    const next = { ...rule, ...updates }
+    onChange?.({ ...next, inputFields: collectInputFields(next) })
+  }
+
+  const updateCondition = (index: number, condition: RuleCondition) =>
+    update({
+      conditions: {
+        ...rule.conditions,
+        conditions: rule.conditions.conditions.map((c, i) => (i === index ? condition : c)),
+      },
+    })
+
+  return (
+    <Card className={cn(rule.enabled === false && 'opacity-60', className)}>
+      <CardContent className="p-4 space-y-4">
+        <datalist id={fieldListId}>
+          {fieldNames.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+
+        {/* Header */}
+        <div className="flex items-start gap-3">
+          <div className="flex-1 space-y-2">
+            <Input
+              className="font-medium"
+              value={rule.name}
+              disabled={readOnly}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+            <Input
+              className="h-8 text-xs"
+              placeholder="Description"
+              value={rule.description ?? ''}
+              disabled={readOnly}
+              onChange={(e) => update({ description: e.target.value })}
+            />
+          </div>
+          {!readOnly && onDelete && (
+            <Button variant="ghost" size="icon" onClick={onDelete} title="Delete rule">
+              <Trash2 className="h-4 w-4 text-error" />
+            </Button>
+          )}
+        </div>
+
+        {/* Metadata */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <Select
+            value={rule.category}
+            disabled={readOnly}
+            onValueChange={(category) => update({ category: category as RuleCategory })}
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_CATEGORIES.map((category) => (
+                <SelectItem key={category} value={category}>
+                  {category}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="h-8"
+            placeholder="Policy clause (e.g. Clause 4.2 - Pre-Existing Conditions)"
+            value={rule.clause ?? ''}
+            disabled={readOnly}
+            onChange={(e) => update({ clause: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="flex items-center gap-6">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={rule.canOverride}
+              disabled={readOnly}
+              onCheckedChange={(checked) => update({ canOverride: checked === true })}
+            />
+            Can be overridden
+          </label>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={rule.enabled !== false}
+              disabled={readOnly}
+              onCheckedChange={(checked) => update({ enabled: checked === true })}
+            />
+            Enabled
+          </label>
+        </div>
+
+        {/* Conditions */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <p className="text-xs font-medium text-text-secondary">Passes when</p>
+            <Select
+              value={rule.conditions.match}
+              disabled={readOnly}
+              onValueChange={(match) =>
+                update({ conditions: { ...rule.conditions, match: match as 'all' | 'any' } })
+              }
+            >
+              <SelectTrigger size="sm" className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">all</SelectItem>
+                <SelectItem value="any">any</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs font-medium text-text-secondary">of these conditions hold</p>
+          </div>
+
+          {rule.conditions.conditions.map((condition, index) => (
+            <ConditionRow
+              key={index}
+              condition={condition}
+              readOnly={readOnly}
+              fieldListId={fieldListId}
+              onChange={(next) => updateCondition(index, next)}
+              onRemove={() =>
+                update({
+                  conditions: {
+                    ...rule.conditions,
+                    conditions: rule.conditions.conditions.filter((_, i) => i !== index),
+                  },
+                })
+              }
+            />
+          ))}
+
+          {!readOnly && (
+            <Button
+              variant="outline"
+              size="xs"
+              onClick={() =>
+                update({
+                  conditions: {
+                    ...rule.conditions,
+                    conditions: [...rule.conditions.conditions, { field: '', operator: 'exists' }],
+                  },
+                })
+              }
+            >
+              <Plus className="h-3 w-3" />
+              Add Condition
+            </Button>
+          )}
+        </div>
+
+        {/* Outcomes */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <OutcomeEditor
+            label="When conditions hold"
+            outcome={rule.outcomes.pass}
+            readOnly={readOnly}
+            onChange={(pass) => update({ outcomes: { ...rule.outcomes, pass } })}
+          />
+          <OutcomeEditor
+            label="Otherwise"
+            outcome={rule.outcomes.fail}
+            readOnly={readOnly}
+            onChange={(fail) => update({ outcomes: { ...rule.outcomes, fail } })}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// ============================================
+// RuleSetVersionList Component
+// ============================================
+
+export interface RuleSetVersionListProps {
+  versions: RuleSetVersion[]
+  selectedId: string | null
+  effectiveId?: string
+  onSelect: (versionId: string) => void
+  className?: string
+}
+
+export function RuleSetVersionList({
+  versions,
+  selectedId,
+  effectiveId,
+  onSelect,
+  className,
+}: RuleSetVersionListProps) {
+  return (
+    <div className={cn('space-y-2', className)}>
+      {versions.map((version) => (
+        <button
+          key={version.id}
+          onClick={() => onSelect(version.id)}
+          className={cn(
+            'w-full p-3 rounded-lg border text-left transition-all hover:shadow-md',
+            selectedId === version.id ? 'border-primary bg-primary/5' : 'border-border-light'
+          )}
+        >
+          <div className="flex items-center gap-2">
+            {version.status === 'published' ? (
+              <Lock className="h-3.5 w-3.5 text-text-tertiary" />
+            ) : (
+              <Pencil className="h-3.5 w-3.5 text-primary" />
+            )}
+            <p className="text-sm font-medium">Version {version.version}</p>
+            {version.id === effectiveId && (
+              <Badge variant="outline" className="text-success border-current">
+                In force
+              </Badge>
+            )}
+            {version.status === 'draft' && (
+              <Badge variant="outline" className="text-primary border-current">
+                Draft
+              </Badge>
+            )}
+          </div>
+          <p className="text-xs text-text-secondary mt-1">
+            {version.rules.length} rules • effective {formatDate(version.effectiveFrom)}
+          </p>
+          {version.publishedAt && (
+            <p className="text-xs text-text-tertiary mt-0.5 flex items-center gap-1">
+              <GitCommit className="h-3 w-3" />
+              Published by {version.publishedBy}
+            </p>
+          )}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -17,19 +17,29 @@ import {
   Calendar,
   Clock,
   Loader2,
+  ShieldCheck,
+  Hourglass,
 } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
+import { Textarea } from '@/components/ui/textarea'
+import type {
+  RuleResult as CaseRuleResult,
+  RuleCategory as CaseRuleCategory,
+  RuleResultDiff,
+  RuleException,
+  RuleOverride,
+} from '@/types'
 
 // ============================================
 // Rules Engine Types
 // ============================================
 
 export type RuleStatus = 'pass' | 'fail' | 'warning' | 'skipped'
-export type RuleCategory = 'eligibility' | 'validation' | 'compliance' | 'calculation'
+export type RuleCategory = 'eligibility' | 'validation' | 'compliance' | 'calculation' | 'fraud'
 
 export interface RuleInput {
   field: string
@@ -49,6 +59,10 @@ export interface RuleResult {
   confidence: number
   evaluatedAt: Date
   isReplaying?: boolean
+  diff?: RuleResultDiff
+  canOverride?: boolean
+  override?: RuleOverride
+  pendingException?: RuleException
 }
 
 export interface RuleCategoryGroup {
@@ -87,6 +101,20 @@ export const categoryConfig: Record<
     color: 'text-green-600',
     label: 'Calculation',
   },
+  fraud: {
+    icon: <AlertTriangle className="h-4 w-4" />,
+    color: 'text-red-600',
+    label: 'Fraud Detection',
+  },
+}
+
+// Maps engine rule categories onto the display categories above
+export const caseCategoryMap: Record<CaseRuleCategory, RuleCategory> = {
+  'Coverage Eligibility': 'eligibility',
+  'Documentation Completeness': 'validation',
+  'Amount Validation': 'calculation',
+  'Fraud Detection': 'fraud',
+  'Compliance Requirements': 'compliance',
 }
 
 export const statusConfig: Record<
@@ -123,6 +151,112 @@ export const statusConfig: Record<
   },
 }
 
+// ============================================
+// Case Result Adapter
+// ============================================
+
+function humanizeFieldName(name: string): string {
+  const spaced = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1)
+}
+
+function formatInputValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'n/a'
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+/**
+ * Convert a rules engine result into the display model used by RuleCard.
+ * `labels` maps field names to their extracted field labels.
+ */
+export function toRuleViewModel(
+  result: CaseRuleResult,
+  labels: Record<string, string> = {},
+  diff?: RuleResultDiff,
+  pendingException?: RuleException
+): RuleResult {
+  return {
+    id: result.id,
+    name: result.name,
+    category: caseCategoryMap[result.category],
+    status: result.status,
+    inputs: Object.entries(result.inputFields).map(([field, value]) => ({
+      field,
+      value: formatInputValue(value),
+      displayName: labels[field] ?? humanizeFieldName(field),
+    })),
+    output: result.output ?? result.reasoning,
+    reasoning: result.reasoning,
+    policyClause: result.clause,
+    confidence: (result.confidence ?? 100) / 100,
+    evaluatedAt: result.evaluatedAt ? new Date(result.evaluatedAt) : new Date(),
+    diff,
+    canOverride: result.canOverride,
+    override: result.override,
+    pendingException,
+  }
+}
+
+// ============================================
+// RuleDiff Component
+// ============================================
+
+export interface RuleDiffProps {
+  diff: RuleResultDiff
+  title?: string
+  className?: string
+}
+
+export function RuleDiff({ diff, title = 'Changes Since Last Evaluation', className }: RuleDiffProps) {
+  return (
+    <div className={cn('p-3 rounded bg-primary/5 border border-primary/20 space-y-2', className)}>
+      <div className="flex items-center gap-2">
+        <RefreshCw className="h-4 w-4 text-primary" />
+        <p className="text-sm font-medium">{title}</p>
+      </div>
+
+      {diff.statusChanged && (
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-text-tertiary">Status:</span>
+          {diff.previousStatus ? (
+            <span className={cn('font-medium line-through', statusConfig[diff.previousStatus].color)}>
+              {statusConfig[diff.previousStatus].label}
+            </span>
+          ) : (
+            <span className="text-text-tertiary">Not evaluated</span>
+          )}
+          <ChevronRight className="h-3 w-3 text-text-tertiary" />
+          <span className={cn('font-medium', statusConfig[diff.currentStatus].color)}>
+            {statusConfig[diff.currentStatus].label}
+          </span>
+        </div>
+      )}
+
+      {diff.changedInputs.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-text-tertiary">Inputs:</p>
+          {diff.changedInputs.map((change) => (
+            <div key={change.field} className="flex items-center gap-2 text-xs">
+              <span className="text-text-secondary">{humanizeFieldName(change.field)}</span>
+              <span className="line-through text-text-tertiary">{formatInputValue(change.before)}</span>
+              <ChevronRight className="h-3 w-3 text-text-tertiary" />
+              <span className="font-medium">{formatInputValue(change.after)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diff.reasoningChanged && diff.previousReasoning && (
+        <div className="text-xs">
+          <p className="text-text-tertiary mb-1">Previous reasoning:</p>
+          <p className="text-text-secondary line-through">{diff.previousReasoning}</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
 // ============================================
 // RuleCard Component
 // ============================================
@@ -132,6 +266,8 @@ export interface RuleCardProps {
   isExpanded?: boolean
   onToggle?: () => void
   onViewDetails?: () => void
+  onReplay?: () => Promise<void>
+  onRequestException?: (reason: string) => void
   className?: string
 }
 
@@ -140,10 +276,27 @@ export function RuleCard({
   isExpanded = false,
   onToggle,
   onViewDetails,
+  onReplay,
+  onRequestException,
   className,
 }: RuleCardProps) {
+  const [isRequesting, setIsRequesting] = useState(false)
+  const [reason, setReason] = useState('')
   const config = statusConfig[rule.status]
   const categoryConf = categoryConfig[rule.category]
+  const canRequestException =
+    !!onRequestException &&
+    rule.status === 'fail' &&
+    !!rule.canOverride &&
+    !rule.override &&
+    !rule.pendingException
+
+  const handleSubmitException = () => {
+    if (!reason.trim()) return
+    onRequestException?.(reason.trim())
+    setReason('')
+    setIsRequesting(false)
+  }
 
   return (
     <Card
@@ -186,6 +339,21 @@ export function RuleCard({
               >
                 {categoryConf.label}
               </Badge>
+              {rule.diff && (
+                <Badge variant="outline" className="text-primary border-current flex-shrink-0">
+                  Changed
+                </Badge>
+              )}
+              {rule.override && (
+                <Badge variant="outline" className="text-primary border-current flex-shrink-0">
+                  Overridden
+                </Badge>
+              )}
+              {rule.pendingException && (
+                <Badge variant="outline" className="text-warning border-current flex-shrink-0">
+                  Exception Pending
+                </Badge>
+              )}
             </div>
 
             {/* Output */}
@@ -218,6 +386,36 @@ export function RuleCard({
         {/* Expanded Details */}
         {isExpanded && (
           <div className="mt-4 space-y-3 pl-7">
+            {/* Replay Diff */}
+            {rule.diff && <RuleDiff diff={rule.diff} />}
+
+            {/* Exception */}
+            {rule.override && (
+              <div className="p-3 rounded bg-primary/5 border border-primary/20 space-y-1">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="h-4 w-4 text-primary" />
+                  <p className="text-sm font-medium">Exception Approved</p>
+                </div>
+                <p className="text-xs text-text-secondary">{rule.override.reason}</p>
+                <p className="text-xs text-text-tertiary" suppressHydrationWarning>
+                  Requested by {rule.override.requestedBy} • Approved by {rule.override.approvedBy} on{' '}
+                  {new Date(rule.override.approvedAt).toLocaleString('en-US')}
+                </p>
+              </div>
+            )}
+            {rule.pendingException && (
+              <div className="p-3 rounded bg-warning/5 border border-warning/20 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Hourglass className="h-4 w-4 text-warning" />
+                  <p className="text-sm font-medium">Awaiting Manager Review</p>
+                </div>
+                <p className="text-xs text-text-secondary">{rule.pendingException.reason}</p>
+                <p className="text-xs text-text-tertiary">
+                  Requested by {rule.pendingException.requestedBy}
+                </p>
+              </div>
+            )}
+
             {/* Reasoning */}
             <div className="p-3 rounded bg-bg-tertiary border border-border-light">
               <div className="flex items-center gap-2 mb-2">
@@ -248,6 +446,42 @@ export function RuleCard({
                 {rule.evaluatedAt.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
               </span>
             </div>
+
+            {isRequesting && (
+              <div className="space-y-2">
+                <Textarea
+                  placeholder="Why should this rule be overridden?"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  autoFocus
+                />
+                <div className="flex items-center gap-2">
+                  <Button size="sm" onClick={handleSubmitException} disabled={!reason.trim()}>
+                    Submit Request
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setIsRequesting(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {(onReplay || (canRequestException && !isRequesting)) && (
+              <div className="flex items-center gap-2">
+                {onReplay && (
+                  <Button variant="outline" size="sm" onClick={onReplay}>
+                    <RefreshCw className="h-3 w-3 mr-1" />
+                    Replay Rule
+                  </Button>
+                )}
+                {canRequestException && !isRequesting && (
+                  <Button variant="outline" size="sm" onClick={() => setIsRequesting(true)}>
+                    <ShieldCheck className="h-3 w-3 mr-1" />
+                    Request Exception
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
         )}
       </CardContent>
@@ -264,6 +498,8 @@ export interface RuleCategoryGroupProps {
   onRuleToggle?: (ruleId: string) => void
   expandedRules?: Set<string>
   onReplayCategory?: (category: RuleCategory) => Promise<void>
+  onReplayRule?: (ruleId: string) => Promise<void>
+  onRequestException?: (ruleId: string, reason: string) => void
   className?: string
 }
 
@@ -272,6 +508,8 @@ export function RuleCategoryGroup({
   onRuleToggle,
   expandedRules = new Set(),
   onReplayCategory,
+  onReplayRule,
+  onRequestException,
   className,
 }: RuleCategoryGroupProps) {
   const [isReplaying, setIsReplaying] = useState(false)
@@ -346,6 +584,10 @@ export function RuleCategoryGroup({
               rule={rule}
               isExpanded={expandedRules.has(rule.id)}
               onToggle={() => onRuleToggle?.(rule.id)}
+              onReplay={onReplayRule ? () => onReplayRule(rule.id) : undefined}
+              onRequestException={
+                onRequestException ? (reason) => onRequestException(rule.id, reason) : undefined
+              }
             />
           ))}
         </div>
@@ -363,6 +605,7 @@ export interface RulesEnginePanelProps extends React.HTMLAttributes<HTMLDivEleme
   onReplayAll?: () => Promise<void>
   onReplayCategory?: (category: RuleCategory) => Promise<void>
   onReplayRule?: (ruleId: string) => Promise<void>
+  onRequestException?: (ruleId: string, reason: string) => void
   className?: string
 }
 
@@ -371,11 +614,12 @@ export function RulesEnginePanel({
   onReplayAll,
   onReplayCategory,
   onReplayRule,
+  onRequestException,
   className,
   ...props
 }: RulesEnginePanelProps) {
   const [expandedCategories, setExpandedCategories] = useState<Set<RuleCategory>>(
-    new Set(['eligibility', 'validation', 'compliance', 'calculation'])
+    new Set(['eligibility', 'validation', 'compliance', 'calculation', 'fraud'])
   )
   const [expandedRules, setExpandedRules] = useState<Set<string>>(new Set())
 
@@ -480,6 +724,8 @@ export function RulesEnginePanel({
             onRuleToggle={toggleRule}
             expandedRules={expandedRules}
             onReplayCategory={onReplayCategory}
+            onReplayRule={onReplayRule}
+            onRequestException={onRequestException}
           />
         ))}
       </div>
@@ -0,0 +1,167 @@
+'use client'
+
+import React from 'react'
+import { cn, formatCurrency } from '@/lib/utils'
+import { FlaskConical, RotateCcw, X, ArrowRight } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { Decision, ExtractedField } from '@/types'
+
+// ============================================
+// Helpers
+// ============================================
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+function inputTypeFor(value: unknown): 'number' | 'date' | 'text' {
+  if (typeof value === 'number') return 'number'
+  if (typeof value === 'string' && ISO_DATE.test(value)) return 'date'
+  return 'text'
+}
+
+function parseInput(raw: string, original: unknown): unknown {
+  if (typeof original === 'number') {
+    const parsed = Number(raw)
+    return raw.trim() === '' || Number.isNaN(parsed) ? raw : parsed
+  }
+  return raw
+}
+
+const decisionColor: Record<Decision['status'], string> = {
+  approved: 'text-success',
+  partial: 'text-warning',
+  rejected: 'text-error',
+}
+
+// ============================================
+// SimulatedDecision Component
+// ============================================
+
+interface SimulatedDecisionProps {
+  baseline: Decision
+  simulated: Decision
+}
+
+function SimulatedDecision({ baseline, simulated }: SimulatedDecisionProps) {
+  const delta = simulated.approvedAmount - baseline.approvedAmount
+
+  return (
+    <div className="p-3 rounded-lg bg-bg-tertiary border border-border-light space-y-2">
+      <p className="text-xs font-medium text-text-secondary">Resulting Decision</p>
+      <div className="flex items-center gap-2 text-sm">
+        <span className={cn('font-medium capitalize', decisionColor[baseline.status])}>
+          {baseline.status}
+        </span>
+        <span className="text-text-tertiary">{formatCurrency(baseline.approvedAmount)}</span>
+        <ArrowRight className="h-3 w-3 text-text-tertiary" />
+        <span className={cn('font-medium capitalize', decisionColor[simulated.status])}>
+          {simulated.status}
+        </span>
+        <span className="font-semibold">{formatCurrency(simulated.approvedAmount)}</span>
+      </div>
+      {delta !== 0 && (
+        <p className={cn('text-xs font-medium', delta > 0 ? 'text-success' : 'text-error')}>
+          {delta > 0 ? '+' : ''}
+          {formatCurrency(delta)} payout change
+        </p>
+      )}
+      {simulated.deductionReason && (
+        <p className="text-xs text-text-secondary">{simulated.deductionReason}</p>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// WhatIfPanel Component
+// ============================================
+
+export interface WhatIfPanelProps {
+  fields: ExtractedField[]
+  overrides: Record<string, unknown>
+  baselineDecision: Decision
+  decision: Decision
+  onOverride: (fieldName: string, value: unknown) => void
+  onClearOverride: (fieldName: string) => void
+  onReset: () => void
+  className?: string
+}
+
+export function WhatIfPanel({
+  fields,
+  overrides,
+  baselineDecision,
+  decision,
+  onOverride,
+  onClearOverride,
+  onReset,
+  className,
+}: WhatIfPanelProps) {
+  const overrideCount = Object.keys(overrides).length
+
+  return (
+    <Card className={cn('border-primary/30 bg-primary/5', className)}>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5 text-primary" />
+            <div>
+              <h3 className="text-sm font-semibold">What-If Simulation</h3>
+              <p className="text-xs text-text-secondary">
+                Changes here are not saved to the case or timeline
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={onReset} disabled={overrideCount === 0}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {fields.map((field) => {
+            const isOverridden = field.name in overrides
+            const value = isOverridden ? overrides[field.name] : field.value
+
+            return (
+              <div key={field.id} className="grid grid-cols-[140px_1fr_auto] items-center gap-2">
+                <label htmlFor={`what-if-${field.id}`} className="text-xs text-text-secondary truncate">
+                  {field.label}
+                </label>
+                <Input
+                  id={`what-if-${field.id}`}
+                  className={cn('h-8', isOverridden && 'border-primary bg-white')}
+                  type={inputTypeFor(field.value)}
+                  value={value === null || value === undefined ? '' : String(value)}
+                  onChange={(e) => onOverride(field.name, parseInput(e.target.value, field.value))}
+                />
+                {isOverridden ? (
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => onClearOverride(field.name)}
+                    title={`Restore ${String(field.value)}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                ) : (
+                  <span className="w-8" />
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {overrideCount > 0 && (
+          <Badge variant="outline" className="text-primary border-current">
+            {overrideCount} field{overrideCount !== 1 ? 's' : ''} overridden
+          </Badge>
+        )}
+
+        <SimulatedDecision baseline={baselineDecision} simulated={decision} />
+      </CardContent>
+    </Card>
+  )
+}
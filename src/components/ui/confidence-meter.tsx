@@ -2,7 +2,7 @@
 
 import React from 'react'
 import { cva, type VariantProps } from 'class-variance-authority'
-import { cn } from '@/lib/utils'
+import { cn, getConfidenceLevel } from '@/lib/utils'
 
 // ============================================
 // Confidence Meter Component
@@ -56,21 +56,16 @@ export interface ConfidenceMeterProps
   variant?: 'circular' | 'linear'
 }
 
-function getConfidenceLevel(score: number): 'high' | 'medium' | 'low' {
-  if (score >= 90) return 'high'
-  if (score >= 70) return 'medium'
-  return 'low'
-}
-
 // Circular Progress Component
 function CircularProgress({
   value,
+  level: levelProp,
   size = 'md',
   showLabel = true,
   className,
   ...props
 }: ConfidenceMeterProps) {
-  const level = getConfidenceLevel(value)
+  const level = levelProp ?? getConfidenceLevel(value)
   const radius = size === 'sm' ? 20 : size === 'md' ? 26 : 34
   const circumference = 2 * Math.PI * radius
   const offset = circumference - (value / 100) * circumference
@@ -144,12 +139,13 @@ function CircularProgress({
 // Linear Progress Component
 function LinearProgress({
   value,
+  level: levelProp,
   size = 'md',
   showLabel = true,
   className,
   ...props
 }: ConfidenceMeterProps) {
-  const level = getConfidenceLevel(value)
+  const level = levelProp ?? getConfidenceLevel(value)
 
   return (
     <div className={cn('flex items-center gap-3', className)} {...props}>
@@ -180,6 +176,10 @@ function LinearProgress({
   )
 }
 
+/**
+ * `level` overrides the level derived from `value` with the default
+ * thresholds, for scores judged against configured ones
+ */
 function ConfidenceMeter({ variant = 'circular', ...props }: ConfidenceMeterProps) {
   if (variant === 'linear') {
     return <LinearProgress {...props} />
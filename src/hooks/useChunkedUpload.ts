@@ -0,0 +1,66 @@
+// ============================================
+// Chunked Upload Hook
+// Uploads files in chunks and keeps their sessions so they can resume
+// ============================================
+
+'use client'
+
+import { useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useAppStore } from '@/lib/store'
+import { queryKeys } from '@/lib/react-query'
+import { uploadFileInChunks, uploadFileKey } from '@/lib/chunked-upload'
+import type { Document } from '@/types'
+
+export interface ChunkedUploadControls {
+  caseId?: string | null
+  contentHash?: string
+  signal?: AbortSignal
+  onProgress?: (progress: number) => void
+}
+
+/**
+ * Upload one file for a case. A file that was interrupted before, in this
+ * page or one since reloaded, continues from its saved session if that was
+ * for the same case; otherwise it starts over in a new one.
+ */
+export function useChunkedUpload() {
+  const queryClient = useQueryClient()
+  const saveUploadSession = useAppStore((state) => state.saveUploadSession)
+  const removeUploadSession = useAppStore((state) => state.removeUploadSession)
+
+  return useCallback(
+    async (file: File, { caseId, contentHash, signal, onProgress }: ChunkedUploadControls = {}): Promise<Document> => {
+      const fileKey = uploadFileKey(file)
+      const saved = useAppStore.getState().uploadSessions.byFileKey[fileKey]
+      const document = await uploadFileInChunks(file, {
+        caseId: caseId ?? undefined,
+        contentHash,
+        session: saved && saved.caseId === (caseId ?? undefined) ? saved : undefined,
+        signal,
+        // A file removed or replaced while its upload stops is not saved again
+        onSessionChange: (session) => {
+          if (!signal?.aborted) saveUploadSession(session)
+        },
+        onProgress,
+      })
+
+      removeUploadSession(fileKey)
+      if (caseId) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.documents.list(caseId) })
+        queryClient.invalidateQueries({ queryKey: queryKeys.cases.detail(caseId) })
+      }
+      return document
+    },
+    [queryClient, saveUploadSession, removeUploadSession]
+  )
+}
+
+/**
+ * Forget the saved session of a file that was removed or replaced, so it is
+ * not kept for resuming
+ */
+export function useDiscardChunkedUpload() {
+  const removeUploadSession = useAppStore((state) => state.removeUploadSession)
+  return useCallback((file: File) => removeUploadSession(uploadFileKey(file)), [removeUploadSession])
+}
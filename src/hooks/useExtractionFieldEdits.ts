@@ -0,0 +1,407 @@
+// ============================================
+// Extraction Field Edits Hook
+// Saves reviewer changes to a case's extracted fields and documents
+// ============================================
+
+'use client'
+
+import { useCallback } from 'react'
+import { toast } from 'sonner'
+import { useAppStore, useConfidenceThresholds } from '@/lib/store'
+import { useUpdateField } from '@/lib/api-hooks'
+import {
+  acceptField,
+  applyFieldEdit,
+  applyReextraction,
+  deriveFieldStatus,
+  flagField,
+  revertFieldToRevision,
+} from '@/lib/field-types'
+import { resolveFieldConflict } from '@/lib/field-consistency'
+import { createExtractionEdit } from '@/lib/extraction-edits'
+import { addLineItemRow, editTableCell, lineItemColumns, removeLineItemRow } from '@/lib/line-items'
+import { generateId } from '@/lib/utils'
+import type {
+  Case,
+  Document,
+  ExtractedField,
+  ExtractedTable,
+  ExtractionEdit,
+  ExtractionEditKind,
+  FieldReextractionResponse,
+  FieldRevision,
+  LineItemColumn,
+  TimelineEvent,
+} from '@/types'
+
+interface ExtractionChange {
+  kind: ExtractionEditKind
+  label: string // shown in undo/redo tooltips
+  fields?: Array<{ before: ExtractedField; after: ExtractedField }>
+  documents?: Array<{ before: Document; after: Document }>
+  tables?: Array<{ before: ExtractedTable; after: ExtractedTable }>
+  event: Pick<TimelineEvent, 'title' | 'detail' | 'metadata'>
+}
+
+type FieldChange = { before: ExtractedField; after: ExtractedField }
+
+/**
+ * Save, revert, re-extract, accept, flag, conflict-resolution, reclassification and
+ * line-item actions for `caseData`. Each change is recorded on the case timeline and in the
+ * case's undo history; field changes are also kept in the field's history.
+ *
+ * Edited, reverted, accepted and resolved values are saved to the server after they are
+ * shown. A save that fails is rolled back and leaves the undo history.
+ */
+export function useExtractionFieldEdits(caseData: Case | null) {
+  const userName = useAppStore((state) => state.session.user?.name) ?? 'Unknown'
+  const thresholdsFor = useConfidenceThresholds(caseData?.type)
+  const { mutate: updateField } = useUpdateField()
+
+  const commit = useCallback(
+    (change: ExtractionChange): ExtractionEdit | null => {
+      if (!caseData) return null
+      const fields = change.fields ?? []
+      const documents = change.documents ?? []
+      const tables = change.tables ?? []
+      const replace = <T extends { id: string }>(items: T[], changes: Array<{ after: T }>) =>
+        items.map((item) => changes.find((c) => c.after.id === item.id)?.after ?? item)
+
+      const updates = {
+        extractedData: {
+          ...caseData.extractedData,
+          fields: replace(caseData.extractedData.fields, fields),
+          ...(caseData.extractedData.tables && {
+            tables: replace(caseData.extractedData.tables, tables),
+          }),
+        },
+        documents: replace(caseData.documents, documents),
+        timeline: [
+          ...caseData.timeline,
+          {
+            id: generateId('timeline'),
+            type: 'field-update' as const,
+            date: new Date().toISOString(),
+            title: change.event.title,
+            detail: change.event.detail,
+            link: '/extraction',
+            metadata: { actor: userName, ...change.event.metadata },
+          },
+        ],
+      }
+
+      // Cases opened from demo data are not in the store yet
+      const { cases, updateCase, addCase, recordExtractionEdit } = useAppStore.getState()
+      if (cases.byId[caseData.id]) {
+        updateCase(caseData.id, updates)
+      } else {
+        addCase({ ...caseData, ...updates })
+      }
+      const edit = createExtractionEdit(caseData.id, change.kind, change.label, { fields, documents, tables })
+      recordExtractionEdit(edit)
+      return edit
+    },
+    [caseData, userName]
+  )
+
+  /**
+   * Save the new values of an edit's fields. When a save fails the edit can no
+   * longer be undone or redone, and the field gets its previous value back
+   * unless it has been undone or changed again since.
+   */
+  const saveFields = useCallback(
+    (edit: ExtractionEdit | null, fields: FieldChange[]) => {
+      if (!edit) return
+      for (const { before, after } of fields) {
+        updateField(
+          { caseId: edit.caseId, fieldId: after.id, value: after.value },
+          {
+            onError: (error) => {
+              const { cases, updateCase, discardExtractionEdit } = useAppStore.getState()
+              discardExtractionEdit(edit.caseId, edit.id)
+              const latest = cases.byId[edit.caseId]
+              if (latest?.extractedData.fields.some((f) => f === after)) {
+                updateCase(edit.caseId, {
+                  extractedData: {
+                    ...latest.extractedData,
+                    fields: latest.extractedData.fields.map((f) => (f === after ? before : f)),
+                  },
+                })
+              }
+              toast.error(`Could not save ${after.label}`, {
+                description: error.message,
+              })
+            },
+          }
+        )
+      }
+    },
+    [updateField]
+  )
+
+  const findField = useCallback(
+    (fieldId: string) => caseData?.extractedData.fields.find((f) => f.id === fieldId),
+    [caseData]
+  )
+
+  /**
+   * Validate and save a new value; returns the validation error, if any
+   */
+  const saveField = useCallback(
+    (fieldId: string, value: unknown, reason?: string): string | null => {
+      const field = findField(fieldId)
+      if (!field) return 'Field not found'
+
+      const edit = applyFieldEdit(field, value, userName, reason)
+      if (!edit.field) return edit.error
+
+      const fields = [{ before: field, after: edit.field }]
+      const recorded = commit({
+        kind: 'field-edit',
+        label: `Edit ${field.label}`,
+        fields,
+        event: {
+          title: `${field.label} Updated`,
+          detail: `Updated from ${String(field.value)} to ${String(edit.field.value)}`,
+          metadata: { fieldId, previousValue: field.value, value: edit.field.value, ...(reason && { reason }) },
+        },
+      })
+      saveFields(recorded, fields)
+      return null
+    },
+    [findField, commit, saveFields, userName]
+  )
+
+  const revertField = useCallback(
+    (fieldId: string, revision: FieldRevision, reason?: string) => {
+      const field = findField(fieldId)
+      if (!field) return
+
+      const reverted = revertFieldToRevision(field, revision, userName, reason)
+      const fields = [{ before: field, after: reverted }]
+      const recorded = commit({
+        kind: 'field-revert',
+        label: `Revert ${field.label}`,
+        fields,
+        event: {
+          title: `${field.label} Reverted`,
+          detail: `Restored ${String(revision.value)} from ${revision.editedBy}'s revision`,
+          metadata: { fieldId, previousValue: field.value, value: reverted.value, revisionId: revision.id, ...(reason && { reason }) },
+        },
+      })
+      saveFields(recorded, fields)
+    },
+    [findField, commit, saveFields, userName]
+  )
+
+  /**
+   * Use a value read again from the document, e.g. from a region the reviewer drew
+   */
+  const applyFieldReextraction = useCallback(
+    (fieldId: string, result: FieldReextractionResponse) => {
+      const field = findField(fieldId)
+      if (!field) return
+
+      const reextracted = applyReextraction(field, result, userName, thresholdsFor(field.name))
+      commit({
+        kind: 're-extraction',
+        label: `Re-extract ${field.label}`,
+        fields: [{ before: field, after: reextracted }],
+        event: {
+          title: `${field.label} Re-extracted`,
+          detail: `Read ${String(reextracted.value)} from page ${result.source.page} (${result.confidence}% confidence)`,
+          metadata: { fieldId, previousValue: field.value, value: reextracted.value, source: result.source },
+        },
+      })
+    },
+    [findField, commit, userName, thresholdsFor]
+  )
+
+  /**
+   * Accept the extracted values of several fields at once. Fields whose
+   * value does not validate are left for review.
+   */
+  const acceptFields = useCallback(
+    (fieldIds: string[]): number => {
+      const fields = fieldIds
+        .map((id) => findField(id))
+        .filter(
+          (field): field is ExtractedField =>
+            !!field && deriveFieldStatus(field, thresholdsFor(field.name)) !== 'auto-accepted'
+        )
+        .map((field) => ({ before: field, after: acceptField(field, userName) }))
+        .filter((change): change is FieldChange => !!change.after)
+      if (fields.length === 0) return 0
+
+      const recorded = commit({
+        kind: 'bulk-accept',
+        label: `Accept ${fields.length} field${fields.length !== 1 ? 's' : ''}`,
+        fields,
+        event: {
+          title: 'Fields Accepted',
+          detail: fields.map(({ before }) => before.label).join(', '),
+          metadata: { fieldIds: fields.map(({ before }) => before.id) },
+        },
+      })
+      saveFields(recorded, fields)
+      return fields.length
+    },
+    [findField, commit, saveFields, userName, thresholdsFor]
+  )
+
+  /**
+   * Flag a field for a second look, or clear its flag
+   */
+  const toggleFlag = useCallback(
+    (fieldId: string, note?: string) => {
+      const field = findField(fieldId)
+      if (!field) return
+
+      const updated = field.flag ? { ...field, flag: undefined } : flagField(field, userName, note)
+      commit({
+        kind: 'flag',
+        label: `${field.flag ? 'Unflag' : 'Flag'} ${field.label}`,
+        fields: [{ before: field, after: updated }],
+        event: {
+          title: field.flag ? 'Field Flag Cleared' : 'Field Flagged',
+          detail: note ? `${field.label}: ${note}` : field.label,
+          metadata: { fieldId },
+        },
+      })
+    },
+    [findField, commit, userName]
+  )
+
+  const resolveConflict = useCallback(
+    (fieldId: string, documentId: string) => {
+      const field = findField(fieldId)
+      if (!field || !caseData) return
+
+      const resolved = resolveFieldConflict(field, documentId, userName)
+      const document = caseData.documents.find((doc) => doc.id === documentId)
+      const fields = [{ before: field, after: resolved }]
+      const recorded = commit({
+        kind: 'conflict-resolution',
+        label: `Resolve ${field.label}`,
+        fields,
+        event: {
+          title: 'Field Conflict Resolved',
+          detail: `${field.label} set to ${String(resolved.value)} from ${document?.name ?? documentId}`,
+          metadata: { fieldId, documentId, previousValue: field.value, value: resolved.value },
+        },
+      })
+      saveFields(recorded, fields)
+    },
+    [findField, commit, saveFields, caseData, userName]
+  )
+
+  const reclassifyDocument = useCallback(
+    (documentId: string, type: string) => {
+      const document = caseData?.documents.find((doc) => doc.id === documentId)
+      if (!document || document.classification.type === type) return
+
+      const reclassified: Document = {
+        ...document,
+        classification: { ...document.classification, type, manuallyOverridden: true },
+      }
+      commit({
+        kind: 'classification',
+        label: `Reclassify ${document.name}`,
+        documents: [{ before: document, after: reclassified }],
+        event: {
+          title: 'Document Reclassified',
+          detail: `${document.name} changed from ${document.classification.type} to ${type}`,
+          metadata: { documentId, previousType: document.classification.type, type },
+        },
+      })
+    },
+    [caseData, commit]
+  )
+
+  const findTable = useCallback(
+    (tableId: string) => caseData?.extractedData.tables?.find((t) => t.id === tableId),
+    [caseData]
+  )
+
+  /**
+   * Validate and save one line-item cell; returns the validation error, if any
+   */
+  const saveTableCell = useCallback(
+    (tableId: string, rowId: string, column: LineItemColumn, value: unknown): string | null => {
+      const table = findTable(tableId)
+      if (!table) return 'Table not found'
+
+      const edit = editTableCell(table, rowId, column, value)
+      if (!edit.table) return edit.error
+
+      const rowNumber = table.rows.findIndex((row) => row.id === rowId) + 1
+      const columnLabel = lineItemColumns.find((c) => c.column === column)?.label ?? column
+      const previousValue = table.rows[rowNumber - 1].cells[column].value
+      const newValue = edit.table.rows[rowNumber - 1].cells[column].value
+      commit({
+        kind: 'table-edit',
+        label: `Edit ${table.label} row ${rowNumber}`,
+        tables: [{ before: table, after: edit.table }],
+        event: {
+          title: `${table.label} Updated`,
+          detail: `Row ${rowNumber} ${columnLabel} updated from ${String(previousValue ?? '—')} to ${String(newValue)}`,
+          metadata: { tableId, rowId, column, previousValue, value: newValue },
+        },
+      })
+      return null
+    },
+    [findTable, commit]
+  )
+
+  const addTableRow = useCallback(
+    (tableId: string) => {
+      const table = findTable(tableId)
+      if (!table) return
+
+      commit({
+        kind: 'table-edit',
+        label: `Add row to ${table.label}`,
+        tables: [{ before: table, after: addLineItemRow(table) }],
+        event: {
+          title: `${table.label} Row Added`,
+          detail: `Row ${table.rows.length + 1} added`,
+          metadata: { tableId },
+        },
+      })
+    },
+    [findTable, commit]
+  )
+
+  const removeTableRow = useCallback(
+    (tableId: string, rowId: string) => {
+      const table = findTable(tableId)
+      const row = table?.rows.find((r) => r.id === rowId)
+      if (!table || !row) return
+
+      commit({
+        kind: 'table-edit',
+        label: `Remove row from ${table.label}`,
+        tables: [{ before: table, after: removeLineItemRow(table, rowId) }],
+        event: {
+          title: `${table.label} Row Removed`,
+          detail: String(row.cells.description.value ?? `Row ${table.rows.indexOf(row) + 1}`),
+          metadata: { tableId, rowId },
+        },
+      })
+    },
+    [findTable, commit]
+  )
+
+  return {
+    saveField,
+    revertField,
+    applyFieldReextraction,
+    acceptFields,
+    toggleFlag,
+    resolveConflict,
+    reclassifyDocument,
+    saveTableCell,
+    addTableRow,
+    removeTableRow,
+  }
+}
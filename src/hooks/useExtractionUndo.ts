@@ -0,0 +1,73 @@
+// ============================================
+// Extraction Undo Hook
+// Undo/redo of extraction page changes with keyboard shortcuts
+// ============================================
+
+'use client'
+
+import { useCallback, useEffect } from 'react'
+import { toast } from 'sonner'
+import { useAppStore, useExtractionEditStacks } from '@/lib/store'
+import { isTextEntryTarget } from '@/lib/accessibility'
+
+/**
+ * Undo and redo for the changes made to a case on the extraction page.
+ * Ctrl+Z (Cmd+Z on macOS) undoes; Ctrl+Shift+Z or Ctrl+Y redoes.
+ */
+export function useExtractionUndo(caseId: string | null) {
+  const { past, future } = useExtractionEditStacks(caseId)
+  const nextUndo = past[past.length - 1] ?? null
+  const nextRedo = future[future.length - 1] ?? null
+
+  const undo = useCallback(() => {
+    if (!caseId || !nextUndo) return
+    const edit = useAppStore.getState().undoExtractionEdit(caseId)
+    if (edit) {
+      toast.success(`Undid: ${edit.label}`)
+    } else {
+      toast.error(`Cannot undo "${nextUndo.label}"`, {
+        description: 'The values have changed since, so the change was removed from the history.',
+      })
+    }
+  }, [caseId, nextUndo])
+
+  const redo = useCallback(() => {
+    if (!caseId || !nextRedo) return
+    const edit = useAppStore.getState().redoExtractionEdit(caseId)
+    if (edit) {
+      toast.success(`Redid: ${edit.label}`)
+    } else {
+      toast.error(`Cannot redo "${nextRedo.label}"`, {
+        description: 'The values have changed since, so the change was removed from the history.',
+      })
+    }
+  }, [caseId, nextRedo])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Text inputs keep their own undo
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntryTarget(e.target)) return
+      const key = e.key.toLowerCase()
+
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  return {
+    canUndo: !!nextUndo,
+    canRedo: !!nextRedo,
+    undoLabel: nextUndo?.label ?? null,
+    redoLabel: nextRedo?.label ?? null,
+    undo,
+    redo,
+  }
+}
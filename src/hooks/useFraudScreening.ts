@@ -0,0 +1,31 @@
+// ============================================
+// Fraud Screening Hook
+// Screens a case against the other cases known to the app
+// ============================================
+
+'use client'
+
+import { useMemo } from 'react'
+import { useAllCases } from '@/lib/store'
+import { mockCases } from '@/lib/mock-data'
+import { withFraudAssessment, type FraudScreeningInput } from '@/lib/fraud-signals'
+
+/**
+ * Cases to compare against. Cases are only in the store once a workflow
+ * page has loaded them, so the demo cases stand in until then.
+ */
+export function useScreeningCases(): FraudScreeningInput[] {
+  const storeCases = useAllCases()
+  return storeCases.length > 0 ? storeCases : mockCases
+}
+
+/**
+ * The case with its fraud assessment attached, ready for rule evaluation
+ */
+export function useFraudScreening<T extends FraudScreeningInput>(caseData: T | null) {
+  const screeningCases = useScreeningCases()
+  return useMemo(
+    () => (caseData ? withFraudAssessment(caseData, screeningCases) : null),
+    [caseData, screeningCases]
+  )
+}
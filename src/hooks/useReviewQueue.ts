@@ -0,0 +1,127 @@
+// ============================================
+// Review Queue Hook
+// Steps a reviewer through the fields that still need review
+// ============================================
+
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { needsReview } from '@/lib/field-types'
+import { isTextEntryTarget } from '@/lib/accessibility'
+import type { ConfidenceThresholds, ExtractedField } from '@/types'
+
+export interface UseReviewQueueOptions {
+  fields: ExtractedField[] // in the order they are shown
+  thresholdsFor?: (fieldName: string) => ConfidenceThresholds
+  onAccept: (fieldId: string) => void
+  onEdit: (fieldId: string) => void
+  onFlag: (fieldId: string) => void
+  onFocusField?: (fieldId: string) => void
+}
+
+/**
+ * Review mode over the `review-required` and `review-suggested` fields.
+ * While active, single keys act on the current field:
+ * A accept, E edit, F flag, J/↓ next, K/↑ previous, Esc leave.
+ * Fields leave the queue once accepted, edited into a valid value or flagged.
+ */
+export function useReviewQueue({
+  fields,
+  thresholdsFor,
+  onAccept,
+  onEdit,
+  onFlag,
+  onFocusField,
+}: UseReviewQueueOptions) {
+  const [isActive, setIsActive] = useState(false)
+  const [selectedFieldId, setSelectedFieldId] = useState<string | null>(null)
+  // Fields queued when review mode started, for progress
+  const [startingFieldIds, setStartingFieldIds] = useState<string[]>([])
+
+  const queue = useMemo(
+    () => fields.filter((field) => needsReview(field, thresholdsFor?.(field.name))).map((field) => field.id),
+    [fields, thresholdsFor]
+  )
+
+  // Once the selected field leaves the queue, the next queued field after it is current
+  const currentFieldId = useMemo(() => {
+    if (!isActive) return null
+    if (selectedFieldId && queue.includes(selectedFieldId)) return selectedFieldId
+    const from = fields.findIndex((field) => field.id === selectedFieldId)
+    const following = fields.slice(from + 1).concat(fields.slice(0, from + 1))
+    return following.find((field) => queue.includes(field.id))?.id ?? null
+  }, [isActive, selectedFieldId, queue, fields])
+
+  // Fields can also join the queue during the session, e.g. when an accept is undone
+  const sessionFieldIds = useMemo(() => new Set([...startingFieldIds, ...queue]), [startingFieldIds, queue])
+
+  const focusFieldRef = useRef(onFocusField)
+  useEffect(() => {
+    focusFieldRef.current = onFocusField
+  })
+
+  useEffect(() => {
+    if (currentFieldId) focusFieldRef.current?.(currentFieldId)
+  }, [currentFieldId])
+
+  const step = useCallback(
+    (offset: 1 | -1) => {
+      if (queue.length === 0) return
+      const index = currentFieldId ? queue.indexOf(currentFieldId) : -1
+      setSelectedFieldId(queue[(index + offset + queue.length) % queue.length])
+    },
+    [queue, currentFieldId]
+  )
+
+  const start = useCallback(() => {
+    setStartingFieldIds(queue)
+    setSelectedFieldId(queue[0] ?? null)
+    setIsActive(true)
+  }, [queue])
+
+  const stop = useCallback(() => setIsActive(false), [])
+
+  useEffect(() => {
+    if (!isActive) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTextEntryTarget(e.target)) return
+
+      const actions: Record<string, () => void> = {
+        a: () => currentFieldId && onAccept(currentFieldId),
+        e: () => currentFieldId && onEdit(currentFieldId),
+        f: () => currentFieldId && onFlag(currentFieldId),
+        j: () => step(1),
+        arrowdown: () => step(1),
+        k: () => step(-1),
+        arrowup: () => step(-1),
+        escape: stop,
+      }
+      const action = actions[e.key.toLowerCase()]
+      if (action) {
+        e.preventDefault()
+        action()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [isActive, currentFieldId, onAccept, onEdit, onFlag, step, stop])
+
+  const total = isActive ? sessionFieldIds.size : queue.length
+  const reviewedCount = isActive ? [...sessionFieldIds].filter((id) => !queue.includes(id)).length : 0
+
+  return {
+    isActive,
+    currentFieldId,
+    queue,
+    remaining: queue.length,
+    reviewedCount,
+    total,
+    isComplete: queue.length === 0,
+    start,
+    stop,
+    next: () => step(1),
+    previous: () => step(-1),
+  }
+}
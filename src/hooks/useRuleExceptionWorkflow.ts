@@ -0,0 +1,154 @@
+// ============================================
+// Rule Exception Workflow Hook
+// Analysts request overrides on failed rules; managers approve
+// or deny them. Approval recomputes the case decision.
+// ============================================
+
+'use client'
+
+import { useCallback } from 'react'
+import { toast } from 'sonner'
+import { useAppStore } from '@/lib/store'
+import { useRequestRuleException } from '@/lib/api-hooks'
+import { mockCases } from '@/lib/mock-data'
+import { defaultRuleSet } from '@/lib/rule-definitions'
+import { evaluateRules, resolveRuleSet } from '@/lib/rules-engine'
+import { applyRuleExceptions } from '@/lib/rule-exceptions'
+import { withFraudAssessment } from '@/lib/fraud-signals'
+import { computeDecision, getClaimAmount } from '@/lib/decision-engine'
+import { getPolicyTerms } from '@/lib/benefit-calculation'
+import { generateId } from '@/lib/utils'
+import type { Case, RuleException, RuleResult, TimelineEvent } from '@/types'
+
+export const EXCEPTION_REVIEWER_ROLES = ['admin', 'manager']
+
+// Cases opened from demo data are not in the store yet
+function findCase(caseId: string): Case | null {
+  return useAppStore.getState().cases.byId[caseId] ?? mockCases.find((c) => c.id === caseId) ?? null
+}
+
+function saveCase(caseData: Case, updates: Partial<Case>) {
+  const { cases, updateCase, addCase } = useAppStore.getState()
+  if (cases.byId[caseData.id]) {
+    updateCase(caseData.id, updates)
+  } else {
+    addCase({ ...caseData, ...updates })
+  }
+}
+
+function exceptionEvent(title: string, detail: string, exception: RuleException): TimelineEvent {
+  return {
+    id: generateId('timeline'),
+    type: 'rules',
+    date: exception.reviewedAt ?? exception.requestedAt,
+    title,
+    detail,
+    link: '/rules',
+    metadata: {
+      actor: exception.reviewedBy ?? exception.requestedBy,
+      exceptionId: exception.id,
+      ruleId: exception.ruleId,
+      status: exception.status,
+      reason: exception.reason,
+      reviewNote: exception.reviewNote,
+    },
+  }
+}
+
+export function useRuleExceptionWorkflow() {
+  const requestRuleException = useAppStore((state) => state.requestRuleException)
+  const reviewRuleException = useAppStore((state) => state.reviewRuleException)
+  const { mutate: requestExceptionApi } = useRequestRuleException()
+
+  const requestException = useCallback(
+    (caseData: Case, result: RuleResult, reason: string) => {
+      const exception = requestRuleException({
+        caseId: caseData.id,
+        ruleId: result.id,
+        ruleName: result.name,
+        ruleSetVersionId: caseData.ruleSetVersionId,
+        reason,
+      })
+
+      saveCase(caseData, {
+        timeline: [
+          ...caseData.timeline,
+          exceptionEvent('Exception Requested', `${result.name}: ${reason}`, exception),
+        ],
+      })
+
+      requestExceptionApi(
+        { caseId: caseData.id, ruleId: result.id, reason },
+        {
+          onError: (error) => {
+            toast.error('Exception request not sent to server', { description: error.message })
+          },
+        }
+      )
+      return exception
+    },
+    [requestRuleException, requestExceptionApi]
+  )
+
+  const reviewException = useCallback(
+    (exceptionId: string, status: 'approved' | 'denied', note?: string) => {
+      const reviewed = reviewRuleException(exceptionId, status, note)
+      if (!reviewed) return null
+
+      const caseData = findCase(reviewed.caseId)
+      if (!caseData) return reviewed
+
+      const title = status === 'approved' ? 'Exception Approved' : 'Exception Denied'
+      const event = exceptionEvent(
+        title,
+        `${reviewed.ruleName}${note ? `: ${note}` : ''}`,
+        reviewed
+      )
+
+      if (status === 'denied') {
+        saveCase(caseData, { timeline: [...caseData.timeline, event] })
+        return reviewed
+      }
+
+      // Recompute the decision with the override in place
+      const { cases, ruleSets, ruleExceptions } = useAppStore.getState()
+      const versions = ruleSets.allIds.map((id) => ruleSets.byId[id])
+      const ruleSet =
+        (caseData.ruleSetVersionId && ruleSets.byId[caseData.ruleSetVersionId]) ||
+        resolveRuleSet(versions) ||
+        defaultRuleSet
+      const baseResults =
+        caseData.ruleResults.length > 0
+          ? caseData.ruleResults
+          : evaluateRules(
+              ruleSet.rules,
+              withFraudAssessment(caseData, cases.allIds.length > 0 ? Object.values(cases.byId) : mockCases)
+            )
+      const caseExceptions = ruleExceptions.allIds
+        .map((id) => ruleExceptions.byId[id])
+        .filter((exception) => exception.caseId === caseData.id)
+      const ruleResults = applyRuleExceptions(baseResults, caseExceptions)
+      const decision = computeDecision({
+        results: ruleResults,
+        rules: ruleSet.rules,
+        claimAmount: getClaimAmount(caseData.extractedData),
+        policy: getPolicyTerms(caseData.extractedData),
+      })
+
+      saveCase(caseData, {
+        ruleResults,
+        ruleSetVersionId: ruleSet.id,
+        decision: {
+          ...decision,
+          id: caseData.decision?.id ?? decision.id,
+          approvalWorkflow: caseData.decision?.approvalWorkflow ?? [],
+        },
+        timeline: [...caseData.timeline, event],
+      })
+      return reviewed
+    },
+    [reviewRuleException]
+  )
+
+  return { requestException, reviewException }
+}
@@ -0,0 +1,101 @@
+// ============================================
+// What-If Simulation Hook
+// Re-evaluates rules with temporary field overrides.
+// Nothing is written to the store or the case timeline.
+// ============================================
+
+'use client'
+
+import { useCallback, useMemo, useState } from 'react'
+import { evaluateRules, diffRuleResults, hasRuleChanges } from '@/lib/rules-engine'
+import { computeDecision, getClaimAmount } from '@/lib/decision-engine'
+import { getPolicyTerms } from '@/lib/benefit-calculation'
+import { withFraudAssessment } from '@/lib/fraud-signals'
+import { applyRuleExceptions } from '@/lib/rule-exceptions'
+import { useCaseRuleExceptions } from '@/lib/store'
+import { useScreeningCases } from '@/hooks/useFraudScreening'
+import type { Case, ExtractedData, RuleSetVersion } from '@/types'
+
+export type FieldOverrides = Record<string, unknown>
+
+/**
+ * Apply overrides keyed by `ExtractedField.name` to a copy of the extracted data
+ */
+export function applyFieldOverrides(data: ExtractedData, overrides: FieldOverrides): ExtractedData {
+  return {
+    ...data,
+    fields: data.fields.map((field) =>
+      field.name in overrides ? { ...field, value: overrides[field.name] } : field
+    ),
+  }
+}
+
+export function useWhatIfSimulation(caseData: Case | null, ruleSet: RuleSetVersion) {
+  const [isActive, setIsActive] = useState(false)
+  const [overrides, setOverrides] = useState<FieldOverrides>({})
+  const screeningCases = useScreeningCases()
+  const exceptions = useCaseRuleExceptions(caseData?.id ?? null)
+
+  const setOverride = useCallback((fieldName: string, value: unknown) => {
+    setOverrides((prev) => ({ ...prev, [fieldName]: value }))
+  }, [])
+
+  const clearOverride = useCallback((fieldName: string) => {
+    setOverrides((prev) => {
+      const next = { ...prev }
+      delete next[fieldName]
+      return next
+    })
+  }, [])
+
+  const reset = useCallback(() => setOverrides({}), [])
+
+  const toggle = useCallback(() => {
+    setIsActive((prev) => !prev)
+    setOverrides({})
+  }, [])
+
+  const simulation = useMemo(() => {
+    if (!caseData) return null
+
+    const simulatedData = applyFieldOverrides(caseData.extractedData, overrides)
+    // Overrides can change fraud signals too, so each side is screened separately.
+    // Approved exceptions apply to both, as they do on the case itself.
+    const baselineResults = applyRuleExceptions(
+      evaluateRules(ruleSet.rules, withFraudAssessment(caseData, screeningCases)),
+      exceptions
+    )
+    const results = applyRuleExceptions(
+      evaluateRules(ruleSet.rules, withFraudAssessment({ ...caseData, extractedData: simulatedData }, screeningCases)),
+      exceptions
+    )
+    const diffs = diffRuleResults(baselineResults, results).filter(hasRuleChanges)
+
+    return {
+      results,
+      diffsByRuleId: Object.fromEntries(diffs.map((diff) => [diff.ruleId, diff])),
+      baselineDecision: computeDecision({
+        results: baselineResults,
+        rules: ruleSet.rules,
+        claimAmount: getClaimAmount(caseData.extractedData),
+        policy: getPolicyTerms(caseData.extractedData),
+      }),
+      decision: computeDecision({
+        results,
+        rules: ruleSet.rules,
+        claimAmount: getClaimAmount(simulatedData),
+        policy: getPolicyTerms(simulatedData),
+      }),
+    }
+  }, [caseData, overrides, ruleSet, screeningCases, exceptions])
+
+  return {
+    isActive,
+    overrides,
+    simulation,
+    toggle,
+    setOverride,
+    clearOverride,
+    reset,
+  }
+}
@@ -160,6 +160,15 @@ export function useKeyboardNavigation(options: KeyboardNavigationOptions): void
   }, [options])
 }
 
+/**
+ * True when a key event comes from a text field, where single-key and
+ * undo shortcuts belong to the field
+ */
+export function isTextEntryTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
 // ============================================
 // ARIA Attributes Helper
 // ============================================
@@ -3,6 +3,7 @@
 // ============================================
 
 import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig, AxiosResponse } from 'axios'
+import type { FieldSource } from '@/types'
 
 // API Base URL (configure based on environment)
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api'
@@ -149,6 +150,40 @@ export const documentsApi = {
     apiClient.put(`/documents/${id}`, data),
 }
 
+// Chunked Uploads API
+export const uploadsApi = {
+  createSession: (data: {
+    caseId?: string
+    fileName: string
+    fileSize: number
+    mimeType: string
+    chunkSize: number
+    totalChunks: number
+    contentHash?: string
+  }) =>
+    apiClient.post('/uploads', data),
+  getSession: (sessionId: string) =>
+    apiClient.get(`/uploads/${sessionId}`),
+  uploadChunk: (
+    sessionId: string,
+    index: number,
+    chunk: Blob,
+    options?: { signal?: AbortSignal; onProgress?: (loaded: number) => void }
+  ) =>
+    apiClient.put(`/uploads/${sessionId}/chunks/${index}`, chunk, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+      },
+      signal: options?.signal,
+      timeout: 120000, // a chunk can take a while on a slow connection
+      onUploadProgress: (progressEvent) => {
+        options?.onProgress?.(progressEvent.loaded)
+      },
+    }),
+  complete: (sessionId: string) =>
+    apiClient.post(`/uploads/${sessionId}/complete`),
+}
+
 // Quality Check API
 export const qualityCheckApi = {
   run: (documentId: string) =>
@@ -171,8 +206,8 @@ export const extractionApi = {
     apiClient.get(`/cases/${caseId}/extraction/results`),
   updateField: (caseId: string, fieldId: string, value: any) =>
     apiClient.put(`/cases/${caseId}/extraction/fields/${fieldId}`, { value }),
-  reextractField: (caseId: string, fieldId: string) =>
-    apiClient.post(`/cases/${caseId}/extraction/fields/${fieldId}/reextract`),
+  reextractField: (caseId: string, fieldId: string, source?: FieldSource) =>
+    apiClient.post(`/cases/${caseId}/extraction/fields/${fieldId}/reextract`, source ? { source } : undefined),
   getFieldHistory: (caseId: string, fieldId: string) =>
     apiClient.get(`/cases/${caseId}/extraction/fields/${fieldId}/history`),
 }
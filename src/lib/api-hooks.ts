@@ -21,13 +21,18 @@ import {
   ApiError,
 } from './api-client'
 import { queryKeys } from './react-query'
+import { backtestRuleSet } from './backtest'
 import {
   Case,
   Document,
   QualityCheckResponse,
   ExtractionResponse,
+  FieldHistoryResponse,
+  FieldReextractionResponse,
+  FieldSource,
   RuleResult,
   RulesEvaluationResponse,
+  RuleSetVersion,
   Decision,
   TimelineEvent,
 } from '@/types'
@@ -181,6 +186,18 @@ export function useExtraction(caseId: string) {
   })
 }
 
+export function useFieldHistory(caseId: string, fieldId: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.extraction.fieldHistory(caseId, fieldId),
+    queryFn: async () => {
+      const { data } = await extractionApi.getFieldHistory(caseId, fieldId)
+      return data as FieldHistoryResponse
+    },
+    enabled: !!caseId && !!fieldId && (options?.enabled ?? true),
+    retry: false,
+  })
+}
+
 export function useStartExtraction() {
   const queryClient = useQueryClient()
 
@@ -248,7 +265,7 @@ export function useUpdateField() {
       }
     },
     onSuccess: (_, variables) => {
-      // Invalidate to refetch
+      // Invalidate to refetch (also covers the field's history)
       queryClient.invalidateQueries({ queryKey: queryKeys.extraction.detail(variables.caseId) })
       // Invalidate rules (they need to be replayed)
       queryClient.invalidateQueries({ queryKey: queryKeys.rules.results(variables.caseId) })
@@ -256,6 +273,29 @@ export function useUpdateField() {
   })
 }
 
+export function useReextractField() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      caseId,
+      fieldId,
+      source,
+    }: {
+      caseId: string
+      fieldId: string
+      source?: FieldSource
+    }) => {
+      const { data } = await extractionApi.reextractField(caseId, fieldId, source)
+      return data as FieldReextractionResponse
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.extraction.detail(variables.caseId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.rules.results(variables.caseId) })
+    },
+  })
+}
+
 // ============================================
 // Rules Hooks
 // ============================================
@@ -286,21 +326,30 @@ export function useEvaluateRules() {
   })
 }
 
-export function useReplayRules() {
+export function useRequestRuleException() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: async (caseId: string) => {
-      const response = await rulesApi.replay(caseId)
-      return response.data as RulesEvaluationResponse
+    mutationFn: async ({ caseId, ruleId, reason }: { caseId: string; ruleId: string; reason: string }) => {
+      const response = await rulesApi.requestException(caseId, ruleId, reason)
+      return response.data
     },
-    onSuccess: (_, caseId) => {
-      // Invalidate rules results
+    onSuccess: (_, { caseId }) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.rules.results(caseId) })
     },
   })
 }
 
+export function useBacktestRuleSet() {
+  return useMutation({
+    mutationFn: async ({ draft, baseline }: { draft: RuleSetVersion; baseline: RuleSetVersion }) => {
+      // Backtest runs client-side over the case set returned by the API
+      const { data } = await casesApi.list()
+      return backtestRuleSet(data as Case[], draft, baseline)
+    },
+  })
+}
+
 // ============================================
 // Decision Hooks
 // ============================================
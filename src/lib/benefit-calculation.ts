@@ -0,0 +1,105 @@
+// ============================================
+// Benefit Calculation
+// Turns a claimed amount into a payable amount under the policy terms
+// ============================================
+
+import { toNumber } from './rules-engine'
+import { POLICY_LIMIT } from './rule-definitions'
+import { formatCurrency } from './utils'
+import type {
+  BenefitCalculation,
+  BenefitCalculationLine,
+  BenefitCalculationStep,
+  ExtractedData,
+  PolicyTerms,
+} from '@/types'
+
+export interface PercentageDeduction {
+  name: string
+  percent: number
+  reference?: string
+}
+
+export const defaultPolicyTerms: PolicyTerms = {
+  policyLimit: POLICY_LIMIT,
+  remainingCoverage: POLICY_LIMIT,
+  deductible: 0,
+  coPayPercent: 0,
+}
+
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Read policy terms from extracted data. Terms the policy document did not
+ * state fall back to the defaults; remaining coverage defaults to the limit.
+ */
+export function getPolicyTerms(data: ExtractedData): PolicyTerms {
+  const read = (name: string) => toNumber(data.fields.find((f) => f.name === name)?.value)
+  const policyLimit = read('policyLimit') ?? defaultPolicyTerms.policyLimit
+
+  return {
+    policyLimit,
+    remainingCoverage: read('remainingCoverage') ?? policyLimit,
+    deductible: read('deductible') ?? defaultPolicyTerms.deductible,
+    coPayPercent: read('coPayPercent') ?? defaultPolicyTerms.coPayPercent,
+  }
+}
+
+/**
+ * Calculate the payable benefit. Steps are applied in this order:
+ *
+ * 1. Percentage deductions from failed rules, each taken from the claimed amount
+ * 2. The policy deductible
+ * 3. The co-pay, as a share of what is left
+ * 4. The per-claim policy limit
+ * 5. The coverage remaining in the policy period
+ *
+ * Steps that do not change the amount are left out of the breakdown.
+ */
+export function calculateBenefit(
+  claimAmount: number,
+  policy: PolicyTerms = defaultPolicyTerms,
+  deductions: PercentageDeduction[] = []
+): BenefitCalculation {
+  const lines: BenefitCalculationLine[] = []
+  let running = Math.max(0, claimAmount)
+
+  const reduceBy = (step: BenefitCalculationStep, label: string, amount: number, reference?: string) => {
+    const applied = roundCurrency(Math.min(running, Math.max(0, amount)))
+    if (applied === 0) return
+    running = roundCurrency(running - applied)
+    lines.push({ step, label, amount: -applied, runningTotal: running, reference })
+  }
+
+  for (const deduction of deductions) {
+    reduceBy(
+      'percentage-deduction',
+      `${deduction.percent}% deduction applied for ${deduction.name}`,
+      (claimAmount * deduction.percent) / 100,
+      deduction.reference
+    )
+  }
+
+  reduceBy('deductible', 'Policy deductible', policy.deductible)
+  reduceBy('co-pay', `${policy.coPayPercent}% co-pay`, (running * policy.coPayPercent) / 100)
+  reduceBy(
+    'policy-limit',
+    `Capped at the policy limit of ${formatCurrency(policy.policyLimit)}`,
+    running - policy.policyLimit
+  )
+  reduceBy(
+    'remaining-coverage',
+    `Capped at the remaining coverage of ${formatCurrency(policy.remainingCoverage)}`,
+    running - policy.remainingCoverage
+  )
+
+  return {
+    claimAmount,
+    policy,
+    lines,
+    totalDeduction: roundCurrency(claimAmount - running),
+    payableAmount: running,
+  }
+}
@@ -0,0 +1,277 @@
+// ============================================
+// Case Export
+// Reviewed extraction data as JSON, flat CSV or mapped XML for downstream systems
+// ============================================
+
+import { lineItemColumns } from './line-items'
+import type { Case, ExtractedField, FieldSource, TableCell, XmlExportMapping } from '@/types'
+
+export type ExportFormat = 'json' | 'csv' | 'xml'
+
+export interface ExportFile {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+export const defaultXmlExportMapping: XmlExportMapping = {
+  rootElement: 'Cases',
+  caseElement: 'Case',
+  fieldElements: {},
+  includeMetadata: true,
+  omitUnmappedFields: false,
+}
+
+// Field or line-item cell as exported: value plus where it came from and who changed it
+interface ExportValue {
+  name: string
+  label: string
+  value: unknown
+  confidence: number
+  status?: string
+  documentId?: string
+  documentName?: string
+  page?: number
+  region?: FieldSource['region']
+  manuallyEdited: boolean
+  originalValue?: unknown
+  editedBy?: string
+  editedAt?: string
+  flagged?: boolean
+}
+
+function sourceDetails(caseData: Case, source?: FieldSource) {
+  if (!source) return {}
+  return {
+    documentId: source.documentId,
+    documentName: caseData.documents.find((doc) => doc.id === source.documentId)?.name,
+    page: source.page,
+    region: source.region,
+  }
+}
+
+function fieldValue(caseData: Case, field: ExtractedField): ExportValue {
+  return {
+    name: field.name,
+    label: field.label,
+    value: field.value,
+    confidence: field.confidence,
+    status: field.status,
+    ...sourceDetails(caseData, field.source),
+    manuallyEdited: field.manuallyEdited,
+    ...(field.manuallyEdited && {
+      originalValue: field.originalValue,
+      editedBy: field.editedBy,
+      editedAt: field.editedAt,
+    }),
+    ...(field.flag && { flagged: true }),
+  }
+}
+
+function cellValue(caseData: Case, name: string, label: string, cell: TableCell): ExportValue {
+  return {
+    name,
+    label,
+    value: cell.value,
+    confidence: cell.confidence,
+    ...sourceDetails(caseData, cell.source),
+    manuallyEdited: !!cell.manuallyEdited,
+  }
+}
+
+/**
+ * Every exported value of a case: its fields, then each line-item cell
+ * named `<table>.<row>.<column>` with rows counted from 1
+ */
+function exportValues(caseData: Case): ExportValue[] {
+  const fields = caseData.extractedData.fields.map((field) => fieldValue(caseData, field))
+  const cells = (caseData.extractedData.tables ?? []).flatMap((table) =>
+    table.rows.flatMap((row, index) =>
+      lineItemColumns.map(({ column, label }) =>
+        cellValue(caseData, `${table.name}.${index + 1}.${column}`, `${table.label} ${index + 1} ${label}`, row.cells[column])
+      )
+    )
+  )
+  return [...fields, ...cells]
+}
+
+// ============================================
+// JSON
+// ============================================
+
+function toJson(cases: Case[], exportedAt: string): string {
+  return JSON.stringify(
+    {
+      exportedAt,
+      cases: cases.map((caseData) => ({
+        id: caseData.id,
+        title: caseData.title,
+        type: caseData.type,
+        status: caseData.status,
+        extractedData: {
+          confidence: caseData.extractedData.confidence,
+          extractionTime: caseData.extractedData.extractionTime,
+          fields: caseData.extractedData.fields.map((field) => fieldValue(caseData, field)),
+          tables: (caseData.extractedData.tables ?? []).map((table) => ({
+            name: table.name,
+            label: table.label,
+            totalFieldName: table.totalFieldName,
+            rows: table.rows.map((row) =>
+              Object.fromEntries(
+                lineItemColumns.map(({ column, label }) => [column, cellValue(caseData, column, label, row.cells[column])])
+              )
+            ),
+          })),
+        },
+      })),
+    },
+    null,
+    2
+  )
+}
+
+// ============================================
+// CSV
+// ============================================
+
+const csvColumns: Array<[header: string, get: (caseData: Case, value: ExportValue) => unknown]> = [
+  ['caseId', (c) => c.id],
+  ['caseType', (c) => c.type],
+  ['field', (_, v) => v.name],
+  ['label', (_, v) => v.label],
+  ['value', (_, v) => v.value],
+  ['confidence', (_, v) => v.confidence],
+  ['status', (_, v) => v.status],
+  ['documentId', (_, v) => v.documentId],
+  ['documentName', (_, v) => v.documentName],
+  ['page', (_, v) => v.page],
+  ['region', (_, v) => v.region?.join(' ')],
+  ['manuallyEdited', (_, v) => v.manuallyEdited],
+  ['originalValue', (_, v) => v.originalValue],
+  ['editedBy', (_, v) => v.editedBy],
+  ['editedAt', (_, v) => v.editedAt],
+  ['flagged', (_, v) => v.flagged ?? false],
+]
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One row per field or line-item cell, so every case shares the same columns
+ */
+function toCsv(cases: Case[]): string {
+  const rows = cases.flatMap((caseData) =>
+    exportValues(caseData).map((value) => csvColumns.map(([, get]) => csvCell(get(caseData, value))).join(','))
+  )
+  return [csvColumns.map(([header]) => header).join(','), ...rows].join('\r\n')
+}
+
+// ============================================
+// XML
+// ============================================
+
+const XML_NAME = /^[A-Za-z_][\w.-]*$/
+
+/**
+ * Reason a mapping cannot be used, or null when every element name is valid XML
+ */
+export function validateXmlExportMapping(mapping: XmlExportMapping): string | null {
+  const names = [mapping.rootElement, mapping.caseElement, ...Object.values(mapping.fieldElements)]
+  const invalid = names.find((name) => !XML_NAME.test(name) || /^xml/i.test(name))
+  return invalid === undefined ? null : `"${invalid}" is not a valid XML element name`
+}
+
+function escapeXml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function attributes(values: Record<string, unknown>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([name, value]) => ` ${name}="${escapeXml(Array.isArray(value) ? value.join(',') : value)}"`)
+    .join('')
+}
+
+/**
+ * Cases as XML. Fields become elements named by the mapping (their field
+ * name when unmapped, unless unmapped fields are left out); confidence,
+ * source and edit details become attributes when metadata is included.
+ */
+function toXml(cases: Case[], mapping: XmlExportMapping, exportedAt: string): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', `<${mapping.rootElement}${attributes({ exportedAt })}>`]
+
+  for (const caseData of cases) {
+    lines.push(`  <${mapping.caseElement}${attributes({ id: caseData.id, type: caseData.type, status: caseData.status })}>`)
+    for (const value of exportValues(caseData)) {
+      const mapped = mapping.fieldElements[value.name]
+      if (!mapped && mapping.omitUnmappedFields) continue
+      // Line-item cell names contain the row number, which cannot start an element name
+      const element = mapped ?? value.name.replace(/\.(\d)/g, '_$1')
+      const metadata = mapping.includeMetadata
+        ? attributes({
+            confidence: value.confidence,
+            status: value.status,
+            documentId: value.documentId,
+            page: value.page,
+            region: value.region,
+            edited: value.manuallyEdited || undefined,
+            originalValue: value.originalValue,
+            editedBy: value.editedBy,
+            editedAt: value.editedAt,
+            flagged: value.flagged,
+          })
+        : ''
+      lines.push(`    <${element}${metadata}>${escapeXml(value.value)}</${element}>`)
+    }
+    lines.push(`  </${mapping.caseElement}>`)
+  }
+
+  lines.push(`</${mapping.rootElement}>`)
+  return lines.join('\n')
+}
+
+// ============================================
+// Export
+// ============================================
+
+const mimeTypes: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  xml: 'application/xml',
+}
+
+/**
+ * Export the extracted data of one or more cases
+ */
+export function exportCases(
+  cases: Case[],
+  format: ExportFormat,
+  xmlMapping: XmlExportMapping = defaultXmlExportMapping
+): ExportFile {
+  const exportedAt = new Date().toISOString()
+  const content =
+    format === 'json' ? toJson(cases, exportedAt) : format === 'csv' ? toCsv(cases) : toXml(cases, xmlMapping, exportedAt)
+  const name = cases.length === 1 ? cases[0].id : `cases-${exportedAt.slice(0, 10)}`
+
+  return { filename: `${name}.${format}`, mimeType: mimeTypes[format], content }
+}
+
+/**
+ * Save an export through the browser's download prompt
+ */
+export function downloadExportFile(file: ExportFile): void {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = file.filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
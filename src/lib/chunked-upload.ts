@@ -0,0 +1,167 @@
+// ============================================
+// Chunked Uploads
+// Large files sent in chunks that are retried on their own, so a dropped
+// connection only costs the chunk in flight
+// ============================================
+
+import axios from 'axios'
+import { uploadsApi, type ApiError } from './api-client'
+import type { Document, UploadSession } from '@/types'
+
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024
+export const MAX_CHUNK_ATTEMPTS = 4
+const RETRY_BASE_DELAY_MS = 1000
+
+/**
+ * Identifies a file across page reloads, when the browser hands out a new
+ * File object for it
+ */
+export function uploadFileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`
+}
+
+export function pendingChunks(session: UploadSession): number[] {
+  const uploaded = new Set(session.uploadedChunks)
+  return Array.from({ length: session.totalChunks }, (_, index) => index).filter((index) => !uploaded.has(index))
+}
+
+/**
+ * Whether an upload stopped because it was paused rather than because it failed
+ */
+export function isUploadAborted(error: unknown): boolean {
+  return axios.isCancel(error) || (error instanceof DOMException && error.name === 'AbortError')
+}
+
+// Network errors, timeouts, rate limiting and server errors are worth another try
+function isRetryable(error: unknown): boolean {
+  const status = (error as ApiError)?.status
+  return status === undefined || status === 0 || status === 408 || status === 429 || status >= 500
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload paused', 'AbortError'))
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        reject(new DOMException('Upload paused', 'AbortError'))
+      },
+      { once: true }
+    )
+  })
+}
+
+// ============================================
+// Sessions
+// ============================================
+
+async function createSession(file: File, caseId?: string, contentHash?: string): Promise<UploadSession> {
+  const totalChunks = Math.max(1, Math.ceil(file.size / UPLOAD_CHUNK_SIZE))
+  const response = await uploadsApi.createSession({
+    caseId,
+    fileName: file.name,
+    fileSize: file.size,
+    mimeType: file.type,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    totalChunks,
+    contentHash,
+  })
+  return {
+    id: (response.data as { sessionId: string }).sessionId,
+    fileKey: uploadFileKey(file),
+    fileName: file.name,
+    fileSize: file.size,
+    caseId,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    totalChunks,
+    uploadedChunks: [],
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Pick up a saved session with the chunks the server actually holds, or
+ * null when the server no longer knows it
+ */
+async function resumeSession(session: UploadSession): Promise<UploadSession | null> {
+  try {
+    const response = await uploadsApi.getSession(session.id)
+    return { ...session, uploadedChunks: (response.data as { receivedChunks: number[] }).receivedChunks }
+  } catch (error) {
+    if ((error as ApiError).status === 404) return null
+    throw error
+  }
+}
+
+// ============================================
+// Upload
+// ============================================
+
+async function sendChunk(
+  file: File,
+  session: UploadSession,
+  index: number,
+  signal?: AbortSignal,
+  onProgress?: (loaded: number) => void
+): Promise<void> {
+  const chunk = file.slice(index * session.chunkSize, (index + 1) * session.chunkSize)
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await uploadsApi.uploadChunk(session.id, index, chunk, { signal, onProgress })
+      return
+    } catch (error) {
+      if (isUploadAborted(error) || !isRetryable(error) || attempt >= MAX_CHUNK_ATTEMPTS) throw error
+      onProgress?.(0)
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal)
+    }
+  }
+}
+
+export interface ChunkedUploadOptions {
+  caseId?: string
+  /** SHA-256 of the file, stored on the document the upload creates */
+  contentHash?: string
+  /** Session saved by an earlier attempt at the same file */
+  session?: UploadSession
+  signal?: AbortSignal
+  /** Called whenever the session changes, so it can be saved for resuming */
+  onSessionChange?: (session: UploadSession) => void
+  /** Percentage of the file the server has received */
+  onProgress?: (progress: number) => void
+}
+
+/**
+ * Upload a file in chunks, skipping the ones a previous attempt already
+ * delivered. Each chunk is retried with backoff before the upload fails;
+ * aborting the signal pauses the upload, and it resumes from the saved
+ * session on the next call.
+ */
+export async function uploadFileInChunks(file: File, options: ChunkedUploadOptions = {}): Promise<Document> {
+  const { caseId, contentHash, signal, onSessionChange, onProgress } = options
+
+  let session =
+    (options.session && (await resumeSession(options.session))) ?? (await createSession(file, caseId, contentHash))
+  onSessionChange?.(session)
+
+  const chunkBytes = (index: number) => Math.min(session.chunkSize, file.size - index * session.chunkSize)
+  let uploadedBytes = session.uploadedChunks.reduce((sum, index) => sum + chunkBytes(index), 0)
+  const report = (inFlight = 0) => onProgress?.(file.size > 0 ? ((uploadedBytes + inFlight) / file.size) * 100 : 100)
+  report()
+
+  for (const index of pendingChunks(session)) {
+    await sendChunk(file, session, index, signal, report)
+    uploadedBytes += chunkBytes(index)
+    session = { ...session, uploadedChunks: [...session.uploadedChunks, index] }
+    onSessionChange?.(session)
+    report()
+  }
+
+  const response = await uploadsApi.complete(session.id)
+  return response.data as Document
+}
@@ -0,0 +1,59 @@
+// ============================================
+// Confidence Thresholds
+// Cut-offs between high, medium and low confidence, per case type and field
+// ============================================
+
+import type { CaseType, ConfidenceThresholdRule, ConfidenceThresholds } from '@/types'
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = { high: 90, medium: 70 }
+
+// Monetary fields of compliance cases are held to a stricter standard
+export const defaultConfidenceThresholdRules: ConfidenceThresholdRule[] = [
+  { ...DEFAULT_CONFIDENCE_THRESHOLDS },
+  { caseType: 'compliance', fieldName: 'claimAmount', high: 95, medium: 85 },
+  { caseType: 'compliance', fieldName: 'totalAmount', high: 95, medium: 85 },
+]
+
+/**
+ * True when two rules apply to the same case type and field
+ */
+export function isSameThresholdScope(
+  a: Pick<ConfidenceThresholdRule, 'caseType' | 'fieldName'>,
+  b: Pick<ConfidenceThresholdRule, 'caseType' | 'fieldName'>
+): boolean {
+  return a.caseType === b.caseType && a.fieldName === b.fieldName
+}
+
+/**
+ * Thresholds for a field of a case type. The most specific matching rule
+ * wins: case type and field, then field, then case type, then the default.
+ */
+export function resolveConfidenceThresholds(
+  rules: ConfidenceThresholdRule[],
+  caseType?: CaseType,
+  fieldName?: string
+): ConfidenceThresholds {
+  let best: ConfidenceThresholdRule | undefined
+  let bestScore = -1
+  for (const rule of rules) {
+    if (rule.caseType && rule.caseType !== caseType) continue
+    if (rule.fieldName && rule.fieldName !== fieldName) continue
+    const score = (rule.fieldName ? 2 : 0) + (rule.caseType ? 1 : 0)
+    if (score > bestScore) {
+      best = rule
+      bestScore = score
+    }
+  }
+  return best ? { high: best.high, medium: best.medium } : DEFAULT_CONFIDENCE_THRESHOLDS
+}
+
+/**
+ * Reason a pair of thresholds cannot be used, or null when they can
+ */
+export function validateConfidenceThresholds({ high, medium }: ConfidenceThresholds): string | null {
+  if (![high, medium].every((value) => Number.isInteger(value) && value >= 0 && value <= 100)) {
+    return 'Thresholds are whole percentages between 0 and 100'
+  }
+  if (medium >= high) return 'The review threshold must be below the auto-accept threshold'
+  return null
+}
@@ -0,0 +1,114 @@
+// ============================================
+// Decision Engine
+// Derives a Decision from rule results and the claimed amount
+// ============================================
+
+import { toNumber } from './rules-engine'
+import { calculateBenefit, roundCurrency } from './benefit-calculation'
+import type {
+  BenefitCalculation,
+  Decision,
+  DecisionStatus,
+  ExtractedData,
+  PolicyTerms,
+  RuleDefinition,
+  RuleResult,
+} from '@/types'
+
+export interface DecisionInput {
+  results: RuleResult[]
+  rules: RuleDefinition[]
+  claimAmount: number
+  policy?: PolicyTerms
+}
+
+/**
+ * Read the claimed amount from extracted data, defaulting to 0 when absent
+ */
+export function getClaimAmount(data: ExtractedData): number {
+  return toNumber(data.fields.find((f) => f.name === 'claimAmount')?.value) ?? 0
+}
+
+/**
+ * Derive the decision outcome.
+ *
+ * - A failed rule without a `deductionPercent` rejects the claim.
+ * - Failed rules with a `deductionPercent` reduce the payout instead.
+ * - Failed rules with an approved exception (`override`) are honoured as passed.
+ * - Warnings and skipped rules do not change the amount.
+ * - The payable amount of a non-rejected claim comes from `calculateBenefit`;
+ *   capping by the policy limit or remaining coverage makes it partial.
+ */
+export function computeDecision({ results, rules, claimAmount, policy }: DecisionInput): Decision {
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]))
+  const failed = results.filter((result) => result.status === 'fail' && !result.override)
+  const overridden = results.filter((result) => result.status === 'fail' && result.override)
+  const rejecting = failed.filter((result) => !rulesById.get(result.id)?.deductionPercent)
+  const deducting = failed.filter((result) => rulesById.get(result.id)?.deductionPercent)
+
+  let status: DecisionStatus
+  let deduction: number
+  let deductionReason: string
+  let rationale: string
+  let calculation: BenefitCalculation | undefined
+
+  if (rejecting.length > 0) {
+    status = 'rejected'
+    deduction = claimAmount
+    deductionReason = `Claim rejected: ${rejecting.map((r) => r.name).join(', ')} failed`
+    rationale = `The claim is rejected because ${rejecting.length} rule(s) failed: ${rejecting
+      .map((r) => `${r.name}${r.clause ? ` (${r.clause})` : ''}`)
+      .join('; ')}.`
+  } else {
+    calculation = calculateBenefit(
+      claimAmount,
+      policy,
+      deducting.map((r) => ({
+        name: r.name,
+        percent: rulesById.get(r.id)?.deductionPercent ?? 0,
+        reference: r.clause,
+      }))
+    )
+    deduction = calculation.totalDeduction
+    deductionReason = calculation.lines
+      .map((line) => `${line.label}${line.reference ? ` per ${line.reference}` : ''}`)
+      .join('; ')
+
+    const isPartial = calculation.lines.some((line) => line.step !== 'deductible' && line.step !== 'co-pay')
+    if (isPartial) {
+      status = 'partial'
+      rationale = `The claim is partially approved. ${deductionReason}.`
+    } else {
+      status = 'approved'
+      rationale =
+        overridden.length > 0
+          ? 'No unresolved rule failures. The claim is approved'
+          : 'All rules passed. The claim is approved'
+      rationale += deduction > 0 ? ` less cost sharing: ${deductionReason}.` : ' in full.'
+    }
+  }
+
+  if (overridden.length > 0) {
+    rationale += ` Approved exception(s): ${overridden
+      .map((r) => `${r.name} (${r.override?.approvedBy})`)
+      .join(', ')}.`
+  }
+
+  const confidences = results.map((r) => r.confidence ?? 100)
+  const now = new Date().toISOString()
+
+  return {
+    id: `decision-${Date.now()}`,
+    status,
+    approvedAmount: roundCurrency(Math.max(0, claimAmount - deduction)),
+    claimAmount,
+    deduction,
+    deductionReason,
+    confidence: confidences.length > 0 ? Math.min(...confidences) : 0,
+    rationale,
+    approvalWorkflow: [],
+    calculation,
+    createdAt: now,
+    createdBy: 'System',
+  }
+}
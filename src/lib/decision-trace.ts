@@ -0,0 +1,130 @@
+// ============================================
+// Decision Trace Builder
+// Turns a real rule evaluation into a DecisionTrace tree
+// ============================================
+
+import { traceRules, type RuleEvaluationInput } from './rules-engine'
+import { computeDecision, getClaimAmount } from './decision-engine'
+import { getPolicyTerms } from './benefit-calculation'
+import { applyRuleExceptions } from './rule-exceptions'
+import type {
+  Decision,
+  DecisionNode,
+  DecisionStatus,
+  DecisionTrace,
+  NodeStatus,
+  RuleException,
+  RuleResult,
+  RuleSetVersion,
+} from '@/types'
+
+export interface DecisionTraceInput extends RuleEvaluationInput {
+  id: string
+}
+
+export interface TracedDecision {
+  trace: DecisionTrace
+  results: RuleResult[]
+  decision: Decision
+}
+
+const actionName: Record<DecisionStatus, string> = {
+  approved: 'Approve Claim',
+  partial: 'Partially Approve Claim',
+  rejected: 'Reject Claim',
+}
+
+const actionStatus: Record<DecisionStatus, NodeStatus> = {
+  approved: 'pass',
+  partial: 'warning',
+  rejected: 'fail',
+}
+
+function countNodes(node: DecisionNode, predicate: (node: DecisionNode) => boolean): number {
+  return (
+    (predicate(node) ? 1 : 0) +
+    (node.children ?? []).reduce((sum, child) => sum + countNodes(child, predicate), 0)
+  )
+}
+
+/**
+ * Evaluate a rule set against a case and record the full decision path:
+ * each rule with its condition checks, followed by the final action.
+ * Approved exceptions are honoured the same way the decision engine does.
+ */
+export function buildDecisionTrace(
+  caseData: DecisionTraceInput,
+  ruleSet: RuleSetVersion,
+  exceptions: RuleException[] = []
+): TracedDecision {
+  const start = performance.now()
+  const traces = traceRules(ruleSet.rules, caseData)
+  const results = applyRuleExceptions(traces.map((trace) => trace.result), exceptions)
+  const ruleNodes = traces.map(({ node }, index): DecisionNode => {
+    const override = results[index].override
+    if (!override) return node
+    return {
+      ...node,
+      output: { ...node.output, override },
+      reasoning: `${node.reasoning} Overridden by approved exception: ${override.reason}`,
+    }
+  })
+  const claimAmount = getClaimAmount(caseData.extractedData)
+  const policy = getPolicyTerms(caseData.extractedData)
+  const decision = computeDecision({ results, rules: ruleSet.rules, claimAmount, policy })
+  const evaluatedAt = results[0]?.evaluatedAt ?? decision.createdAt
+
+  const actionNode: DecisionNode = {
+    id: 'node-action',
+    type: 'action',
+    status: actionStatus[decision.status],
+    name: actionName[decision.status],
+    input: {
+      claimAmount,
+      policy,
+      failedRules: results.filter((r) => r.status === 'fail' && !r.override).map((r) => r.name),
+      overriddenRules: results.filter((r) => r.override).map((r) => r.name),
+    },
+    output: {
+      decision: decision.status,
+      approvedAmount: decision.approvedAmount,
+      deduction: decision.deduction,
+      calculation: decision.calculation?.lines.map((line) => `${line.label}: ${line.amount}`),
+    },
+    reasoning: decision.rationale,
+    evaluatedAt,
+  }
+
+  const evaluationDuration = Math.round((performance.now() - start) * 1000) / 1000
+
+  const rootNode: DecisionNode = {
+    id: 'node-root',
+    type: 'result',
+    status: decision.status === 'rejected' ? 'fail' : 'pass',
+    name: 'Claim Evaluation',
+    description: `Rule set version ${ruleSet.version}: ${results.length} rule(s) evaluated`,
+    input: { claimAmount, ruleSetVersionId: ruleSet.id },
+    output: { decision: decision.status, approvedAmount: decision.approvedAmount },
+    reasoning: decision.rationale,
+    evaluatedAt,
+    evaluationDuration,
+    children: [...ruleNodes, actionNode],
+  }
+
+  return {
+    results,
+    decision,
+    trace: {
+      id: `trace-${caseData.id}-${Date.now()}`,
+      caseId: caseData.id,
+      decisionId: decision.id,
+      rootNode,
+      totalNodes: countNodes(rootNode, () => true),
+      passedNodes: countNodes(rootNode, (node) => node.status === 'pass'),
+      failedNodes: countNodes(rootNode, (node) => node.status === 'fail'),
+      skippedNodes: countNodes(rootNode, (node) => node.status === 'skipped'),
+      evaluationDuration,
+      evaluatedAt,
+    },
+  }
+}
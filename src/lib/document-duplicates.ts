@@ -0,0 +1,55 @@
+// ============================================
+// Document Duplicates
+// Content hashes of uploads, matched against documents already on file
+// ============================================
+
+import type { Case, Document } from '@/types'
+
+export type DuplicateResolution = 'skip' | 'replace' | 'keep-both'
+
+export interface DocumentDuplicate {
+  caseId: string
+  caseTitle: string
+  document: Document
+  sameCase: boolean // in the case the file is being uploaded to
+}
+
+/**
+ * SHA-256 of a file's contents, hex encoded. Web Crypto is only available
+ * on secure origins, so callers should treat a rejection as "no hash".
+ */
+export async function hashFileContents(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Documents with the given content hash, those of the current case first
+ */
+export function findDuplicateDocuments(
+  contentHash: string,
+  cases: Pick<Case, 'id' | 'title' | 'documents'>[],
+  currentCaseId?: string | null
+): DocumentDuplicate[] {
+  return cases
+    .flatMap((caseData) =>
+      caseData.documents
+        .filter((doc) => doc.contentHash === contentHash)
+        .map((document) => ({
+          caseId: caseData.id,
+          caseTitle: caseData.title,
+          document,
+          sameCase: caseData.id === currentCaseId,
+        }))
+    )
+    .sort((a, b) => Number(b.sameCase) - Number(a.sameCase))
+}
+
+/**
+ * A case's documents after an upload: documents the reviewer chose to
+ * replace are dropped, and the uploaded ones are added after the rest
+ */
+export function mergeUploadedDocuments(existing: Document[], uploaded: Document[], replacedIds: string[]): Document[] {
+  const replaced = new Set(replacedIds)
+  return [...existing.filter((doc) => !replaced.has(doc.id)), ...uploaded]
+}
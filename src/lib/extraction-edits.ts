@@ -0,0 +1,91 @@
+// ============================================
+// Extraction Edits
+// Reviewer changes on the extraction page, kept for undo and redo
+// ============================================
+
+import { generateId } from './utils'
+import type { Case, Document, ExtractedField, ExtractedTable, ExtractionEdit, ExtractionEditKind } from '@/types'
+
+// Older changes are dropped once a case has this many to undo
+export const MAX_UNDO_STEPS = 50
+
+export type EditDirection = 'undo' | 'redo'
+
+export function createExtractionEdit(
+  caseId: string,
+  kind: ExtractionEditKind,
+  label: string,
+  changes: Partial<Pick<ExtractionEdit, 'fields' | 'documents' | 'tables'>>
+): ExtractionEdit {
+  return {
+    id: generateId('edit'),
+    caseId,
+    kind,
+    label,
+    fields: changes.fields ?? [],
+    documents: changes.documents ?? [],
+    tables: changes.tables ?? [],
+    createdAt: new Date().toISOString(),
+  }
+}
+
+function replaceById<T extends { id: string }>(items: T[], replacements: T[]): T[] {
+  const byId = new Map(replacements.map((item) => [item.id, item]))
+  return items.map((item) => byId.get(item.id) ?? item)
+}
+
+/**
+ * True when the case still holds the values the edit would move away from.
+ * Anything changed since by other means (a refetch, a rolled back save)
+ * makes the edit stale, and applying it would overwrite that change.
+ */
+export function canApplyExtractionEdit(caseData: Case, edit: ExtractionEdit, direction: EditDirection): boolean {
+  const expected = <T>(change: { before: T; after: T }) => (direction === 'undo' ? change.after : change.before)
+  const fields = new Map(caseData.extractedData.fields.map((f) => [f.id, f]))
+  const documents = new Map(caseData.documents.map((d) => [d.id, d]))
+  const tables = new Map((caseData.extractedData.tables ?? []).map((t) => [t.id, t]))
+
+  return (
+    edit.fields.every((change) => fields.get(change.after.id) === expected(change)) &&
+    edit.documents.every((change) => documents.get(change.after.id) === expected(change)) &&
+    edit.tables.every((change) => tables.get(change.after.id) === expected(change))
+  )
+}
+
+/**
+ * Case updates that undo or redo an edit, with a timeline entry for the audit trail
+ */
+export function applyExtractionEdit(
+  caseData: Case,
+  edit: ExtractionEdit,
+  direction: EditDirection,
+  actor: string
+): Pick<Case, 'extractedData' | 'documents' | 'timeline'> {
+  const pick = <T>(change: { before: T; after: T }) => (direction === 'undo' ? change.before : change.after)
+  const fields: ExtractedField[] = edit.fields.map(pick)
+  const documents: Document[] = edit.documents.map(pick)
+  const tables: ExtractedTable[] = edit.tables.map(pick)
+
+  return {
+    extractedData: {
+      ...caseData.extractedData,
+      fields: replaceById(caseData.extractedData.fields, fields),
+      ...(caseData.extractedData.tables && {
+        tables: replaceById(caseData.extractedData.tables, tables),
+      }),
+    },
+    documents: replaceById(caseData.documents, documents),
+    timeline: [
+      ...caseData.timeline,
+      {
+        id: generateId('timeline'),
+        type: 'field-update',
+        date: new Date().toISOString(),
+        title: direction === 'undo' ? 'Change Undone' : 'Change Redone',
+        detail: edit.label,
+        link: '/extraction',
+        metadata: { actor, editId: edit.id, kind: edit.kind },
+      },
+    ],
+  }
+}
@@ -0,0 +1,157 @@
+// ============================================
+// Extraction Schemas
+// The fields expected for each case type and document class
+// ============================================
+
+import type { CaseType, DocumentClassType, ExtractedField } from '@/types'
+import type { FieldKind } from './field-types'
+
+export interface FieldDefinition {
+  label: string
+  kind: FieldKind
+}
+
+export interface SchemaGroup {
+  id: string
+  name: string
+}
+
+export interface SchemaField extends FieldDefinition {
+  name: string
+  group: string // SchemaGroup id
+  isRequired: boolean
+  order: number // position within the group
+}
+
+export interface ExtractionSchema {
+  groups: SchemaGroup[] // in display order
+  fields: SchemaField[] // grouped, in display order
+}
+
+type SchemaEntry = Omit<SchemaField, keyof FieldDefinition>
+
+// ============================================
+// Registry
+// ============================================
+
+// Every field the extraction pipeline produces, keyed by `ExtractedField.name`
+export const fieldDefinitions: Record<string, FieldDefinition> = {
+  claimantName: { label: 'Claimant Name', kind: 'name' },
+  address: { label: 'Address', kind: 'address' },
+  dateOfBirth: { label: 'Date of Birth', kind: 'date' },
+  idNumber: { label: 'ID Number', kind: 'text' },
+  claimAmount: { label: 'Claim Amount', kind: 'currency' },
+  treatmentDate: { label: 'Treatment Date', kind: 'date' },
+  diagnosisCode: { label: 'Diagnosis Code', kind: 'icd10' },
+  provider: { label: 'Healthcare Provider', kind: 'name' },
+  policyNumber: { label: 'Policy Number', kind: 'policyNumber' },
+  policyStartDate: { label: 'Policy Start Date', kind: 'date' },
+  policyEndDate: { label: 'Policy End Date', kind: 'date' },
+  vendorName: { label: 'Vendor', kind: 'name' },
+  invoiceNumber: { label: 'Invoice Number', kind: 'text' },
+  invoiceDate: { label: 'Invoice Date', kind: 'date' },
+  totalAmount: { label: 'Total Amount', kind: 'currency' },
+}
+
+// Fields not in a schema are shown under the last group
+export const OTHER_GROUP_ID = 'other'
+
+export const schemaGroups: SchemaGroup[] = [
+  { id: 'claimant', name: 'Claimant Information' },
+  { id: 'claim', name: 'Claim Details' },
+  { id: 'provider', name: 'Provider Information' },
+  { id: 'policy', name: 'Policy Details' },
+  { id: 'billing', name: 'Billing' },
+  { id: OTHER_GROUP_ID, name: 'Other Fields' },
+]
+
+export const caseTypeSchemas: Record<CaseType, SchemaEntry[]> = {
+  insurance: [
+    { name: 'claimantName', group: 'claimant', isRequired: true, order: 1 },
+    { name: 'address', group: 'claimant', isRequired: false, order: 2 },
+    { name: 'claimAmount', group: 'claim', isRequired: true, order: 1 },
+    { name: 'policyNumber', group: 'policy', isRequired: true, order: 1 },
+  ],
+  finance: [
+    { name: 'claimantName', group: 'claimant', isRequired: true, order: 1 },
+    { name: 'address', group: 'claimant', isRequired: true, order: 2 },
+    { name: 'totalAmount', group: 'billing', isRequired: true, order: 4 },
+  ],
+  compliance: [
+    { name: 'claimantName', group: 'claimant', isRequired: true, order: 1 },
+    { name: 'address', group: 'claimant', isRequired: false, order: 2 },
+  ],
+}
+
+export const documentClassSchemas: Record<DocumentClassType, SchemaEntry[]> = {
+  identity: [
+    { name: 'claimantName', group: 'claimant', isRequired: true, order: 1 },
+    { name: 'dateOfBirth', group: 'claimant', isRequired: true, order: 3 },
+    { name: 'idNumber', group: 'claimant', isRequired: true, order: 4 },
+  ],
+  medical: [
+    { name: 'treatmentDate', group: 'claim', isRequired: true, order: 2 },
+    { name: 'diagnosisCode', group: 'claim', isRequired: false, order: 3 },
+    { name: 'provider', group: 'provider', isRequired: true, order: 1 },
+  ],
+  receipt: [
+    { name: 'vendorName', group: 'billing', isRequired: false, order: 1 },
+    { name: 'invoiceDate', group: 'billing', isRequired: false, order: 3 },
+    { name: 'totalAmount', group: 'billing', isRequired: false, order: 4 },
+  ],
+  policy: [
+    { name: 'policyNumber', group: 'policy', isRequired: true, order: 1 },
+    { name: 'policyStartDate', group: 'policy', isRequired: false, order: 2 },
+    { name: 'policyEndDate', group: 'policy', isRequired: false, order: 3 },
+  ],
+  invoice: [
+    { name: 'vendorName', group: 'billing', isRequired: true, order: 1 },
+    { name: 'invoiceNumber', group: 'billing', isRequired: true, order: 2 },
+    { name: 'invoiceDate', group: 'billing', isRequired: true, order: 3 },
+    { name: 'totalAmount', group: 'billing', isRequired: true, order: 4 },
+  ],
+  unknown: [],
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+function isDocumentClass(type: string): type is DocumentClassType {
+  return type in documentClassSchemas
+}
+
+/**
+ * Schema for a case: the fields of its case type plus those of every class
+ * among its documents. A field required by any of them is required.
+ */
+export function getExtractionSchema(caseType: CaseType, documentClasses: string[] = []): ExtractionSchema {
+  const entries = [
+    ...caseTypeSchemas[caseType],
+    ...documentClasses.filter(isDocumentClass).flatMap((type) => documentClassSchemas[type]),
+  ]
+
+  const byName = new Map<string, SchemaField>()
+  for (const entry of entries) {
+    const existing = byName.get(entry.name)
+    byName.set(entry.name, {
+      ...fieldDefinitions[entry.name],
+      ...(existing ?? entry),
+      isRequired: entry.isRequired || !!existing?.isRequired,
+    })
+  }
+
+  const groupIndex = (id: string) => schemaGroups.findIndex((group) => group.id === id)
+  const fields = [...byName.values()].sort(
+    (a, b) => groupIndex(a.group) - groupIndex(b.group) || a.order - b.order
+  )
+  return { groups: schemaGroups, fields }
+}
+
+/**
+ * Required schema fields the extraction did not produce
+ */
+export function findMissingFields(schema: ExtractionSchema, fields: ExtractedField[]): SchemaField[] {
+  const extracted = new Set(fields.map((field) => field.name))
+  return schema.fields.filter((field) => field.isRequired && !extracted.has(field.name))
+}
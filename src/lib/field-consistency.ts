@@ -0,0 +1,61 @@
+// ============================================
+// Cross-Document Consistency
+// Compares the values a field was read with on each document
+// ============================================
+
+import {
+  deriveFieldStatus,
+  getFieldKind,
+  hasConflictingCandidates,
+  validateFieldValue,
+} from './field-types'
+import { withRevision } from './field-history'
+import type { ExtractedData, ExtractedField, FieldCandidate } from '@/types'
+
+export interface FieldConflict {
+  field: ExtractedField
+  candidates: FieldCandidate[]
+  resolved: boolean
+}
+
+/**
+ * Fields whose candidates disagree, including ones a reviewer already resolved
+ */
+export function findFieldConflicts(data: ExtractedData): FieldConflict[] {
+  return data.fields.filter(hasConflictingCandidates).map((field) => ({
+    field,
+    candidates: field.candidates ?? [],
+    resolved: !!field.resolution,
+  }))
+}
+
+/**
+ * Use the candidate read from `documentId` as the field's value and record
+ * the choice in the field's history. The value is normalised the same way
+ * as a manual edit.
+ */
+export function resolveFieldConflict(
+  field: ExtractedField,
+  documentId: string,
+  resolvedBy: string
+): ExtractedField {
+  const candidate = field.candidates?.find((c) => c.documentId === documentId)
+  if (!candidate) {
+    throw new Error(`${field.label} has no value from document ${documentId}`)
+  }
+
+  const result = validateFieldValue(getFieldKind(field.name), candidate.value)
+  const resolvedAt = new Date().toISOString()
+  const resolved: ExtractedField = {
+    ...field,
+    value: result.valid ? result.value : candidate.value,
+    confidence: candidate.confidence,
+    source: candidate.source,
+    manuallyEdited: true,
+    originalValue: field.manuallyEdited ? field.originalValue : field.value,
+    editedBy: resolvedBy,
+    editedAt: resolvedAt,
+    resolution: { documentId, resolvedBy, resolvedAt },
+  }
+  return withRevision(field, { ...resolved, status: deriveFieldStatus(resolved) }, 'conflict-resolution')
+}
@@ -0,0 +1,104 @@
+// ============================================
+// Field Revision History
+// Every value an extracted field has held, oldest first
+// ============================================
+
+import { generateId } from './utils'
+import type { ExtractedField, FieldRevision, FieldRevisionKind } from '@/types'
+
+export const EXTRACTION_ACTOR = 'AI Extraction'
+
+export type DiffSegment = { type: 'same' | 'added' | 'removed'; text: string }
+
+/**
+ * A field's revisions. Fields saved before history was recorded only keep
+ * `originalValue`/`editedBy`, so their extraction and latest edit are
+ * reconstructed from those.
+ */
+export function getFieldRevisions(field: ExtractedField): FieldRevision[] {
+  if (field.history && field.history.length > 0) return field.history
+
+  const extracted: FieldRevision = {
+    id: `${field.id}-extraction`,
+    kind: 'extraction',
+    value: field.manuallyEdited && field.originalValue !== undefined ? field.originalValue : field.value,
+    confidence: field.confidence,
+    editedBy: EXTRACTION_ACTOR,
+  }
+  if (!field.manuallyEdited) return [extracted]
+
+  return [
+    extracted,
+    {
+      id: `${field.id}-edit`,
+      kind: field.resolution ? 'conflict-resolution' : 'edit',
+      value: field.value,
+      confidence: field.confidence,
+      editedBy: field.editedBy ?? 'Unknown',
+      editedAt: field.editedAt,
+    },
+  ]
+}
+
+/**
+ * Record `next` as a new revision on top of `previous`'s history
+ */
+export function withRevision(
+  previous: ExtractedField,
+  next: ExtractedField,
+  kind: FieldRevisionKind,
+  details: { reason?: string; revertedFrom?: string; editedBy?: string } = {}
+): ExtractedField {
+  const revision: FieldRevision = {
+    id: generateId('rev'),
+    kind,
+    value: next.value,
+    confidence: next.confidence,
+    editedBy: details.editedBy ?? next.editedBy ?? 'Unknown',
+    editedAt: next.editedAt,
+    ...(details.reason?.trim() && { reason: details.reason.trim() }),
+    ...(details.revertedFrom && { revertedFrom: details.revertedFrom }),
+  }
+  return { ...next, history: [...getFieldRevisions(previous), revision] }
+}
+
+/**
+ * Word-level diff between two values, as runs of unchanged, added and
+ * removed text
+ */
+export function diffValues(before: unknown, after: unknown): DiffSegment[] {
+  const a = String(before ?? '').split(/(\s+)/).filter(Boolean)
+  const b = String(after ?? '').split(/(\s+)/).filter(Boolean)
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const segments: DiffSegment[] = []
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1]
+    if (last?.type === type) last.text += text
+    else segments.push({ type, text })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i++])
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  return segments
+}
@@ -0,0 +1,323 @@
+// ============================================
+// Extracted Field Types
+// Validates and normalises values entered for extracted fields
+// ============================================
+
+import { withRevision } from './field-history'
+import { fieldDefinitions } from './extraction-schemas'
+import { DEFAULT_CONFIDENCE_THRESHOLDS } from './confidence-thresholds'
+import type {
+  ConfidenceThresholds,
+  ExtractedField,
+  FieldReextractionResponse,
+  FieldRevision,
+  FieldStatus,
+} from '@/types'
+
+export type FieldKind = 'date' | 'currency' | 'policyNumber' | 'icd10' | 'name' | 'address' | 'text'
+
+export type FieldValidation =
+  | { valid: true; value: string | number; display: string }
+  | { valid: false; error: string }
+
+export function getFieldKind(name: string): FieldKind {
+  return fieldDefinitions[name]?.kind ?? 'text'
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+
+const valid = (value: string | number, display: string = String(value)): FieldValidation => ({
+  valid: true,
+  value,
+  display,
+})
+
+const invalid = (error: string): FieldValidation => ({ valid: false, error })
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+function monthIndex(name: string): number {
+  const lower = name.toLowerCase()
+  return lower.length >= 3 ? MONTHS.findIndex((month) => month.startsWith(lower)) : -1
+}
+
+// ============================================
+// Validators
+// ============================================
+
+/**
+ * Year, month (1-12) and day from ISO (2024-01-15), US (01/15/2024)
+ * or written (January 15, 2024 or 15 Jan 2024) dates
+ */
+function parseDateParts(input: string): [number, number, number] | null {
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(input)
+  if (match) return [Number(match[1]), Number(match[2]), Number(match[3])]
+
+  match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(input)
+  if (match) return [Number(match[3]), Number(match[1]), Number(match[2])]
+
+  match = /^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i.exec(input)
+  if (match) return [Number(match[3]), monthIndex(match[1]) + 1, Number(match[2])]
+
+  match = /^(\d{1,2})\s+([a-z]+)\.?,?\s+(\d{4})$/i.exec(input)
+  if (match) return [Number(match[3]), monthIndex(match[2]) + 1, Number(match[1])]
+
+  return null
+}
+
+/**
+ * Calendar date, normalised to ISO
+ */
+function validateDate(input: string): FieldValidation {
+  const parts = parseDateParts(input)
+  if (!parts) return invalid('Enter a date like 2024-01-15, 01/15/2024 or January 15, 2024')
+
+  const [year, month, day] = parts
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return invalid(`${input} is not a valid calendar date`)
+  }
+  return valid(`${year}-${pad(month)}-${pad(day)}`)
+}
+
+/**
+ * Non-negative amount with at most two decimals; "$3,280.00" becomes 3280
+ */
+function validateCurrency(input: string): FieldValidation {
+  const cleaned = input.replace(/^\$/, '').replace(/,(?=\d{3}(\D|$))/g, '').trim()
+  if (!/^\d+(\.\d{1,2})?$/.test(cleaned)) {
+    return invalid('Enter an amount like 3280 or $3,280.00')
+  }
+  const amount = Number(cleaned)
+  return valid(
+    amount,
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+  )
+}
+
+/**
+ * Policy numbers look like POL-2024-08947; dashes and case are normalised
+ */
+function validatePolicyNumber(input: string): FieldValidation {
+  const match = /^([A-Z]{2,4})-?(\d{4})-?(\d{4,6})$/.exec(input.toUpperCase().replace(/\s+/g, ''))
+  if (!match) return invalid('Enter a policy number like POL-2024-08947')
+  return valid(`${match[1]}-${match[2]}-${match[3]}`)
+}
+
+/**
+ * ICD-10 code: letter, two characters, optional subcategory (E11, E11.9)
+ */
+function validateIcd10(input: string): FieldValidation {
+  const compact = input.toUpperCase().replace(/[\s.]/g, '')
+  const match = /^([A-Z]\d[0-9A-Z])([0-9A-Z]{1,4})?$/.exec(compact)
+  if (!match) return invalid('Enter an ICD-10 code like E11 or E11.9')
+  return valid(match[2] ? `${match[1]}.${match[2]}` : match[1])
+}
+
+/**
+ * Person or organisation name: letters, spaces and . ' - & ,
+ */
+function validateName(input: string): FieldValidation {
+  const collapsed = input.replace(/\s+/g, ' ')
+  if (!/^[\p{L}][\p{L} .'&,-]*$/u.test(collapsed) || collapsed.replace(/[^\p{L}]/gu, '').length < 2) {
+    return invalid('Names can only contain letters, spaces and . \' - & ,')
+  }
+  return valid(collapsed)
+}
+
+/**
+ * Free-form address that has at least a number and a street or place name
+ */
+function validateAddress(input: string): FieldValidation {
+  const collapsed = input.replace(/\s+/g, ' ')
+  if (collapsed.length < 5 || !/\d/.test(collapsed) || !/\p{L}{2,}/u.test(collapsed)) {
+    return invalid('Enter a full address including the street number')
+  }
+  return valid(collapsed)
+}
+
+const validators: Record<FieldKind, (input: string) => FieldValidation> = {
+  date: validateDate,
+  currency: validateCurrency,
+  policyNumber: validatePolicyNumber,
+  icd10: validateIcd10,
+  name: validateName,
+  address: validateAddress,
+  text: (input) => valid(input),
+}
+
+/**
+ * Validate a value for a field kind and return its normalised form
+ */
+export function validateFieldValue(kind: FieldKind, raw: unknown): FieldValidation {
+  const input = raw === null || raw === undefined ? '' : String(raw).trim()
+  if (input === '') return invalid('A value is required')
+  return validators[kind](input)
+}
+
+/**
+ * Display form of a stored field value; values that do not validate are
+ * shown as they are
+ */
+export function formatFieldValue(name: string, value: unknown): string {
+  const result = validateFieldValue(getFieldKind(name), value)
+  return result.valid ? result.display : String(value ?? '')
+}
+
+// ============================================
+// Field Status
+// ============================================
+
+/**
+ * Form used to compare candidates: normalised for the field's kind, then
+ * case, spacing and punctuation are ignored ("POL 2024 08947" matches
+ * "POL-2024-08947", "John A. Smith" does not match "Jon Smith").
+ */
+export function comparableValue(fieldName: string, value: unknown): string {
+  const result = validateFieldValue(getFieldKind(fieldName), value)
+  const normalized = result.valid ? result.value : value
+  return String(normalized ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, '')
+}
+
+/**
+ * True when a field's candidates disagree
+ */
+export function hasConflictingCandidates(field: ExtractedField): boolean {
+  const values = new Set((field.candidates ?? []).map((c) => comparableValue(field.name, c.value)))
+  return values.size > 1
+}
+
+/**
+ * Derive a field's review status. A value that does not validate always
+ * needs review; a validated manual edit or a reviewer's accept stands; an
+ * unresolved conflict between documents needs review; otherwise the
+ * extraction confidence decides, against the field's thresholds.
+ *
+ * The stored status was judged against the thresholds in force when the
+ * field last changed, so status shown or gated on is derived with the
+ * current thresholds instead.
+ */
+export function deriveFieldStatus(
+  field: ExtractedField,
+  thresholds: ConfidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS
+): FieldStatus {
+  if (!validateFieldValue(getFieldKind(field.name), field.value).valid) return 'review-required'
+  if (field.manuallyEdited || field.acceptedBy) return 'auto-accepted'
+  if (!field.resolution && hasConflictingCandidates(field)) return 'review-required'
+  if (field.confidence >= thresholds.high) return 'auto-accepted'
+  if (field.confidence >= thresholds.medium) return 'review-suggested'
+  return 'review-required'
+}
+
+/**
+ * Apply a reviewer's edit to an extracted field and record it in the
+ * field's history. Invalid input is rejected with a message suitable for
+ * showing next to the input.
+ */
+export function applyFieldEdit(
+  field: ExtractedField,
+  raw: unknown,
+  editedBy?: string,
+  reason?: string
+): { field: ExtractedField; error?: undefined } | { field?: undefined; error: string } {
+  const result = validateFieldValue(getFieldKind(field.name), raw)
+  if (!result.valid) return { error: result.error }
+
+  const edited: ExtractedField = {
+    ...field,
+    value: result.value,
+    manuallyEdited: true,
+    originalValue: field.manuallyEdited ? field.originalValue : field.value,
+    editedBy: editedBy ?? field.editedBy,
+    editedAt: new Date().toISOString(),
+  }
+  return { field: withRevision(field, { ...edited, status: deriveFieldStatus(edited) }, 'edit', { reason }) }
+}
+
+/**
+ * True while a field is waiting for a reviewer under the given thresholds.
+ * Flagged fields have been looked at and are handed on rather than held in
+ * the queue.
+ */
+export function needsReview(field: ExtractedField, thresholds?: ConfidenceThresholds): boolean {
+  return deriveFieldStatus(field, thresholds) !== 'auto-accepted' && !field.flag
+}
+
+/**
+ * Confirm a field's extracted value as it is, clearing any flag. Values that
+ * do not validate cannot be accepted, so null is returned for them.
+ */
+export function acceptField(field: ExtractedField, acceptedBy: string): ExtractedField | null {
+  if (!validateFieldValue(getFieldKind(field.name), field.value).valid) return null
+  return { ...field, status: 'auto-accepted', acceptedBy, flag: undefined }
+}
+
+/**
+ * Flag a field whose value the reviewer could not confirm
+ */
+export function flagField(field: ExtractedField, flaggedBy: string, note?: string): ExtractedField {
+  return { ...field, flag: { flaggedBy, flaggedAt: new Date().toISOString(), ...(note && { note }) } }
+}
+
+/**
+ * Restore the value and confidence a field had at an earlier revision. The
+ * revert is itself a new revision, so nothing is lost. A conflict
+ * resolution no longer applies once its value has been reverted.
+ */
+export function revertFieldToRevision(
+  field: ExtractedField,
+  revision: FieldRevision,
+  revertedBy: string,
+  reason?: string
+): ExtractedField {
+  const reverted: ExtractedField = {
+    ...field,
+    value: revision.value,
+    confidence: revision.confidence,
+    manuallyEdited: true,
+    originalValue: field.manuallyEdited ? field.originalValue : field.value,
+    editedBy: revertedBy,
+    editedAt: new Date().toISOString(),
+    resolution: undefined,
+  }
+  return withRevision(field, { ...reverted, status: deriveFieldStatus(reverted) }, 'revert', {
+    reason,
+    revertedFrom: revision.id,
+  })
+}
+
+/**
+ * Take the value read again from the document. The result replaces any
+ * manual edit, so the field is judged on its new confidence.
+ */
+export function applyReextraction(
+  field: ExtractedField,
+  result: FieldReextractionResponse,
+  requestedBy: string,
+  thresholds?: ConfidenceThresholds
+): ExtractedField {
+  const validation = validateFieldValue(getFieldKind(field.name), result.value)
+  const reextracted: ExtractedField = {
+    ...field,
+    value: validation.valid ? validation.value : result.value,
+    confidence: result.confidence,
+    source: result.source,
+    manuallyEdited: false,
+    originalValue: undefined,
+    editedBy: undefined,
+    editedAt: new Date().toISOString(),
+    resolution: undefined,
+    acceptedBy: undefined,
+    flag: undefined,
+  }
+  return withRevision(field, { ...reextracted, status: deriveFieldStatus(reextracted, thresholds) }, 're-extraction', {
+    editedBy: requestedBy,
+  })
+}
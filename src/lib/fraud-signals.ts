@@ -0,0 +1,110 @@
+// ============================================
+// Fraud Signals
+// Scores a case for duplicate and suspicious claim patterns.
+// The assessment is exposed to the rules engine as facts, so the
+// Fraud Detection rule decides what score needs review.
+// ============================================
+
+import { toDayTimestamp, toNumber } from './rules-engine'
+import type { Case, FraudAssessment, FraudRiskLevel, FraudSignal, FraudSignalKind } from '@/types'
+
+export type FraudScreeningInput = Pick<Case, 'id' | 'extractedData' | 'documents'>
+
+export const FRAUD_SIGNAL_WEIGHTS: Record<FraudSignalKind, number> = {
+  'duplicate-receipt': 60,
+  'duplicate-document': 50,
+  'early-claim': 30,
+  'round-amount': 15,
+}
+
+// Claims with treatment this soon after policy start are flagged
+export const EARLY_CLAIM_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function fieldValue(input: FraudScreeningInput, name: string): unknown {
+  return input.extractedData.fields.find((f) => f.name === name)?.value
+}
+
+function normalizeText(value: unknown): string {
+  return typeof value === 'string' ? value.trim().toLowerCase() : ''
+}
+
+function riskLevel(score: number): FraudRiskLevel {
+  if (score >= 70) return 'high'
+  if (score >= 40) return 'medium'
+  return 'low'
+}
+
+/**
+ * Same provider, treatment date and amount as another case
+ */
+function isDuplicateReceipt(input: FraudScreeningInput, other: FraudScreeningInput): boolean {
+  const provider = normalizeText(fieldValue(input, 'provider'))
+  const date = toDayTimestamp(fieldValue(input, 'treatmentDate'))
+  const amount = toNumber(fieldValue(input, 'claimAmount'))
+  if (!provider || date === null || amount === null) return false
+
+  return (
+    normalizeText(fieldValue(other, 'provider')) === provider &&
+    toDayTimestamp(fieldValue(other, 'treatmentDate')) === date &&
+    toNumber(fieldValue(other, 'claimAmount')) === amount
+  )
+}
+
+/**
+ * Amounts of 1000 or more that are a multiple of 500
+ */
+export function isRoundAmount(amount: number): boolean {
+  return amount >= 1000 && amount % 500 === 0
+}
+
+/**
+ * Screen a case against the other known cases. The case itself is ignored
+ * if it appears in `otherCases`.
+ */
+export function assessFraudRisk(input: FraudScreeningInput, otherCases: FraudScreeningInput[]): FraudAssessment {
+  const others = otherCases.filter((other) => other.id !== input.id)
+  const signals: FraudSignal[] = []
+  const signal = (kind: FraudSignalKind, description: string, relatedCaseId?: string) =>
+    signals.push({ kind, weight: FRAUD_SIGNAL_WEIGHTS[kind], description, relatedCaseId })
+
+  for (const other of others.filter((other) => isDuplicateReceipt(input, other))) {
+    signal('duplicate-receipt', `Same provider, treatment date and amount as ${other.id}`, other.id)
+  }
+
+  for (const doc of input.documents.filter((doc) => doc.contentHash)) {
+    const match = others.find((other) => other.documents.some((d) => d.contentHash === doc.contentHash))
+    if (match) {
+      signal('duplicate-document', `${doc.name} was also submitted with ${match.id}`, match.id)
+    }
+  }
+
+  const amount = toNumber(fieldValue(input, 'claimAmount'))
+  if (amount !== null && isRoundAmount(amount)) {
+    signal('round-amount', `Claimed amount ${amount} is a round figure`)
+  }
+
+  const start = toDayTimestamp(fieldValue(input, 'policyStartDate'))
+  const treatment = toDayTimestamp(fieldValue(input, 'treatmentDate'))
+  if (start !== null && treatment !== null) {
+    const days = Math.round((treatment - start) / DAY_MS)
+    if (days >= 0 && days < EARLY_CLAIM_DAYS) {
+      signal('early-claim', `Treatment ${days} day(s) after policy start`)
+    }
+  }
+
+  const score = Math.min(100, signals.reduce((sum, s) => sum + s.weight, 0))
+
+  return { score, level: riskLevel(score), signals, comparedCases: others.length }
+}
+
+/**
+ * Attach a fraud assessment to rule evaluation input
+ */
+export function withFraudAssessment<T extends FraudScreeningInput>(
+  input: T,
+  otherCases: FraudScreeningInput[]
+): T & { fraudAssessment: FraudAssessment } {
+  return { ...input, fraudAssessment: assessFraudRisk(input, otherCases) }
+}
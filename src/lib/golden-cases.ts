@@ -0,0 +1,258 @@
+// ============================================
+// Golden Case Regression Harness
+// Runs a rule set against saved cases with known outcomes.
+// Framework-free so it can run in the browser and headlessly in Node.
+// ============================================
+
+import { evaluateRules } from './rules-engine'
+import { computeDecision, getClaimAmount } from './decision-engine'
+import { getPolicyTerms } from './benefit-calculation'
+import { withFraudAssessment } from './fraud-signals'
+import { mockDocuments, mockExtractedData } from './mock-data'
+import type {
+  Case,
+  Document,
+  GoldenCase,
+  GoldenCaseOutcome,
+  GoldenMismatch,
+  GoldenRunReport,
+  RuleSetVersion,
+} from '@/types'
+
+// ============================================
+// Golden Case Library
+// ============================================
+
+/**
+ * Build a saved case from the reference claim with some field values replaced
+ */
+function savedClaim(
+  id: string,
+  fieldValues: Record<string, unknown>,
+  documents: Document[] = mockDocuments
+): Case {
+  return {
+    id,
+    title: `Golden Case ${id}`,
+    status: 'completed',
+    type: 'insurance',
+    createdAt: '2024-01-27T14:32:00Z',
+    updatedAt: '2024-01-27T14:32:00Z',
+    slaDeadline: '2024-01-30T14:32:00Z',
+    documents,
+    extractedData: {
+      ...mockExtractedData,
+      fields: mockExtractedData.fields.map((field) =>
+        field.name in fieldValues ? { ...field, value: fieldValues[field.name] } : field
+      ),
+    },
+    ruleResults: [],
+    decision: null,
+    timeline: [],
+  }
+}
+
+export const goldenCaseLibrary: GoldenCase[] = [
+  {
+    id: 'golden-1',
+    name: 'Pre-existing condition deduction',
+    description: 'Reference claim: E11 diagnosis triggers the 15% exclusion',
+    case: savedClaim('GOLDEN-001', {}),
+    expected: {
+      ruleStatuses: {
+        'rule-1': 'pass',
+        'rule-2': 'fail',
+        'rule-3': 'pass',
+        'rule-4': 'pass',
+        'rule-5': 'pass',
+        'rule-6': 'pass',
+      },
+      decisionStatus: 'partial',
+      approvedAmount: 2788,
+    },
+  },
+  {
+    id: 'golden-2',
+    name: 'Clean claim approved in full',
+    case: savedClaim('GOLDEN-002', { diagnosisCode: 'J06.9' }),
+    expected: {
+      ruleStatuses: {
+        'rule-1': 'pass',
+        'rule-2': 'pass',
+        'rule-3': 'pass',
+        'rule-4': 'pass',
+        'rule-5': 'pass',
+        'rule-6': 'pass',
+      },
+      decisionStatus: 'approved',
+      approvedAmount: 3280,
+    },
+  },
+  {
+    id: 'golden-3',
+    name: 'Treatment after policy end',
+    case: savedClaim('GOLDEN-003', { diagnosisCode: 'J06.9', treatmentDate: '2024-07-10' }),
+    expected: {
+      ruleStatuses: { 'rule-1': 'fail', 'rule-6': 'pass' },
+      decisionStatus: 'rejected',
+      approvedAmount: 0,
+    },
+  },
+  {
+    id: 'golden-4',
+    name: 'Missing receipt',
+    case: savedClaim(
+      'GOLDEN-004',
+      { diagnosisCode: 'J06.9' },
+      mockDocuments.filter((doc) => doc.classification.type !== 'receipt')
+    ),
+    expected: {
+      ruleStatuses: { 'rule-3': 'fail' },
+      decisionStatus: 'rejected',
+    },
+  },
+  {
+    id: 'golden-5',
+    name: 'Amount above policy limit is capped',
+    case: savedClaim('GOLDEN-005', { diagnosisCode: 'J06.9', claimAmount: 12500 }),
+    expected: {
+      ruleStatuses: { 'rule-4': 'pass', 'rule-5': 'pass' },
+      decisionStatus: 'partial',
+      approvedAmount: 10000,
+    },
+  },
+  {
+    id: 'golden-6',
+    name: 'High-value claim soon after policy start',
+    case: savedClaim('GOLDEN-006', {
+      diagnosisCode: 'J06.9',
+      claimAmount: 8000,
+      policyStartDate: '2023-11-01',
+    }),
+    expected: {
+      ruleStatuses: { 'rule-5': 'warning', 'rule-6': 'pass' },
+      decisionStatus: 'approved',
+      approvedAmount: 8000,
+    },
+  },
+  {
+    id: 'golden-7',
+    name: 'Treatment inside waiting period',
+    case: savedClaim('GOLDEN-007', { diagnosisCode: 'J06.9', policyStartDate: '2024-01-01' }),
+    expected: {
+      ruleStatuses: { 'rule-1': 'pass', 'rule-6': 'fail' },
+      decisionStatus: 'rejected',
+    },
+  },
+]
+
+// ============================================
+// Runner
+// ============================================
+
+/**
+ * Evaluate one golden case and compare against its expectations.
+ * Rules that are evaluated but not listed in the expectations are ignored;
+ * expected rules missing from the rule set are reported.
+ */
+export function runGoldenCase(goldenCase: GoldenCase, ruleSet: RuleSetVersion): GoldenCaseOutcome {
+  const { expected } = goldenCase
+  // Golden cases are variants of one claim, so each is screened on its own
+  const ruleResults = evaluateRules(ruleSet.rules, withFraudAssessment(goldenCase.case, []))
+  const decision = computeDecision({
+    results: ruleResults,
+    rules: ruleSet.rules,
+    claimAmount: getClaimAmount(goldenCase.case.extractedData),
+    policy: getPolicyTerms(goldenCase.case.extractedData),
+  })
+
+  const base = { goldenCaseId: goldenCase.id, goldenCaseName: goldenCase.name }
+  const mismatches: GoldenMismatch[] = []
+
+  for (const [ruleId, expectedStatus] of Object.entries(expected.ruleStatuses)) {
+    const result = ruleResults.find((r) => r.id === ruleId)
+    if (!result) {
+      mismatches.push({
+        ...base,
+        kind: 'missing-rule',
+        subject: ruleId,
+        ruleId,
+        expected: expectedStatus,
+        actual: 'not evaluated',
+      })
+    } else if (result.status !== expectedStatus) {
+      mismatches.push({
+        ...base,
+        kind: 'rule-status',
+        subject: result.name,
+        ruleId,
+        expected: expectedStatus,
+        actual: result.status,
+      })
+    }
+  }
+
+  if (decision.status !== expected.decisionStatus) {
+    mismatches.push({
+      ...base,
+      kind: 'decision-status',
+      subject: 'Decision',
+      expected: expected.decisionStatus,
+      actual: decision.status,
+    })
+  }
+
+  if (expected.approvedAmount !== undefined && decision.approvedAmount !== expected.approvedAmount) {
+    mismatches.push({
+      ...base,
+      kind: 'approved-amount',
+      subject: 'Approved Amount',
+      expected: String(expected.approvedAmount),
+      actual: String(decision.approvedAmount),
+    })
+  }
+
+  return { ...base, passed: mismatches.length === 0, ruleResults, decision, mismatches }
+}
+
+/**
+ * Run every golden case against a rule set version
+ */
+export function runGoldenCases(goldenCases: GoldenCase[], ruleSet: RuleSetVersion): GoldenRunReport {
+  const start = Date.now()
+  const outcomes = goldenCases.map((goldenCase) => runGoldenCase(goldenCase, ruleSet))
+  const passed = outcomes.filter((outcome) => outcome.passed).length
+
+  return {
+    ruleSetVersionId: ruleSet.id,
+    ruleSetVersion: ruleSet.version,
+    ranAt: new Date().toISOString(),
+    duration: Date.now() - start,
+    total: outcomes.length,
+    passed,
+    failed: outcomes.length - passed,
+    outcomes,
+    mismatches: outcomes.flatMap((outcome) => outcome.mismatches),
+  }
+}
+
+/**
+ * Plain-text mismatch table for console output
+ */
+export function formatGoldenReport(report: GoldenRunReport): string {
+  const summary = `Rule set v${report.ruleSetVersion}: ${report.passed}/${report.total} golden cases passed`
+  if (report.mismatches.length === 0) return summary
+
+  const header = ['Case', 'Check', 'Expected', 'Actual']
+  const rows = report.mismatches.map((m) => [m.goldenCaseName, m.subject, m.expected, m.actual])
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)))
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join(' | ').trimEnd()
+
+  return [
+    summary,
+    '',
+    line(header),
+    widths.map((w) => '-'.repeat(w)).join('-|-'),
+    ...rows.map(line),
+  ].join('\n')
+}
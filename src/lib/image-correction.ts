@@ -0,0 +1,288 @@
+// ============================================
+// Image Correction
+// Rotation, deskew, crop and perspective correction of photographed
+// documents, applied in the browser before upload
+// ============================================
+
+import { detectSkewAngle, type PageImage } from './image-quality'
+
+export type QuarterTurn = 0 | 90 | 180 | 270
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/** Corners of the page in the source image: top-left, top-right, bottom-right, bottom-left */
+export type Quad = [Point, Point, Point, Point]
+
+export interface ImageCorrection {
+  /** Page corners in source pixels; a rectangle is a plain crop */
+  corners: Quad
+  rotation: QuarterTurn
+  /** Fine rotation in degrees, clockwise, applied after the quarter turns */
+  deskewAngle: number
+}
+
+/** Pixels of an image, as read from or written to a canvas */
+export interface Pixels {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+export const MAX_DESKEW_DEGREES = 15
+const JPEG_QUALITY = 0.92
+const PAPER = 255
+
+export function fullFrame(width: number, height: number): Quad {
+  return [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ]
+}
+
+export function noCorrection(width: number, height: number): ImageCorrection {
+  return { corners: fullFrame(width, height), rotation: 0, deskewAngle: 0 }
+}
+
+export function isRectangle([topLeft, topRight, bottomRight, bottomLeft]: Quad): boolean {
+  return (
+    topLeft.y === topRight.y &&
+    bottomLeft.y === bottomRight.y &&
+    topLeft.x === bottomLeft.x &&
+    topRight.x === bottomRight.x
+  )
+}
+
+/** The smallest rectangle around the corners, for switching back to cropping */
+export function boundingRectangle(corners: Quad): Quad {
+  const xs = corners.map((corner) => corner.x)
+  const ys = corners.map((corner) => corner.y)
+  const left = Math.min(...xs)
+  const top = Math.min(...ys)
+  const right = Math.max(...xs)
+  const bottom = Math.max(...ys)
+  return [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: right, y: bottom },
+    { x: left, y: bottom },
+  ]
+}
+
+/**
+ * Move one corner. In crop mode the neighbouring corners follow, so the
+ * corners stay a rectangle.
+ */
+export function moveCorner(corners: Quad, index: number, to: Point, keepRectangle: boolean): Quad {
+  const next = corners.map((corner) => ({ ...corner })) as Quad
+  next[index] = to
+  if (keepRectangle) {
+    // Corners 0-1 and 2-3 share a row; corners 0-3 and 1-2 share a column
+    const sameRow = index ^ 1
+    const sameColumn = 3 - index
+    next[sameRow].y = to.y
+    next[sameColumn].x = to.x
+  }
+  return next
+}
+
+export function scaleCorrection(correction: ImageCorrection, scale: number): ImageCorrection {
+  return {
+    ...correction,
+    corners: correction.corners.map(({ x, y }) => ({ x: x * scale, y: y * scale })) as Quad,
+  }
+}
+
+// ============================================
+// Perspective
+// ============================================
+
+/** Size of the straightened page: the longer of each pair of opposite sides */
+export function correctedSize([topLeft, topRight, bottomRight, bottomLeft]: Quad): { width: number; height: number } {
+  const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y)
+  return {
+    width: Math.max(1, Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)))),
+    height: Math.max(1, Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)))),
+  }
+}
+
+/**
+ * Projective mapping from the unit square onto the corners (Heckbert's
+ * square-to-quad). Returns the source point for a position (u, v) in 0..1.
+ */
+export function squareToQuad(corners: Quad): (u: number, v: number) => Point {
+  const [p0, p1, p2, p3] = corners
+  const dx1 = p1.x - p2.x
+  const dx2 = p3.x - p2.x
+  const dx3 = p0.x - p1.x + p2.x - p3.x
+  const dy1 = p1.y - p2.y
+  const dy2 = p3.y - p2.y
+  const dy3 = p0.y - p1.y + p2.y - p3.y
+
+  const denominator = dx1 * dy2 - dx2 * dy1
+  // A parallelogram needs no perspective terms
+  const g = dx3 === 0 && dy3 === 0 ? 0 : (dx3 * dy2 - dx2 * dy3) / denominator
+  const h = dx3 === 0 && dy3 === 0 ? 0 : (dx1 * dy3 - dx3 * dy1) / denominator
+  const a = p1.x - p0.x + g * p1.x
+  const b = p3.x - p0.x + h * p3.x
+  const d = p1.y - p0.y + g * p1.y
+  const e = p3.y - p0.y + h * p3.y
+
+  return (u, v) => {
+    const w = g * u + h * v + 1
+    return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w }
+  }
+}
+
+/**
+ * The page inside the corners, straightened to a rectangle with bilinear
+ * sampling. Points outside the source come out as white paper.
+ */
+export function warpPerspective(source: Pixels, corners: Quad): Pixels {
+  const { width, height } = correctedSize(corners)
+  const map = squareToQuad(corners)
+  const data = new Uint8ClampedArray(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const point = map((x + 0.5) / width, (y + 0.5) / height)
+      const sx = point.x - 0.5
+      const sy = point.y - 0.5
+      const x0 = Math.floor(sx)
+      const y0 = Math.floor(sy)
+      const fx = sx - x0
+      const fy = sy - y0
+      const out = (y * width + x) * 4
+
+      for (let channel = 0; channel < 4; channel++) {
+        const sample = (px: number, py: number) =>
+          px < 0 || py < 0 || px >= source.width || py >= source.height
+            ? PAPER
+            : source.data[(py * source.width + px) * 4 + channel]
+        const top = sample(x0, y0) * (1 - fx) + sample(x0 + 1, y0) * fx
+        const bottom = sample(x0, y0 + 1) * (1 - fx) + sample(x0 + 1, y0 + 1) * fx
+        data[out + channel] = top * (1 - fy) + bottom * fy
+      }
+    }
+  }
+  return { width, height, data }
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width))
+  canvas.height = Math.max(1, Math.round(height))
+  return canvas
+}
+
+function context2d(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) throw new Error('Canvas is not available')
+  return context
+}
+
+/** Corners applied: a crop is drawn directly, anything else is warped */
+function straighten(source: HTMLCanvasElement, corners: Quad): HTMLCanvasElement {
+  if (isRectangle(corners)) {
+    const [topLeft, , bottomRight] = boundingRectangle(corners)
+    const canvas = createCanvas(bottomRight.x - topLeft.x, bottomRight.y - topLeft.y)
+    context2d(canvas).drawImage(
+      source,
+      topLeft.x,
+      topLeft.y,
+      bottomRight.x - topLeft.x,
+      bottomRight.y - topLeft.y,
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    )
+    return canvas
+  }
+
+  const pixels = context2d(source).getImageData(0, 0, source.width, source.height)
+  const warped = warpPerspective(pixels, corners)
+  const output = new ImageData(warped.width, warped.height)
+  output.data.set(warped.data)
+  const canvas = createCanvas(warped.width, warped.height)
+  context2d(canvas).putImageData(output, 0, 0)
+  return canvas
+}
+
+/** Quarter turns and deskew together; the canvas grows to fit and the corners are white */
+function rotate(source: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+  if (degrees % 360 === 0) return source
+  const radians = (degrees * Math.PI) / 180
+  const cos = Math.abs(Math.cos(radians))
+  const sin = Math.abs(Math.sin(radians))
+  const canvas = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos)
+  const context = context2d(canvas)
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.translate(canvas.width / 2, canvas.height / 2)
+  context.rotate(radians)
+  context.drawImage(source, -source.width / 2, -source.height / 2)
+  return canvas
+}
+
+/**
+ * Draw an image with a correction applied. `scale` shrinks the source
+ * first, for previews; the corners are in unscaled source pixels.
+ */
+export function renderCorrection(
+  source: CanvasImageSource & { width: number; height: number },
+  correction: ImageCorrection,
+  scale = 1
+): HTMLCanvasElement {
+  const canvas = createCanvas(source.width * scale, source.height * scale)
+  context2d(canvas).drawImage(source, 0, 0, canvas.width, canvas.height)
+  const { corners } = scaleCorrection(correction, scale)
+  return rotate(straighten(canvas, corners), correction.rotation + correction.deskewAngle)
+}
+
+/**
+ * Deskew angle that straightens the text after the corners are applied,
+ * measured at the scale given
+ */
+export function suggestDeskewAngle(
+  source: CanvasImageSource & { width: number; height: number },
+  corners: Quad,
+  scale = 1
+): number {
+  const canvas = renderCorrection(source, { corners, rotation: 0, deskewAngle: 0 }, scale)
+  const { data } = context2d(canvas).getImageData(0, 0, canvas.width, canvas.height)
+  const image: PageImage = { page: 1, width: canvas.width, height: canvas.height, data }
+  return -detectSkewAngle(image)
+}
+
+// Formats canvases cannot write are saved as JPEG
+function outputType(file: File): string {
+  return file.type === 'image/png' || file.type === 'image/webp' ? file.type : 'image/jpeg'
+}
+
+/**
+ * The corrected image as a new file, named and typed like the original
+ * where the browser can write that format
+ */
+export async function correctImageFile(file: File, correction: ImageCorrection): Promise<File> {
+  const bitmap = await createImageBitmap(file)
+  try {
+    const canvas = renderCorrection(bitmap, correction)
+    const type = outputType(file)
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, JPEG_QUALITY))
+    if (!blob) throw new Error('The corrected image could not be encoded')
+
+    const name = type === file.type ? file.name : file.name.replace(/\.[^.]*$/, '') + '.jpg'
+    return new File([blob], name, { type, lastModified: Date.now() })
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,349 @@
+// ============================================
+// Image Quality Analysis
+// Resolution, blur, skew, exposure and blank-page checks on page pixels,
+// run in the browser before a document is uploaded
+// ============================================
+
+import type { CheckStatus, Document, DocumentQuality, DocumentQualityCheck } from '@/types'
+
+/** RGBA pixels of one page, as read from a canvas */
+export interface PageImage {
+  page: number
+  width: number
+  height: number
+  data: Uint8ClampedArray
+  /** Scan resolution, when it can be known; absent for rendered PDF pages */
+  dpi?: number
+}
+
+// Regions are reported in the 600px-wide page space the document viewers use
+const REGION_PAGE_WIDTH = 600
+const BLOCK_GRID = 8
+const MAX_SKEW_DEGREES = 15
+const SKEW_STEP_DEGREES = 0.25
+const MAX_SKEW_SAMPLES = 40000
+
+/** Checks that straightening or rotating the image can fix, by check id */
+export const CORRECTABLE_CHECK_IDS = ['skew']
+
+export function statusFromScore(score: number): CheckStatus {
+  if (score >= 70) return 'pass'
+  if (score >= 40) return 'warning'
+  return 'fail'
+}
+
+const severities: Record<CheckStatus, DocumentQualityCheck['severity']> = { pass: 'low', warning: 'medium', fail: 'high' }
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, Math.round(value)))
+
+function check(
+  id: string,
+  name: string,
+  score: number,
+  details: string,
+  recommendation?: string,
+  affectedRegions?: DocumentQualityCheck['affectedRegions']
+): DocumentQualityCheck {
+  const status = statusFromScore(score)
+  return {
+    id,
+    name,
+    status,
+    score,
+    severity: severities[status],
+    details,
+    ...(status !== 'pass' && recommendation && { recommendation }),
+    ...(affectedRegions && affectedRegions.length > 0 && { affectedRegions }),
+  }
+}
+
+// ============================================
+// Pixel Statistics
+// ============================================
+
+function toGrayscale({ width, height, data }: PageImage): Float32Array {
+  const gray = new Float32Array(width * height)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return gray
+}
+
+function percentile(histogram: number[], total: number, fraction: number): number {
+  let count = 0
+  for (let level = 0; level < histogram.length; level++) {
+    count += histogram[level]
+    if (count >= total * fraction) return level
+  }
+  return histogram.length - 1
+}
+
+interface PageStats {
+  dark: number // 5th percentile: the ink
+  light: number // 95th percentile: the paper
+  inkThreshold: number
+  inkFraction: number
+}
+
+function pageStats(gray: Float32Array): PageStats {
+  const histogram = new Array<number>(256).fill(0)
+  for (const value of gray) histogram[Math.round(value)]++
+
+  const dark = percentile(histogram, gray.length, 0.05)
+  const light = percentile(histogram, gray.length, 0.95)
+  // Ink is anything clearly darker than the paper
+  const inkThreshold = light - 60
+  let ink = 0
+  for (const value of gray) if (value < inkThreshold) ink++
+
+  return { dark, light, inkThreshold, inkFraction: ink / gray.length }
+}
+
+// ============================================
+// Checks
+// ============================================
+
+function resolutionCheck(dpi: number): DocumentQualityCheck {
+  return check(
+    'resolution',
+    'Resolution Check',
+    clampScore((dpi / 300) * 100),
+    `Estimated ${Math.round(dpi)} DPI${dpi >= 300 ? ', suitable for OCR' : '; 300 DPI is recommended'}`,
+    'Scan at 300 DPI or higher for best OCR results'
+  )
+}
+
+/**
+ * Sharpness as the variance of the Laplacian, measured in each block of an
+ * 8×8 grid that has text or other content in it. Blurry blocks are reported
+ * as affected regions.
+ */
+function blurCheck(image: PageImage, gray: Float32Array, stats: PageStats): DocumentQualityCheck {
+  const { width, height, page } = image
+  const blockWidth = Math.ceil(width / BLOCK_GRID)
+  const blockHeight = Math.ceil(height / BLOCK_GRID)
+  const blocks = Array.from({ length: BLOCK_GRID * BLOCK_GRID }, () => ({ sum: 0, sumSquares: 0, count: 0, ink: 0 }))
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i]
+      const block = blocks[Math.floor(y / blockHeight) * BLOCK_GRID + Math.floor(x / blockWidth)]
+      block.sum += laplacian
+      block.sumSquares += laplacian * laplacian
+      block.count++
+      if (gray[i] < stats.inkThreshold) block.ink++
+    }
+  }
+
+  const scale = REGION_PAGE_WIDTH / width
+  const measured = blocks
+    .map((block, index) => ({
+      variance: block.count > 0 ? block.sumSquares / block.count - (block.sum / block.count) ** 2 : 0,
+      hasContent: block.count > 0 && block.ink / block.count > 0.01,
+      region: {
+        page,
+        x: Math.round((index % BLOCK_GRID) * blockWidth * scale),
+        y: Math.round(Math.floor(index / BLOCK_GRID) * blockHeight * scale),
+        width: Math.round(blockWidth * scale),
+        height: Math.round(blockHeight * scale),
+      },
+    }))
+    .filter((block) => block.hasContent)
+
+  if (measured.length === 0) {
+    return check('blur', 'Blurriness Detection', 100, 'No text or content to assess')
+  }
+
+  const variance = measured.reduce((sum, block) => sum + block.variance, 0) / measured.length
+  const score = clampScore((variance / 400) * 100)
+  const blurry = measured.filter((block) => statusFromScore(clampScore((block.variance / 400) * 100)) === 'fail')
+
+  return check(
+    'blur',
+    'Blurriness Detection',
+    score,
+    blurry.length > 0
+      ? `${blurry.length} of ${measured.length} content regions are blurry (Laplacian variance ${Math.round(variance)})`
+      : `Text edges are sharp (Laplacian variance ${Math.round(variance)})`,
+    'Re-scan the document with proper focus and higher resolution',
+    blurry.map((block) => block.region)
+  )
+}
+
+/**
+ * Skew by projection profile: text lines line up with the rows, and the row
+ * histogram of ink is most peaked, when the page is rotated back by the
+ * skew angle
+ */
+function estimateSkewAngle(image: PageImage, gray: Float32Array, inkThreshold: number): number {
+  const { width, height } = image
+  const points: Array<[number, number]> = []
+  const inkCount = gray.reduce((count, value) => (value < inkThreshold ? count + 1 : count), 0)
+  const stride = Math.max(1, Math.ceil(inkCount / MAX_SKEW_SAMPLES))
+
+  let seen = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] < inkThreshold && seen++ % stride === 0) points.push([x, y])
+    }
+  }
+  if (points.length === 0) return 0
+
+  const diagonal = Math.ceil(Math.hypot(width, height))
+  let bestAngle = 0
+  let bestScore = -1
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const radians = (angle * Math.PI) / 180
+    const sin = Math.sin(radians)
+    const cos = Math.cos(radians)
+    const rows = new Uint32Array(diagonal * 2)
+    for (const [x, y] of points) rows[Math.round(y * cos - x * sin) + diagonal]++
+    const score = rows.reduce((sum, count) => sum + count * count, 0)
+    if (score > bestScore) {
+      bestScore = score
+      bestAngle = angle
+    }
+  }
+  return bestAngle
+}
+
+/**
+ * Tilt of the text lines in degrees, positive when they run downhill to the
+ * right. Rotating the page by the negative angle straightens it.
+ */
+export function detectSkewAngle(image: PageImage): number {
+  const gray = toGrayscale(image)
+  return estimateSkewAngle(image, gray, pageStats(gray).inkThreshold)
+}
+
+function skewCheck(image: PageImage, gray: Float32Array, stats: PageStats): DocumentQualityCheck {
+  const angle = estimateSkewAngle(image, gray, stats.inkThreshold)
+  const tilt = Math.abs(angle)
+  return check(
+    'skew',
+    'Skew Angle',
+    clampScore(100 - Math.max(0, tilt - 0.5) * 15),
+    tilt <= 0.5 ? 'Text lines are straight' : `Page is tilted by about ${tilt.toFixed(1)}°`,
+    'Straighten the page on the scanner bed or re-photograph it square-on'
+  )
+}
+
+function exposureCheck(stats: PageStats): DocumentQualityCheck {
+  const contrast = stats.light - stats.dark
+  const details =
+    stats.light < 140
+      ? `Under-exposed: the paper is dark grey (level ${stats.light} of 255)`
+      : stats.dark > 120
+        ? `Over-exposed: text is washed out (darkest level ${stats.dark} of 255)`
+        : `Good contrast between text and paper (${contrast} levels)`
+  return check(
+    'exposure',
+    'Exposure',
+    clampScore((contrast / 160) * 100),
+    details,
+    'Scan with even lighting, or adjust the scanner brightness'
+  )
+}
+
+// Almost no ink and almost no variation: nothing on the page
+function isBlankPage(stats: PageStats): boolean {
+  return stats.inkFraction < 0.002 && stats.light - stats.dark < 30
+}
+
+/**
+ * Quality checks for one page. Pixel checks are skipped on a blank page,
+ * where they have nothing to measure.
+ */
+export function analysePage(image: PageImage): DocumentQualityCheck[] {
+  const gray = toGrayscale(image)
+  const stats = pageStats(gray)
+  const resolution = image.dpi !== undefined ? [resolutionCheck(image.dpi)] : []
+
+  if (isBlankPage(stats)) {
+    return [
+      ...resolution,
+      check(
+        'blank-page',
+        'Blank Page Detection',
+        0,
+        'Page appears to be blank',
+        'Remove blank pages or scan the missing content'
+      ),
+    ]
+  }
+
+  return [
+    ...resolution,
+    blurCheck(image, gray, stats),
+    skewCheck(image, gray, stats),
+    exposureCheck(stats),
+    check('blank-page', 'Blank Page Detection', 100, 'Page has content'),
+  ]
+}
+
+// ============================================
+// Document Result
+// ============================================
+
+/**
+ * One result per check for a whole document: the worst page counts, and
+ * blurry regions of every page are kept. Blank pages among others are a
+ * warning; a document with nothing but blank pages fails.
+ */
+export function combinePageChecks(pages: DocumentQualityCheck[][]): DocumentQualityCheck[] {
+  const multiPage = pages.length > 1
+  const ids = Array.from(new Set(pages.flatMap((checks) => checks.map((c) => c.id))))
+
+  return ids.map((id) => {
+    const perPage = pages.flatMap((checks, index) => {
+      const found = checks.find((c) => c.id === id)
+      return found ? [{ page: index + 1, check: found }] : []
+    })
+    const worst = perPage.reduce((a, b) => (b.check.score < a.check.score ? b : a))
+    const regions = perPage.flatMap(({ check: c }) => c.affectedRegions ?? [])
+
+    if (id === 'blank-page' && multiPage) {
+      const blank = perPage.filter(({ check: c }) => c.status === 'fail').map(({ page }) => page)
+      if (blank.length === 0) return { ...worst.check, details: 'Every page has content' }
+      const score = blank.length === pages.length ? 0 : 50
+      return check(
+        id,
+        worst.check.name,
+        score,
+        `${blank.length > 1 ? 'Pages' : 'Page'} ${blank.join(', ')} ${blank.length > 1 ? 'appear' : 'appears'} blank`,
+        'Remove blank pages or scan the missing content'
+      )
+    }
+
+    return {
+      ...worst.check,
+      ...(multiPage && worst.check.status !== 'pass' && { details: `Page ${worst.page}: ${worst.check.details}` }),
+      ...(regions.length > 0 && { affectedRegions: regions }),
+    }
+  })
+}
+
+/**
+ * Overall result, using the quality gates: 70 and up proceeds, 50 to 69 is
+ * allowed with warnings, and below 50 or any failed check blocks the document
+ */
+export function summarizeQuality(
+  documentId: string,
+  fileName: string,
+  checks: DocumentQualityCheck[],
+  processingTime: number
+): DocumentQuality {
+  const overallScore = checks.length > 0 ? Math.round(checks.reduce((sum, c) => sum + c.score, 0) / checks.length) : 0
+  const overallStatus =
+    checks.some((c) => c.status === 'fail') || overallScore < 50 ? 'fail' : overallScore >= 70 ? 'high' : 'medium'
+
+  return { documentId, fileName, overallScore, overallStatus, checks, processingTime, checkedAt: new Date() }
+}
+
+/**
+ * The checks in the shape stored on a `Document`
+ */
+export function toDocumentQualityChecks(quality: DocumentQuality): Document['qualityChecks'] {
+  return quality.checks.map(({ name, status, score, details }) => ({ name, status, score, detail: details }))
+}
@@ -0,0 +1,15 @@
+// ============================================
+// Image Quality Worker
+// Runs page analysis off the main thread
+// ============================================
+
+import { analysePage, type PageImage } from './image-quality'
+
+export interface ImageQualityRequest {
+  id: number
+  image: PageImage
+}
+
+self.onmessage = ({ data }: MessageEvent<ImageQualityRequest>) => {
+  self.postMessage({ id: data.id, checks: analysePage(data.image) })
+}
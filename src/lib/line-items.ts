@@ -0,0 +1,146 @@
+// ============================================
+// Line Items
+// Edits and arithmetic checks for receipt and invoice tables
+// ============================================
+
+import { validateFieldValue, type FieldValidation } from './field-types'
+import { generateId } from './utils'
+import type { ExtractedField, ExtractedTable, LineItemColumn, LineItemRow, TableCell } from '@/types'
+
+export const lineItemColumns: Array<{ column: LineItemColumn; label: string; numeric: boolean }> = [
+  { column: 'description', label: 'Description', numeric: false },
+  { column: 'quantity', label: 'Qty', numeric: true },
+  { column: 'unitPrice', label: 'Unit Price', numeric: true },
+  { column: 'amount', label: 'Amount', numeric: true },
+]
+
+// Id of a cell, used for its bounding box in the document viewer
+export function lineItemCellId(rowId: string, column: LineItemColumn): string {
+  return `${rowId}:${column}`
+}
+
+export interface LineItemIssue {
+  rowId?: string // absent for the table total
+  column?: LineItemColumn
+  message: string
+}
+
+/**
+ * Validate a cell value: quantities are positive numbers, prices and amounts
+ * currency, descriptions any text
+ */
+export function validateCellValue(column: LineItemColumn, raw: unknown): FieldValidation {
+  if (column === 'description') return validateFieldValue('text', raw)
+  if (column === 'quantity') {
+    const quantity = Number(String(raw ?? '').trim())
+    if (String(raw ?? '').trim() === '' || !Number.isFinite(quantity) || quantity <= 0) {
+      return { valid: false, error: 'Enter a quantity greater than 0' }
+    }
+    return { valid: true, value: quantity, display: String(quantity) }
+  }
+  return validateFieldValue('currency', raw)
+}
+
+/**
+ * Display form of a cell value
+ */
+export function formatCellValue(column: LineItemColumn, cell: TableCell): string {
+  if (cell.value === null) return ''
+  const result = validateCellValue(column, cell.value)
+  return result.valid ? result.display : String(cell.value)
+}
+
+function replaceRow(table: ExtractedTable, row: LineItemRow): ExtractedTable {
+  return { ...table, rows: table.rows.map((r) => (r.id === row.id ? row : r)) }
+}
+
+/**
+ * Save a reviewer's value for one cell; invalid input is rejected with a message
+ */
+export function editTableCell(
+  table: ExtractedTable,
+  rowId: string,
+  column: LineItemColumn,
+  raw: unknown
+): { table: ExtractedTable; error?: undefined } | { table?: undefined; error: string } {
+  const row = table.rows.find((r) => r.id === rowId)
+  if (!row) return { error: 'Row not found' }
+
+  const result = validateCellValue(column, raw)
+  if (!result.valid) return { error: result.error }
+
+  const cell: TableCell = { ...row.cells[column], value: result.value, manuallyEdited: true }
+  return { table: replaceRow(table, { ...row, cells: { ...row.cells, [column]: cell } }) }
+}
+
+/**
+ * Append an empty row for a line item the extraction missed
+ */
+export function addLineItemRow(table: ExtractedTable): ExtractedTable {
+  const empty = (): TableCell => ({ value: null, confidence: 100, manuallyEdited: true })
+  const row: LineItemRow = {
+    id: generateId('line-item'),
+    cells: { description: empty(), quantity: empty(), unitPrice: empty(), amount: empty() },
+  }
+  return { ...table, rows: [...table.rows, row] }
+}
+
+export function removeLineItemRow(table: ExtractedTable, rowId: string): ExtractedTable {
+  return { ...table, rows: table.rows.filter((row) => row.id !== rowId) }
+}
+
+// ============================================
+// Checks
+// ============================================
+
+const toCents = (value: number) => Math.round(value * 100)
+
+const formatAmount = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+
+function numericCell(column: LineItemColumn, cell: TableCell): number | null {
+  if (cell.value === null) return null
+  const result = validateCellValue(column, cell.value)
+  return result.valid ? Number(result.value) : null
+}
+
+/**
+ * Arithmetic checks of a line-item table: every row's quantity times unit
+ * price equals its amount, and the amounts add up to the extracted total
+ * (`totalField`, when the case has one).
+ */
+export function checkLineItems(table: ExtractedTable, totalField?: ExtractedField): LineItemIssue[] {
+  const issues: LineItemIssue[] = []
+  let sum = 0
+
+  table.rows.forEach((row, index) => {
+    const quantity = numericCell('quantity', row.cells.quantity)
+    const unitPrice = numericCell('unitPrice', row.cells.unitPrice)
+    const amount = numericCell('amount', row.cells.amount)
+
+    if (amount === null) {
+      issues.push({ rowId: row.id, column: 'amount', message: `Row ${index + 1} has no valid amount` })
+      return
+    }
+    sum += amount
+
+    if (quantity !== null && unitPrice !== null && toCents(quantity * unitPrice) !== toCents(amount)) {
+      issues.push({
+        rowId: row.id,
+        column: 'amount',
+        message: `Row ${index + 1}: ${quantity} × ${formatAmount(unitPrice)} is ${formatAmount(quantity * unitPrice)}, not ${formatAmount(amount)}`,
+      })
+    }
+  })
+
+  if (totalField) {
+    const total = validateFieldValue('currency', totalField.value)
+    if (total.valid && toCents(sum) !== toCents(Number(total.value))) {
+      issues.push({
+        message: `Line items add up to ${formatAmount(sum)}, but ${totalField.label} is ${total.display}`,
+      })
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,121 @@
+// ============================================
+// Local Quality Check
+// Renders a selected file's pages to pixels and analyses them in a worker,
+// so quality feedback is available before the upload finishes
+// ============================================
+
+import {
+  analysePage,
+  combinePageChecks,
+  summarizeQuality,
+  type PageImage,
+} from './image-quality'
+import type { DocumentQuality, DocumentQualityCheck } from '@/types'
+
+// Pages are analysed at no more than this many pixels on the long side
+const MAX_ANALYSIS_SIDE = 1600
+const PDF_ANALYSIS_DPI = 150
+const MAX_PDF_PAGES = 20
+// Photos and scans carry no reliable DPI, so it is estimated for a letter-size page
+const LETTER_LONG_SIDE_INCHES = 11
+
+// ============================================
+// Rendering
+// ============================================
+
+function readPixels(source: CanvasImageSource, width: number, height: number, page: number, dpi?: number): PageImage {
+  const scale = Math.min(1, MAX_ANALYSIS_SIDE / Math.max(width, height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) throw new Error('Canvas is not available')
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height)
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height)
+  return { page, width: canvas.width, height: canvas.height, data, dpi }
+}
+
+async function imagePages(file: File): Promise<PageImage[]> {
+  const bitmap = await createImageBitmap(file)
+  try {
+    const dpi = Math.max(bitmap.width, bitmap.height) / LETTER_LONG_SIDE_INCHES
+    return [readPixels(bitmap, bitmap.width, bitmap.height, 1, dpi)]
+  } finally {
+    bitmap.close()
+  }
+}
+
+async function pdfPages(file: File): Promise<PageImage[]> {
+  const { pdfjs } = await import('./pdf-worker')
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise
+  try {
+    const pages: PageImage[] = []
+    for (let number = 1; number <= Math.min(pdf.numPages, MAX_PDF_PAGES); number++) {
+      const page = await pdf.getPage(number)
+      const viewport = page.getViewport({ scale: PDF_ANALYSIS_DPI / 72 })
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(viewport.width)
+      canvas.height = Math.round(viewport.height)
+      await page.render({ canvas, viewport }).promise
+      pages.push(readPixels(canvas, canvas.width, canvas.height, number))
+      page.cleanup()
+    }
+    return pages
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * Analyse pages in a worker, one after another, falling back to the main
+ * thread where workers are unavailable
+ */
+async function analysePages(pages: PageImage[]): Promise<DocumentQualityCheck[][]> {
+  let worker: Worker
+  try {
+    worker = new Worker(new URL('./image-quality.worker.ts', import.meta.url), { type: 'module' })
+  } catch {
+    return pages.map(analysePage)
+  }
+
+  const results: DocumentQualityCheck[][] = []
+  try {
+    for (const [id, image] of pages.entries()) {
+      results.push(
+        await new Promise<DocumentQualityCheck[]>((resolve, reject) => {
+          worker.onmessage = ({ data }: MessageEvent<{ id: number; checks: DocumentQualityCheck[] }>) => {
+            if (data.id === id) resolve(data.checks)
+          }
+          worker.onerror = (event) => reject(new Error(event.message))
+          worker.postMessage({ id, image }, [image.data.buffer])
+        })
+      )
+    }
+  } finally {
+    worker.terminate()
+  }
+  return results
+}
+
+/**
+ * Quality of a PDF or image file, checked locally. Other file types are
+ * not analysed and give null.
+ */
+export async function checkDocumentQuality(file: File, documentId: string): Promise<DocumentQuality | null> {
+  const started = performance.now()
+  const pages =
+    file.type === 'application/pdf'
+      ? await pdfPages(file)
+      : file.type.startsWith('image/')
+        ? await imagePages(file)
+        : null
+  if (!pages || pages.length === 0) return null
+
+  const checks = combinePageChecks(await analysePages(pages))
+  return summarizeQuality(documentId, file.name, checks, Math.round(performance.now() - started))
+}
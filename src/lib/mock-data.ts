@@ -13,10 +13,15 @@ import type {
   ProcessingState,
   ProcessingStage,
 } from '@/types'
+import { evaluateRules } from '@/lib/rules-engine'
+import { defaultRuleDefinitions, defaultRuleSet } from '@/lib/rule-definitions'
+import { computeDecision, getClaimAmount } from '@/lib/decision-engine'
+import { getPolicyTerms } from '@/lib/benefit-calculation'
+import { withFraudAssessment } from '@/lib/fraud-signals'
 
 // Re-export types from components for convenience
 export type { ProcessingLog } from '@/components/features/ai-logs'
-export type { DecisionTrace } from '@/components/features/decision-trace'
+export type { DecisionTrace } from '@/types'
 
 // ============================================
 // Mock Documents
@@ -107,8 +112,22 @@ export const mockExtractedData: ExtractedData = {
       value: 'John A. Smith',
       confidence: 98,
       source: { documentId: 'doc-1', page: 1, region: [100, 200, 300, 50] },
-      status: 'auto-accepted',
+      status: 'review-required',
       manuallyEdited: false,
+      candidates: [
+        {
+          documentId: 'doc-1',
+          value: 'John A. Smith',
+          confidence: 98,
+          source: { documentId: 'doc-1', page: 1, region: [100, 200, 300, 50] },
+        },
+        {
+          documentId: 'doc-3',
+          value: 'Jon Smith',
+          confidence: 84,
+          source: { documentId: 'doc-3', page: 1, region: [150, 120, 220, 30] },
+        },
+      ],
     },
     {
       id: 'field-2',
@@ -122,6 +141,25 @@ export const mockExtractedData: ExtractedData = {
       originalValue: 3500,
       editedBy: 'Sarah Chen',
       editedAt: '2024-01-27T14:42:30Z',
+      history: [
+        {
+          id: 'rev-field-2-1',
+          kind: 'extraction',
+          value: 3500,
+          confidence: 92,
+          editedBy: 'AI Extraction',
+          editedAt: '2024-01-27T14:36:15Z',
+        },
+        {
+          id: 'rev-field-2-2',
+          kind: 'edit',
+          value: 3280,
+          confidence: 92,
+          editedBy: 'Sarah Chen',
+          editedAt: '2024-01-27T14:42:30Z',
+          reason: 'Itemised bill total excludes a $220 duplicate lab charge',
+        },
+      ],
     },
     {
       id: 'field-3',
@@ -162,6 +200,20 @@ export const mockExtractedData: ExtractedData = {
       source: { documentId: 'doc-2', page: 1, region: [200, 150, 200, 35] },
       status: 'auto-accepted',
       manuallyEdited: false,
+      candidates: [
+        {
+          documentId: 'doc-2',
+          value: 'POL-2024-08947',
+          confidence: 99,
+          source: { documentId: 'doc-2', page: 1, region: [200, 150, 200, 35] },
+        },
+        {
+          documentId: 'doc-3',
+          value: 'POL 2024 08947',
+          confidence: 90,
+          source: { documentId: 'doc-3', page: 1, region: [150, 160, 200, 30] },
+        },
+      ],
     },
     {
       id: 'field-7',
@@ -184,6 +236,53 @@ export const mockExtractedData: ExtractedData = {
       manuallyEdited: false,
     },
   ],
+  tables: [
+    {
+      id: 'table-1',
+      name: 'lineItems',
+      label: 'Receipt Line Items',
+      documentId: 'doc-3',
+      totalFieldName: 'claimAmount',
+      rows: [
+        {
+          id: 'li-1',
+          cells: {
+            description: { value: 'Specialist consultation', confidence: 96, source: { documentId: 'doc-3', page: 1, region: [60, 250, 220, 24] } },
+            quantity: { value: 1, confidence: 96, source: { documentId: 'doc-3', page: 1, region: [300, 250, 40, 24] } },
+            unitPrice: { value: 450, confidence: 96, source: { documentId: 'doc-3', page: 1, region: [360, 250, 80, 24] } },
+            amount: { value: 450, confidence: 96, source: { documentId: 'doc-3', page: 1, region: [460, 250, 90, 24] } },
+          },
+        },
+        {
+          id: 'li-2',
+          cells: {
+            description: { value: 'MRI scan, lumbar spine', confidence: 94, source: { documentId: 'doc-3', page: 1, region: [60, 280, 220, 24] } },
+            quantity: { value: 1, confidence: 94, source: { documentId: 'doc-3', page: 1, region: [300, 280, 40, 24] } },
+            unitPrice: { value: 2200, confidence: 94, source: { documentId: 'doc-3', page: 1, region: [360, 280, 80, 24] } },
+            amount: { value: 2200, confidence: 94, source: { documentId: 'doc-3', page: 1, region: [460, 280, 90, 24] } },
+          },
+        },
+        {
+          id: 'li-3',
+          cells: {
+            description: { value: 'Blood panel', confidence: 81, source: { documentId: 'doc-3', page: 1, region: [60, 310, 220, 24] } },
+            quantity: { value: 3, confidence: 81, source: { documentId: 'doc-3', page: 1, region: [300, 310, 40, 24] } },
+            unitPrice: { value: 110, confidence: 81, source: { documentId: 'doc-3', page: 1, region: [360, 310, 80, 24] } },
+            amount: { value: 330, confidence: 81, source: { documentId: 'doc-3', page: 1, region: [460, 310, 90, 24] } },
+          },
+        },
+        {
+          id: 'li-4',
+          cells: {
+            description: { value: 'Prescription medication', confidence: 88, source: { documentId: 'doc-3', page: 1, region: [60, 340, 220, 24] } },
+            quantity: { value: 2, confidence: 88, source: { documentId: 'doc-3', page: 1, region: [300, 340, 40, 24] } },
+            unitPrice: { value: 150, confidence: 88, source: { documentId: 'doc-3', page: 1, region: [360, 340, 80, 24] } },
+            amount: { value: 300, confidence: 88, source: { documentId: 'doc-3', page: 1, region: [460, 340, 90, 24] } },
+          },
+        },
+      ],
+    },
+  ],
   confidence: 87,
   extractionTime: 45000,
 }
@@ -192,98 +291,27 @@ export const mockExtractedData: ExtractedData = {
 // Mock Rule Results
 // ============================================
 
-export const mockRuleResults: RuleResult[] = [
-  {
-    id: 'rule-1',
-    name: 'Policy Term Validation',
-    category: 'Coverage Eligibility',
-    status: 'pass',
-    inputFields: {
-      treatmentDate: '2024-01-15',
-      policyStart: '2023-06-01',
-      policyEnd: '2024-06-01',
-    },
-    reasoning: 'Treatment date (2024-01-15) falls within policy term (2023-06-01 to 2024-06-01)',
-    clause: 'Clause 3.1 - Coverage Period',
-    canOverride: false,
-  },
-  {
-    id: 'rule-2',
-    name: 'Pre-Existing Condition',
-    category: 'Coverage Eligibility',
-    status: 'fail',
-    inputFields: {
-      conditionCode: 'E11',
-      diagnosisDate: '2022-03-10',
-      policyStartDate: '2023-06-01',
-    },
-    reasoning: 'Condition E11 (Type 2 Diabetes) was diagnosed before policy start date (2023-06-01). Exclusion clause 4.2 applies.',
-    clause: 'Clause 4.2 - Pre-Existing Conditions',
-    canOverride: true,
-  },
-  {
-    id: 'rule-3',
-    name: 'Documentation Completeness',
-    category: 'Documentation Completeness',
-    status: 'pass',
-    inputFields: {
-      documents: ['medical-report', 'receipts', 'policy-copy', 'id-proof'],
-      required: ['medical-report', 'receipts', 'policy-copy', 'id-proof'],
-    },
-    reasoning: 'All required documents have been submitted',
-    canOverride: false,
-  },
-  {
-    id: 'rule-4',
-    name: 'Amount Validation',
-    category: 'Amount Validation',
-    status: 'pass',
-    inputFields: {
-      claimedAmount: 3280,
-      policyLimit: 10000,
-      remainingCoverage: 7500,
-    },
-    reasoning: 'Claimed amount is within policy limits',
-    canOverride: false,
-  },
-  {
-    id: 'rule-5',
-    name: 'Fraud Detection',
-    category: 'Fraud Detection',
-    status: 'skipped',
-    inputFields: {
-      claimAmount: 3280,
-      previousClaims: 0,
-    },
-    reasoning: 'Fraud detection skipped for first-time claimant with clean history',
-    canOverride: false,
-  },
-  {
-    id: 'rule-6',
-    name: 'Waiting Period Compliance',
-    category: 'Compliance Requirements',
-    status: 'pass',
-    inputFields: {
-      policyStartDate: '2023-06-01',
-      treatmentDate: '2024-01-15',
-      waitingPeriodDays: 30,
-    },
-    reasoning: 'Treatment date is more than 30 days after policy start date',
-    canOverride: false,
-  },
-]
+export const mockRuleResults: RuleResult[] = evaluateRules(
+  defaultRuleDefinitions,
+  withFraudAssessment(
+    { id: 'CLM-2024-08947', extractedData: mockExtractedData, documents: mockDocuments, type: 'insurance' as const },
+    []
+  )
+)
 
 // ============================================
 // Mock Decision
 // ============================================
 
+// Amounts and the calculation breakdown come from the benefit calculation
 export const mockDecision: Decision = {
+  ...computeDecision({
+    results: mockRuleResults,
+    rules: defaultRuleDefinitions,
+    claimAmount: getClaimAmount(mockExtractedData),
+    policy: getPolicyTerms(mockExtractedData),
+  }),
   id: 'decision-1',
-  status: 'partial',
-  approvedAmount: 2847.5,
-  claimAmount: 3280,
-  deduction: 432.5,
-  deductionReason: '15% deduction applied for pre-existing condition (E11) per clause 4.2',
   confidence: 87,
   rationale: 'Based on the analysis of submitted documents and business rules, the claim is partially approved. The treatment falls within the policy term, but a pre-existing condition exclusion applies. All required documentation is present and the claimed amount is within policy limits.',
   approvalWorkflow: [
@@ -461,6 +489,7 @@ export const mockCases: Case[] = [
     documents: mockDocuments,
     extractedData: mockExtractedData,
     ruleResults: mockRuleResults,
+    ruleSetVersionId: defaultRuleSet.id,
     decision: mockDecision,
     timeline: mockTimelineEvents,
   },
@@ -680,69 +709,6 @@ export const mockProcessingLogs = [
   },
 ]
 
-// ============================================
-// Mock Decision Trace
-// ============================================
-
-export const mockDecisionTrace = {
-  id: 'trace-1',
-  caseId: 'CLM-2024-08947',
-  decisionId: 'decision-1',
-  totalNodes: 14,
-  passedNodes: 10,
-  failedNodes: 1,
-  skippedNodes: 3,
-  evaluationDuration: 35000,
-  evaluatedAt: '2024-01-27T14:39:35Z',
-  rootNode: {
-    id: 'node-root',
-    type: 'result' as const,
-    status: 'pass' as const,
-    name: 'Claim Evaluation',
-    description: 'Overall claim decision based on all rules',
-    input: { claimAmount: 3280, policyValid: true },
-    output: { decision: 'partial', approvedAmount: 2847.5 },
-    children: [
-      {
-        id: 'node-1',
-        type: 'rule' as const,
-        status: 'pass' as const,
-        name: 'Policy Term Validation',
-        description: 'Check if treatment date is within policy term',
-        input: {
-          treatmentDate: '2024-01-15',
-          policyStart: '2023-06-01',
-          policyEnd: '2024-06-01',
-        },
-        output: { valid: true },
-        reasoning: 'Treatment date (2024-01-15) falls within policy term (2023-06-01 to 2024-06-01)',
-        policyReference: 'Clause 3.1 - Coverage Period',
-        evaluationDuration: 500,
-        children: [],
-      },
-      {
-        id: 'node-2',
-        type: 'rule' as const,
-        status: 'fail' as const,
-        name: 'Pre-Existing Condition',
-        description: 'Check for pre-existing conditions',
-        input: {
-          conditionCode: 'E11',
-          diagnosisDate: '2022-03-10',
-          policyStartDate: '2023-06-01',
-        },
-        output: { excluded: true, deductible: 432.5 },
-        reasoning:
-          'Condition E11 (Type 2 Diabetes) was diagnosed before policy start date (2023-06-01). Exclusion clause 4.2 applies.',
-        policyReference: 'Clause 4.2 - Pre-Existing Conditions',
-        canOverride: true,
-        evaluationDuration: 800,
-        children: [],
-      },
-    ],
-  },
-}
-
 // ============================================
 // Initialize Store Helper
 // ============================================
@@ -750,6 +716,10 @@ export const mockDecisionTrace = {
 export const initializeMockData = () => {
   if (typeof window !== 'undefined') {
     const { useAppStore } = require('@/lib/store')
-    useAppStore.getState().setCases(mockCases)
+    const { cases, setCases } = useAppStore.getState()
+    // Cases already in the store are saved with the reviewer's changes, so they are kept
+    const seeded = mockCases.map((c) => cases.byId[c.id] ?? c)
+    const added = cases.allIds.filter((id: string) => !mockCases.some((c) => c.id === id))
+    setCases([...seeded, ...added.map((id: string) => cases.byId[id])])
   }
 }
@@ -0,0 +1,99 @@
+// ============================================
+// PDF Text Search
+// Find-in-document over the text layer of a rendered PDF
+// ============================================
+
+import type { TextContent, TextItem } from 'react-pdf'
+import type { SourceRegion } from '@/types'
+
+/** A run of text on a rendered page, in page pixels from the top left */
+export interface TextRun {
+  text: string
+  x: number
+  y: number
+  width: number
+  height: number
+  endsLine: boolean
+}
+
+export interface PageText {
+  page: number
+  runs: TextRun[]
+}
+
+export interface TextMatch {
+  id: string
+  page: number
+  regions: SourceRegion[] // one per text run the match spans
+}
+
+type Matrix = number[]
+
+// Same composition pdf.js uses to place text layer spans
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+  ]
+}
+
+/**
+ * Position the text items of a page with the transform of the viewport it is
+ * rendered at. Marked-content entries and empty items are skipped.
+ */
+export function toTextRuns(content: TextContent, viewportTransform: Matrix, scale: number): TextRun[] {
+  return content.items
+    .filter((item): item is TextItem => 'str' in item && item.str.length > 0)
+    .map((item) => {
+      const [, , c, d, x, baseline] = multiply(viewportTransform, item.transform)
+      const height = Math.hypot(c, d)
+      return { text: item.str, x, y: baseline - height, width: item.width * scale, height, endsLine: item.hasEOL }
+    })
+}
+
+/**
+ * Case-insensitive matches of `query` on every page, in reading order.
+ * Runs are searched as one string per page, so a match may span runs; its
+ * position within a run is estimated from the run's width.
+ */
+export function findTextMatches(pages: PageText[], query: string): TextMatch[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return []
+
+  return pages.flatMap(({ page, runs }) => {
+    const starts: number[] = []
+    let text = ''
+    for (const run of runs) {
+      starts.push(text.length)
+      // A line break reads as a space, so words on adjacent lines do not run together
+      text += run.text.toLowerCase() + (run.endsLine ? ' ' : '')
+    }
+
+    const matches: TextMatch[] = []
+    for (let at = text.indexOf(needle); at !== -1; at = text.indexOf(needle, at + needle.length)) {
+      const id = `match-${page}-${matches.length}`
+      const end = at + needle.length
+      const regions = runs.flatMap((run, index) => {
+        const from = Math.max(at, starts[index]) - starts[index]
+        const to = Math.min(end, starts[index] + run.text.length) - starts[index]
+        if (from >= to) return []
+        const charWidth = run.width / run.text.length
+        return [{
+          id: `${id}-${index}`,
+          page,
+          x: run.x + from * charWidth,
+          y: run.y,
+          width: (to - from) * charWidth,
+          height: run.height,
+          color: 'match',
+        }]
+      })
+      matches.push({ id, page, regions })
+    }
+    return matches
+  })
+}
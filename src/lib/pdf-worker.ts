@@ -0,0 +1,10 @@
+// ============================================
+// PDF.js Worker
+// pdf.js parses documents in a worker; import pdfjs from here so it is set up
+// ============================================
+
+import { pdfjs } from 'react-pdf'
+
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+
+export { pdfjs }
@@ -103,6 +103,8 @@ export const queryKeys = {
   extraction: {
     all: ['extraction'] as const,
     detail: (caseId: string) => [...queryKeys.extraction.all, caseId] as const,
+    fieldHistory: (caseId: string, fieldId: string) =>
+      [...queryKeys.extraction.all, caseId, 'history', fieldId] as const,
   },
 
   // Rules
@@ -0,0 +1,204 @@
+// ============================================
+// Default Rule Definitions
+// Insurance claim rules expressed as data for the rules engine
+// ============================================
+
+import type { RuleDefinition, RuleSetVersion } from '@/types'
+
+export const PRE_EXISTING_CONDITION_CODES = ['E10', 'E11', 'I10', 'J45']
+
+export const POLICY_LIMIT = 10000
+
+export const defaultRuleDefinitions: RuleDefinition[] = [
+  {
+    id: 'rule-1',
+    name: 'Policy Term Validation',
+    category: 'Coverage Eligibility',
+    description: 'Treatment must fall within the active policy term',
+    inputFields: ['treatmentDate', 'policyStartDate', 'policyEndDate'],
+    conditions: {
+      match: 'all',
+      conditions: [
+        { field: 'treatmentDate', operator: 'onOrAfter', value: { field: 'policyStartDate' } },
+        { field: 'treatmentDate', operator: 'onOrBefore', value: { field: 'policyEndDate' } },
+      ],
+    },
+    outcomes: {
+      pass: {
+        status: 'pass',
+        output: 'Treatment within policy term',
+        reasoning: 'Treatment date ({treatmentDate}) falls within policy term ({policyStartDate} to {policyEndDate})',
+      },
+      fail: {
+        status: 'fail',
+        output: 'Treatment outside policy term',
+        reasoning: 'Treatment date ({treatmentDate}) is outside the policy term ({policyStartDate} to {policyEndDate})',
+      },
+    },
+    clause: 'Clause 3.1 - Coverage Period',
+    canOverride: false,
+  },
+  {
+    id: 'rule-2',
+    name: 'Pre-Existing Condition',
+    category: 'Coverage Eligibility',
+    description: 'Diagnosis must not be a listed pre-existing condition',
+    inputFields: ['diagnosisCode', 'policyStartDate'],
+    conditions: {
+      match: 'all',
+      conditions: [
+        { field: 'diagnosisCode', operator: 'notIn', value: PRE_EXISTING_CONDITION_CODES },
+      ],
+    },
+    outcomes: {
+      pass: {
+        status: 'pass',
+        output: 'No pre-existing condition exclusion',
+        reasoning: 'Diagnosis {diagnosisCode} is not listed as a pre-existing condition',
+      },
+      fail: {
+        status: 'fail',
+        output: 'Exclusion applied - Clause 4.2',
+        reasoning: 'Condition {diagnosisCode} is a listed pre-existing condition diagnosed before policy start date ({policyStartDate}). Exclusion clause 4.2 applies.',
+      },
+    },
+    clause: 'Clause 4.2 - Pre-Existing Conditions',
+    canOverride: true,
+    deductionPercent: 15,
+  },
+  {
+    id: 'rule-3',
+    name: 'Documentation Completeness',
+    category: 'Documentation Completeness',
+    description: 'Medical report, policy copy and receipt must be on file',
+    inputFields: ['documentTypes'],
+    conditions: {
+      match: 'all',
+      conditions: [
+        { field: 'documentTypes', operator: 'containsAll', value: ['medical', 'policy', 'receipt'] },
+      ],
+    },
+    outcomes: {
+      pass: {
+        status: 'pass',
+        output: 'All required documents present',
+        reasoning: 'All required documents have been submitted ({documentTypes})',
+      },
+      fail: {
+        status: 'fail',
+        output: 'Required documents missing',
+        reasoning: 'Required documents are medical, policy and receipt; submitted: {documentTypes}',
+      },
+      missingData: {
+        status: 'fail',
+        output: 'No documents submitted',
+        reasoning: 'No classified documents are attached to this case',
+      },
+    },
+    canOverride: false,
+  },
+  {
+    id: 'rule-4',
+    name: 'Amount Validation',
+    category: 'Amount Validation',
+    // Amounts above the policy limit are capped by the benefit calculation
+    description: 'Claimed amount must be greater than zero',
+    inputFields: ['claimAmount'],
+    conditions: {
+      match: 'all',
+      conditions: [{ field: 'claimAmount', operator: 'greaterThan', value: 0 }],
+    },
+    outcomes: {
+      pass: {
+        status: 'pass',
+        output: 'Amount is valid',
+        reasoning: 'Claimed amount ({claimAmount}) is greater than zero',
+      },
+      fail: {
+        status: 'fail',
+        output: 'Amount is invalid',
+        reasoning: 'Claimed amount ({claimAmount}) must be greater than zero',
+      },
+    },
+    clause: 'Clause 5.1 - Benefit Limits',
+    canOverride: true,
+  },
+  {
+    id: 'rule-5',
+    name: 'Fraud Detection',
+    category: 'Fraud Detection',
+    description: 'Claims whose fraud risk score reaches 40 are flagged for review',
+    inputFields: ['fraudRiskScore', 'fraudEvidence'],
+    applicability: {
+      match: 'all',
+      conditions: [{ field: 'fraudRiskScore', operator: 'exists' }],
+    },
+    conditions: {
+      match: 'all',
+      conditions: [{ field: 'fraudRiskScore', operator: 'lessThan', value: 40 }],
+    },
+    outcomes: {
+      pass: {
+        status: 'pass',
+        output: 'No fraud indicators',
+        reasoning: 'Fraud risk score {fraudRiskScore} is below the review threshold of 40',
+      },
+      fail: {
+        status: 'warning',
+        output: 'Manual fraud review recommended',
+        reasoning: 'Fraud risk score {fraudRiskScore} reaches the review threshold of 40: {fraudEvidence}',
+      },
+      notApplicable: {
+        status: 'skipped',
+        output: 'Screening not run',
+        reasoning: 'The case has not been screened for fraud signals',
+      },
+    },
+    canOverride: false,
+  },
+  {
+    id: 'rule-6',
+    name: 'Waiting Period Compliance',
+    category: 'Compliance Requirements',
+    description: 'Treatment must occur after the 30-day waiting period',
+    inputFields: ['policyStartDate', 'treatmentDate'],
+    conditions: {
+      match: 'all',
+      conditions: [
+        {
+          field: 'treatmentDate',
+          operator: 'onOrAfter',
+          value: { field: 'policyStartDate', offsetDays: 30 },
+        },
+      ],
+    },
+    outcomes: {
+      pass: {
+        status: 'pass',
+        output: 'Waiting period satisfied',
+        reasoning: 'Treatment date ({treatmentDate}) is more than 30 days after policy start date ({policyStartDate})',
+      },
+      fail: {
+        status: 'fail',
+        output: 'Within waiting period',
+        reasoning: 'Treatment date ({treatmentDate}) falls inside the 30-day waiting period from {policyStartDate}',
+      },
+    },
+    clause: 'Clause 5.3 - Waiting Period',
+    canOverride: true,
+  },
+]
+
+// Initial published rule set, seeded into the store
+export const defaultRuleSet: RuleSetVersion = {
+  id: 'ruleset-v1',
+  version: 1,
+  status: 'published',
+  rules: defaultRuleDefinitions,
+  effectiveFrom: '2024-01-01',
+  createdAt: '2024-01-01T00:00:00Z',
+  createdBy: 'System',
+  publishedAt: '2024-01-01T00:00:00Z',
+  publishedBy: 'System',
+  notes: 'Initial insurance claim rule set',
+}
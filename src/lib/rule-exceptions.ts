@@ -0,0 +1,39 @@
+// ============================================
+// Rule Exceptions
+// Applies approved exceptions to rule results
+// ============================================
+
+import type { RuleException, RuleOverride, RuleResult } from '@/types'
+
+export function toRuleOverride(exception: RuleException): RuleOverride {
+  return {
+    exceptionId: exception.id,
+    reason: exception.reason,
+    requestedBy: exception.requestedBy,
+    approvedBy: exception.reviewedBy ?? 'Unknown',
+    approvedAt: exception.reviewedAt ?? exception.requestedAt,
+  }
+}
+
+/**
+ * Attach approved exceptions to the matching failed results.
+ * Rules that no longer fail, or whose exception is gone, lose their override.
+ */
+export function applyRuleExceptions(results: RuleResult[], exceptions: RuleException[]): RuleResult[] {
+  const approvedByRuleId = new Map(
+    exceptions
+      .filter((exception) => exception.status === 'approved')
+      .map((exception) => [exception.ruleId, exception])
+  )
+
+  return results.map((result) => {
+    const exception = approvedByRuleId.get(result.id)
+    if (result.status === 'fail' && result.canOverride && exception) {
+      return { ...result, override: toRuleOverride(exception) }
+    }
+    if (!result.override) return result
+    const rest = { ...result }
+    delete rest.override
+    return rest
+  })
+}
@@ -0,0 +1,679 @@
+// ============================================
+// Declarative Rules Engine
+// Evaluates RuleDefinitions against case data.
+// Framework-free so it can run in the browser or on the server.
+// ============================================
+
+import type {
+  Case,
+  DecisionNode,
+  FraudAssessment,
+  NodeStatus,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleDefinition,
+  RuleFacts,
+  RuleFieldReference,
+  RuleOperand,
+  RuleOperator,
+  RuleOutcome,
+  RuleResult,
+  RuleResultDiff,
+  RuleSetVersion,
+  RuleStatus,
+  RulesEvaluationResponse,
+} from '@/types'
+
+export type RuleEvaluationInput = Pick<Case, 'extractedData' | 'documents' | 'type'> & {
+  fraudAssessment?: FraudAssessment
+}
+
+export interface ConditionEvaluation {
+  condition: RuleCondition
+  passed: boolean
+  actual: unknown
+  expected: unknown
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const DATE_OPERATORS = new Set(['before', 'after', 'onOrBefore', 'onOrAfter'])
+
+// ============================================
+// Facts
+// ============================================
+
+/**
+ * Build the fact map rules are evaluated against.
+ * Extracted fields are keyed by `ExtractedField.name`; a few derived facts
+ * describe the case itself (document classes, case type) and, when the case
+ * has been screened, its fraud risk score and evidence.
+ */
+export function buildRuleFacts(input: RuleEvaluationInput): RuleFacts {
+  const facts: RuleFacts = {}
+
+  for (const field of input.extractedData.fields) {
+    facts[field.name] = field.value
+  }
+
+  facts.caseType = input.type
+  facts.documentTypes = input.documents.map((doc) => doc.classification.type)
+  facts.documentCount = input.documents.length
+
+  if (input.fraudAssessment) {
+    facts.fraudRiskScore = input.fraudAssessment.score
+    facts.fraudEvidence = input.fraudAssessment.signals.map((signal) => signal.description)
+  }
+
+  return facts
+}
+
+/**
+ * Confidence (0-100) of each extracted field, keyed by field name.
+ * Derived facts are not listed and count as fully confident.
+ */
+export function buildFieldConfidence(input: RuleEvaluationInput): Record<string, number> {
+  return input.extractedData.fields.reduce<Record<string, number>>((acc, field) => {
+    acc[field.name] = field.confidence
+    return acc
+  }, {})
+}
+
+// ============================================
+// Value Helpers
+// ============================================
+
+function isFieldReference(operand: RuleOperand | undefined): operand is RuleFieldReference {
+  return typeof operand === 'object' && operand !== null && !Array.isArray(operand) && 'field' in operand
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * Parse a date fact into a UTC day timestamp. Accepts ISO dates
+ * ("2024-01-15"), ISO datetimes and anything Date.parse understands.
+ */
+export function toDayTimestamp(value: unknown): number | null {
+  if (value instanceof Date) {
+    return Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate())
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+
+  const iso = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null
+  if (iso) {
+    return Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+  }
+
+  const parsed = new Date(value)
+  if (Number.isNaN(parsed.getTime())) return null
+  return Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate())
+}
+
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'string') {
+    const cleaned = value.replace(/[$,\s]/g, '')
+    if (cleaned === '') return null
+    const parsed = Number(cleaned)
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+/**
+ * Compile a `matches` pattern; null when it is not a valid regular expression
+ */
+export function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern)
+  } catch {
+    return null
+  }
+}
+
+function normalise(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value
+}
+
+function resolveOperand(operand: RuleOperand | undefined, facts: RuleFacts, isDate: boolean): unknown {
+  if (!isFieldReference(operand)) return operand
+
+  const value = facts[operand.field]
+  if (!operand.offsetDays) return value
+
+  const day = toDayTimestamp(value)
+  if (day === null) return null
+  return isDate ? day + operand.offsetDays * DAY_MS : value
+}
+
+function compareOrdered(actual: unknown, expected: unknown, isDate: boolean): number | null {
+  // Offset field references already resolve to day timestamps
+  const left = isDate ? toDayTimestamp(actual) : toNumber(actual)
+  const right = isDate
+    ? typeof expected === 'number' ? expected : toDayTimestamp(expected)
+    : toNumber(expected)
+  if (left === null || right === null) return null
+  return left - right
+}
+
+// ============================================
+// Condition Evaluation
+// ============================================
+
+export function evaluateCondition(condition: RuleCondition, facts: RuleFacts): ConditionEvaluation {
+  const actual = facts[condition.field]
+  const isDate = DATE_OPERATORS.has(condition.operator)
+  const expected = resolveOperand(condition.value, facts, isDate)
+  const result = (passed: boolean): ConditionEvaluation => ({ condition, passed, actual, expected })
+
+  switch (condition.operator) {
+    case 'exists':
+      return result(!isMissing(actual))
+    case 'notExists':
+      return result(isMissing(actual))
+    case 'equals':
+      return result(normalise(actual) === normalise(expected))
+    case 'notEquals':
+      return result(normalise(actual) !== normalise(expected))
+    case 'in':
+    case 'notIn': {
+      const list = Array.isArray(expected) ? expected.map(normalise) : []
+      const found = list.includes(normalise(actual))
+      return result(condition.operator === 'in' ? found : !found)
+    }
+    case 'contains': {
+      if (Array.isArray(actual)) return result(actual.map(normalise).includes(normalise(expected)))
+      return result(
+        typeof actual === 'string' && typeof expected === 'string' &&
+          actual.toLowerCase().includes(expected.toLowerCase())
+      )
+    }
+    case 'containsAll': {
+      const available = Array.isArray(actual) ? actual.map(normalise) : []
+      const required = Array.isArray(expected) ? expected.map(normalise) : []
+      return result(required.every((item) => available.includes(item)))
+    }
+    case 'startsWith':
+      return result(
+        typeof actual === 'string' && typeof expected === 'string' &&
+          actual.toLowerCase().startsWith(expected.toLowerCase())
+      )
+    case 'matches': {
+      // An invalid pattern fails the condition rather than the evaluation
+      const pattern = typeof expected === 'string' ? compilePattern(expected) : null
+      return result(typeof actual === 'string' && pattern !== null && pattern.test(actual))
+    }
+    case 'greaterThan':
+    case 'after': {
+      const diff = compareOrdered(actual, expected, isDate)
+      return result(diff !== null && diff > 0)
+    }
+    case 'greaterThanOrEqual':
+    case 'onOrAfter': {
+      const diff = compareOrdered(actual, expected, isDate)
+      return result(diff !== null && diff >= 0)
+    }
+    case 'lessThan':
+    case 'before': {
+      const diff = compareOrdered(actual, expected, isDate)
+      return result(diff !== null && diff < 0)
+    }
+    case 'lessThanOrEqual':
+    case 'onOrBefore': {
+      const diff = compareOrdered(actual, expected, isDate)
+      return result(diff !== null && diff <= 0)
+    }
+    default:
+      return result(false)
+  }
+}
+
+/**
+ * Evaluate a condition group, stopping at the first deciding condition
+ * (a failure for `all`, a pass for `any`). Later conditions are left out
+ * of `evaluations`.
+ */
+export function evaluateConditionGroup(
+  group: RuleConditionGroup,
+  facts: RuleFacts
+): { passed: boolean; evaluations: ConditionEvaluation[] } {
+  const evaluations: ConditionEvaluation[] = []
+  for (const condition of group.conditions) {
+    const evaluation = evaluateCondition(condition, facts)
+    evaluations.push(evaluation)
+    if (evaluation.passed === (group.match === 'any')) break
+  }
+  const passed =
+    group.match === 'all'
+      ? evaluations.every((e) => e.passed)
+      : evaluations.some((e) => e.passed)
+  return { passed, evaluations }
+}
+
+// ============================================
+// Rule Evaluation
+// ============================================
+
+function formatFact(value: unknown): string {
+  if (isMissing(value)) return 'n/a'
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+/**
+ * Replace `{fieldName}` placeholders with the matching fact value
+ */
+export function interpolate(template: string, facts: RuleFacts): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in facts ? formatFact(facts[name]) : match
+  )
+}
+
+function referencedFields(group: RuleConditionGroup | undefined): string[] {
+  if (!group) return []
+  return group.conditions.flatMap((condition) =>
+    isFieldReference(condition.value) ? [condition.field, condition.value.field] : [condition.field]
+  )
+}
+
+function buildResult(
+  rule: RuleDefinition,
+  outcome: RuleOutcome,
+  facts: RuleFacts,
+  confidence: number,
+  evaluatedAt: string
+): RuleResult {
+  return {
+    id: rule.id,
+    name: rule.name,
+    category: rule.category,
+    status: outcome.status,
+    inputFields: rule.inputFields.reduce<Record<string, unknown>>((acc, name) => {
+      acc[name] = facts[name] ?? null
+      return acc
+    }, {}),
+    reasoning: interpolate(outcome.reasoning, facts),
+    output: interpolate(outcome.output, facts),
+    clause: rule.clause,
+    canOverride: rule.canOverride,
+    confidence,
+    evaluatedAt,
+  }
+}
+
+// ============================================
+// Evaluation Trace
+// ============================================
+
+export interface RuleTrace {
+  result: RuleResult
+  node: DecisionNode
+}
+
+const traceStatus: Record<RuleStatus, NodeStatus> = {
+  pass: 'pass',
+  fail: 'fail',
+  warning: 'warning',
+  skipped: 'skipped',
+}
+
+const operatorLabel: Record<RuleOperator, string> = {
+  equals: '=',
+  notEquals: '≠',
+  greaterThan: '>',
+  greaterThanOrEqual: '≥',
+  lessThan: '<',
+  lessThanOrEqual: '≤',
+  in: 'in',
+  notIn: 'not in',
+  contains: 'contains',
+  containsAll: 'contains all of',
+  startsWith: 'starts with',
+  matches: 'matches',
+  exists: 'exists',
+  notExists: 'does not exist',
+  before: 'before',
+  after: 'after',
+  onOrBefore: 'on or before',
+  onOrAfter: 'on or after',
+}
+
+function describeOperand(operand: RuleOperand | undefined): string {
+  if (operand === undefined) return ''
+  if (isFieldReference(operand)) {
+    if (!operand.offsetDays) return operand.field
+    return `${operand.field} ${operand.offsetDays > 0 ? '+' : '-'} ${Math.abs(operand.offsetDays)} days`
+  }
+  return Array.isArray(operand) ? `[${operand.join(', ')}]` : String(operand)
+}
+
+function describeCondition(condition: RuleCondition): string {
+  return [condition.field, operatorLabel[condition.operator], describeOperand(condition.value)]
+    .filter(Boolean)
+    .join(' ')
+}
+
+// Date comparisons resolve to day timestamps; show them as ISO dates
+function traceValue(value: unknown, condition: RuleCondition): unknown {
+  if (DATE_OPERATORS.has(condition.operator) && typeof value === 'number') {
+    return new Date(value).toISOString().slice(0, 10)
+  }
+  return value ?? null
+}
+
+function elapsed(start: number): number {
+  return Math.round((performance.now() - start) * 1000) / 1000
+}
+
+/**
+ * Trace a condition group. Conditions after the deciding one are marked
+ * skipped; pass `evaluations: null` when the group was never reached.
+ */
+function traceConditionGroup(
+  id: string,
+  name: string,
+  group: RuleConditionGroup,
+  evaluations: ConditionEvaluation[] | null,
+  passed?: boolean
+): DecisionNode {
+  const children = group.conditions.map((condition, index): DecisionNode => {
+    const evaluation = evaluations?.[index]
+    return {
+      id: `${id}-${index + 1}`,
+      type: 'condition',
+      status: evaluation ? (evaluation.passed ? 'pass' : 'fail') : 'skipped',
+      name: describeCondition(condition),
+      description: condition.description,
+      input: evaluation ? { [condition.field]: traceValue(evaluation.actual, condition) } : {},
+      output: evaluation
+        ? { expected: traceValue(evaluation.expected, condition), passed: evaluation.passed }
+        : undefined,
+      reasoning: evaluation ? undefined : 'Not evaluated: short-circuited',
+    }
+  })
+
+  return {
+    id,
+    type: 'condition',
+    status: evaluations === null ? 'skipped' : passed ? 'pass' : 'fail',
+    name,
+    description: `${group.match === 'all' ? 'All' : 'Any'} of ${group.conditions.length} condition(s)`,
+    input: {},
+    children,
+  }
+}
+
+/**
+ * Evaluate a single rule definition and record each step as a decision node.
+ *
+ * Order: applicability (skipped when not met) → required inputs
+ * (missingData outcome) → conditions (pass/fail outcome).
+ */
+export function traceRule(
+  rule: RuleDefinition,
+  facts: RuleFacts,
+  fieldConfidence: Record<string, number> = {},
+  evaluatedAt: string = new Date().toISOString()
+): RuleTrace {
+  const start = performance.now()
+  const nodeId = `node-${rule.id}`
+  const children: DecisionNode[] = []
+  const confidence = Math.min(
+    100,
+    ...rule.inputFields.map((name) => fieldConfidence[name] ?? 100)
+  )
+
+  const finish = (outcome: RuleOutcome, resultConfidence: number): RuleTrace => {
+    const result = buildResult(rule, outcome, facts, resultConfidence, evaluatedAt)
+    return {
+      result,
+      node: {
+        id: nodeId,
+        type: 'rule',
+        status: traceStatus[result.status],
+        name: rule.name,
+        description: rule.description,
+        input: result.inputFields,
+        output: { status: result.status, output: result.output },
+        reasoning: result.reasoning,
+        policyReference: rule.clause,
+        canOverride: rule.canOverride,
+        evaluatedAt,
+        evaluationDuration: elapsed(start),
+        children,
+      },
+    }
+  }
+
+  if (rule.applicability) {
+    const applicability = evaluateConditionGroup(rule.applicability, facts)
+    const applicabilityNode = traceConditionGroup(
+      `${nodeId}-applicability`,
+      'Applicability',
+      rule.applicability,
+      applicability.evaluations,
+      applicability.passed
+    )
+    children.push(applicabilityNode)
+    if (!applicability.passed) {
+      // Not applying is a short-circuit, not a failure
+      applicabilityNode.status = 'skipped'
+      applicabilityNode.reasoning = 'Applicability not met; rule conditions were not evaluated'
+      children.push(traceConditionGroup(`${nodeId}-conditions`, 'Conditions', rule.conditions, null))
+      return finish(
+        rule.outcomes.notApplicable ?? {
+          status: 'skipped',
+          output: 'Not applicable',
+          reasoning: `${rule.name} does not apply to this case`,
+        },
+        confidence
+      )
+    }
+  }
+
+  const required = Array.from(new Set(referencedFields(rule.conditions)))
+  const missing = required.filter((name) => isMissing(facts[name]))
+  children.push({
+    id: `${nodeId}-inputs`,
+    type: 'condition',
+    status: missing.length > 0 ? 'fail' : 'pass',
+    name: 'Required inputs present',
+    input: Object.fromEntries(required.map((name) => [name, facts[name] ?? null])),
+    output: missing.length > 0 ? { missing } : undefined,
+  })
+  if (missing.length > 0) {
+    children.push(traceConditionGroup(`${nodeId}-conditions`, 'Conditions', rule.conditions, null))
+    return finish(
+      rule.outcomes.missingData ?? {
+        status: 'warning',
+        output: 'Missing input data',
+        reasoning: `Cannot evaluate ${rule.name}: missing ${missing.join(', ')}`,
+      },
+      0
+    )
+  }
+
+  const { passed, evaluations } = evaluateConditionGroup(rule.conditions, facts)
+  children.push(
+    traceConditionGroup(`${nodeId}-conditions`, 'Conditions', rule.conditions, evaluations, passed)
+  )
+  return finish(passed ? rule.outcomes.pass : rule.outcomes.fail, confidence)
+}
+
+/**
+ * Evaluate a single rule definition against a fact map
+ */
+export function evaluateRule(
+  rule: RuleDefinition,
+  facts: RuleFacts,
+  fieldConfidence: Record<string, number> = {},
+  evaluatedAt: string = new Date().toISOString()
+): RuleResult {
+  return traceRule(rule, facts, fieldConfidence, evaluatedAt).result
+}
+
+/**
+ * Trace every enabled rule against a case
+ */
+export function traceRules(rules: RuleDefinition[], input: RuleEvaluationInput): RuleTrace[] {
+  const facts = buildRuleFacts(input)
+  const fieldConfidence = buildFieldConfidence(input)
+  const evaluatedAt = new Date().toISOString()
+
+  return rules
+    .filter((rule) => rule.enabled !== false)
+    .map((rule) => traceRule(rule, facts, fieldConfidence, evaluatedAt))
+}
+
+/**
+ * Evaluate every enabled rule against a case
+ */
+export function evaluateRules(rules: RuleDefinition[], input: RuleEvaluationInput): RuleResult[] {
+  return traceRules(rules, input).map((trace) => trace.result)
+}
+
+/**
+ * Summarise results in the shape returned by the rules API
+ */
+export function summarizeRuleResults(results: RuleResult[]): RulesEvaluationResponse {
+  return {
+    results,
+    passed: results.filter((r) => r.status === 'pass').length,
+    failed: results.filter((r) => r.status === 'fail').length,
+    warnings: results.filter((r) => r.status === 'warning').length,
+  }
+}
+
+// ============================================
+// Rule Set Resolution
+// ============================================
+
+/**
+ * Pick the published rule set in force on `asOf`: the highest version
+ * whose effective date has been reached.
+ */
+export function resolveRuleSet(
+  versions: RuleSetVersion[],
+  asOf: string | Date = new Date()
+): RuleSetVersion | null {
+  const day = toDayTimestamp(asOf)
+  const effective = versions.filter((version) => {
+    if (version.status !== 'published') return false
+    const from = toDayTimestamp(version.effectiveFrom)
+    return from !== null && day !== null && from <= day
+  })
+  if (effective.length === 0) return null
+  return effective.reduce((latest, version) => (version.version > latest.version ? version : latest))
+}
+
+// ============================================
+// Rule Validation
+// ============================================
+
+const LIST_OPERATORS = new Set<RuleOperator>(['in', 'notIn', 'containsAll'])
+const NUMERIC_OPERATORS = new Set<RuleOperator>(['greaterThan', 'greaterThanOrEqual', 'lessThan', 'lessThanOrEqual'])
+const VALUELESS_OPERATORS = new Set<RuleOperator>(['exists', 'notExists'])
+
+function operandProblem(operator: RuleOperator, operand: RuleOperand | undefined): string | null {
+  if (VALUELESS_OPERATORS.has(operator)) return null
+  if (operand === undefined || operand === '') return 'needs a value'
+  if (isFieldReference(operand)) return null
+
+  if (LIST_OPERATORS.has(operator)) {
+    return Array.isArray(operand) && operand.length > 0 ? null : 'needs a list of values'
+  }
+  if (Array.isArray(operand)) return 'takes a single value, not a list'
+  if (NUMERIC_OPERATORS.has(operator)) {
+    return toNumber(operand) !== null ? null : 'needs a number'
+  }
+  if (DATE_OPERATORS.has(operator)) {
+    return toDayTimestamp(operand) !== null ? null : 'needs a date'
+  }
+  if (operator === 'matches') {
+    return typeof operand === 'string' && compilePattern(operand) ? null : 'needs a valid regular expression'
+  }
+  return null
+}
+
+/**
+ * Problems that would stop a rule from being evaluated as written: a
+ * condition on an unknown fact, or an operand of the wrong type for its
+ * operator. Empty when the rule can be published.
+ */
+export function validateRuleDefinition(rule: RuleDefinition, knownFields: string[]): string[] {
+  const known = new Set(knownFields)
+  const groups = [
+    { label: 'Condition', group: rule.conditions },
+    ...(rule.applicability ? [{ label: 'Applicability condition', group: rule.applicability }] : []),
+  ]
+  const problems: string[] = []
+
+  if (rule.conditions.conditions.length === 0) problems.push(`${rule.name}: has no conditions`)
+
+  for (const { label, group } of groups) {
+    group.conditions.forEach((condition, index) => {
+      const prefix = `${rule.name}: ${label.toLowerCase()} ${index + 1}`
+      if (!condition.field) {
+        problems.push(`${prefix} has no field`)
+      } else if (!known.has(condition.field)) {
+        problems.push(`${prefix} uses unknown field "${condition.field}"`)
+      }
+      if (isFieldReference(condition.value) && !known.has(condition.value.field)) {
+        problems.push(`${prefix} compares with unknown field "${condition.value.field}"`)
+      }
+      const problem = operandProblem(condition.operator, condition.value)
+      if (problem) problems.push(`${prefix} ${problem}`)
+    })
+  }
+  return problems
+}
+
+// ============================================
+// Result Comparison
+// ============================================
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * Compare re-evaluated results with the previous ones, rule by rule.
+ * Rules missing from `before` are reported with a null previous status.
+ */
+export function diffRuleResults(before: RuleResult[], after: RuleResult[]): RuleResultDiff[] {
+  const previousById = new Map(before.map((result) => [result.id, result]))
+
+  return after.map((current) => {
+    const previous = previousById.get(current.id)
+    const fields = new Set([
+      ...Object.keys(previous?.inputFields ?? {}),
+      ...Object.keys(current.inputFields),
+    ])
+    const changedInputs = previous
+      ? Array.from(fields)
+          .filter((field) => !sameValue(previous.inputFields[field], current.inputFields[field]))
+          .map((field) => ({
+            field,
+            before: previous.inputFields[field] ?? null,
+            after: current.inputFields[field] ?? null,
+          }))
+      : []
+
+    return {
+      ruleId: current.id,
+      ruleName: current.name,
+      previousStatus: previous?.status ?? null,
+      currentStatus: current.status,
+      statusChanged: previous?.status !== current.status,
+      reasoningChanged: previous !== undefined && previous.reasoning !== current.reasoning,
+      previousReasoning: previous?.reasoning,
+      changedInputs,
+    }
+  })
+}
+
+export function hasRuleChanges(diff: RuleResultDiff): boolean {
+  return diff.statusChanged || diff.reasoningChanged || diff.changedInputs.length > 0
+}
@@ -2,7 +2,7 @@
 // Global State Store - Zustand
 // ============================================
 
-import { useMemo } from 'react'
+import { useCallback, useMemo } from 'react'
 import { create } from 'zustand'
 import { devtools, persist } from 'zustand/middleware'
 import { useShallow } from 'zustand/react/shallow'
@@ -18,7 +18,29 @@ import type {
   SortOption,
   ProcessingStateMap,
   SessionState,
+  RuleSetsState,
+  RuleSetVersion,
+  RuleException,
+  RuleExceptionsState,
+  ExtractionEdit,
+  ExtractionHistoryState,
+  SettingsState,
+  CaseType,
+  ConfidenceThresholdRule,
+  XmlExportMapping,
+  UploadSession,
+  UploadSessionsState,
 } from '@/types'
+import { defaultRuleSet } from '@/lib/rule-definitions'
+import { resolveRuleSet } from '@/lib/rules-engine'
+import { MAX_UNDO_STEPS, applyExtractionEdit, canApplyExtractionEdit, type EditDirection } from '@/lib/extraction-edits'
+import {
+  defaultConfidenceThresholdRules,
+  isSameThresholdScope,
+  resolveConfidenceThresholds,
+} from '@/lib/confidence-thresholds'
+import { defaultXmlExportMapping } from '@/lib/case-export'
+import { generateId } from '@/lib/utils'
 
 // ============================================
 // Initial States
@@ -60,6 +82,31 @@ const initialSessionState: SessionState = {
   ],
 }
 
+const initialRuleSetsState: RuleSetsState = {
+  byId: { [defaultRuleSet.id]: defaultRuleSet },
+  allIds: [defaultRuleSet.id],
+}
+
+const initialRuleExceptionsState: RuleExceptionsState = {
+  byId: {},
+  allIds: [],
+}
+
+const initialExtractionHistoryState: ExtractionHistoryState = {
+  byCaseId: {},
+}
+
+const initialSettingsState: SettingsState = {
+  confidenceThresholds: defaultConfidenceThresholdRules,
+  xmlExportMapping: defaultXmlExportMapping,
+}
+
+const initialUploadSessionsState: UploadSessionsState = {
+  byFileKey: {},
+}
+
+const emptyEditStacks: ExtractionHistoryState['byCaseId'][string] = { past: [], future: [] }
+
 // ============================================
 // Store Definition
 // ============================================
@@ -89,12 +136,77 @@ interface AppStore extends AppState {
   setUser: (user: SessionState['user']) => void
   logout: () => void
 
+  // Rule Set Actions
+  createRuleSetDraft: (baseVersionId: string) => string
+  updateRuleSetDraft: (versionId: string, updates: Partial<Pick<RuleSetVersion, 'rules' | 'effectiveFrom' | 'notes'>>) => void
+  deleteRuleSetDraft: (versionId: string) => void
+  publishRuleSet: (versionId: string, effectiveFrom: string) => void
+
+  // Rule Exception Actions
+  requestRuleException: (
+    request: Pick<RuleException, 'caseId' | 'ruleId' | 'ruleName' | 'ruleSetVersionId' | 'reason'>
+  ) => RuleException
+  reviewRuleException: (
+    exceptionId: string,
+    status: 'approved' | 'denied',
+    note?: string
+  ) => RuleException | null
+
+  // Extraction History Actions
+  recordExtractionEdit: (edit: ExtractionEdit) => void
+  undoExtractionEdit: (caseId: string) => ExtractionEdit | null
+  redoExtractionEdit: (caseId: string) => ExtractionEdit | null
+  discardExtractionEdit: (caseId: string, editId: string) => void
+
+  // Settings Actions
+  setConfidenceThresholdRule: (rule: ConfidenceThresholdRule) => void
+  removeConfidenceThresholdRule: (scope: Pick<ConfidenceThresholdRule, 'caseType' | 'fieldName'>) => void
+  setXmlExportMapping: (mapping: XmlExportMapping) => void
+
+  // Upload Session Actions
+  saveUploadSession: (session: UploadSession) => void
+  removeUploadSession: (fileKey: string) => void
+
   // Computed
   getActiveCase: () => Case | null
   getFilteredCases: () => Case[]
   getProcessingState: (caseId: string) => ProcessingState | null
 }
 
+/**
+ * Undo the newest extraction change or redo the last undone one. A change
+ * that no longer matches the case is dropped instead of overwriting newer
+ * values.
+ */
+function moveExtractionEdit(
+  set: (partial: (state: AppStore) => Partial<AppStore>) => void,
+  get: () => AppStore,
+  caseId: string,
+  direction: EditDirection
+): ExtractionEdit | null {
+  const state = get()
+  const stacks = state.extractionHistory.byCaseId[caseId] ?? emptyEditStacks
+  const [from, to] = direction === 'undo' ? [stacks.past, stacks.future] : [stacks.future, stacks.past]
+  const edit = from[from.length - 1]
+  const caseData = state.cases.byId[caseId]
+  if (!edit || !caseData) return null
+
+  const applicable = canApplyExtractionEdit(caseData, edit, direction)
+  const remaining = from.slice(0, -1)
+  const moved = applicable ? [...to, edit] : to
+  const next = direction === 'undo' ? { past: remaining, future: moved } : { past: moved, future: remaining }
+
+  set((prev) => ({
+    extractionHistory: {
+      byCaseId: { ...prev.extractionHistory.byCaseId, [caseId]: next },
+    },
+  }))
+  if (!applicable) return null
+
+  state.updateCase(caseId, applyExtractionEdit(caseData, edit, direction, state.session.user?.name ?? 'Unknown'))
+  return edit
+}
+
 export const useAppStore = create<AppStore>()(
   devtools(
     persist(
@@ -104,6 +216,11 @@ export const useAppStore = create<AppStore>()(
         cases: initialCasesState,
         processing: initialProcessingState,
         session: initialSessionState,
+        ruleSets: initialRuleSetsState,
+        ruleExceptions: initialRuleExceptionsState,
+        extractionHistory: initialExtractionHistoryState,
+        settings: initialSettingsState,
+        uploadSessions: initialUploadSessionsState,
 
         // ============================================
         // UI Actions
@@ -281,6 +398,223 @@ export const useAppStore = create<AppStore>()(
             },
           })),
 
+        // ============================================
+        // Rule Set Actions
+        // ============================================
+
+        createRuleSetDraft: (baseVersionId) => {
+          const state = get()
+          const base = state.ruleSets.byId[baseVersionId]
+          const nextVersion =
+            Math.max(0, ...state.ruleSets.allIds.map((id) => state.ruleSets.byId[id].version)) + 1
+          const draft: RuleSetVersion = {
+            id: generateId('ruleset'),
+            version: nextVersion,
+            status: 'draft',
+            rules: base ? base.rules.map((rule) => ({ ...rule })) : [],
+            effectiveFrom: new Date().toISOString().slice(0, 10),
+            createdAt: new Date().toISOString(),
+            createdBy: state.session.user?.name ?? 'Unknown',
+            basedOn: base?.id,
+          }
+
+          set((prev) => ({
+            ruleSets: {
+              byId: { ...prev.ruleSets.byId, [draft.id]: draft },
+              allIds: [...prev.ruleSets.allIds, draft.id],
+            },
+          }))
+          return draft.id
+        },
+
+        updateRuleSetDraft: (versionId, updates) =>
+          set((state) => {
+            const version = state.ruleSets.byId[versionId]
+            // Published versions are immutable so past evaluations stay reproducible
+            if (!version || version.status !== 'draft') return state
+
+            return {
+              ruleSets: {
+                ...state.ruleSets,
+                byId: { ...state.ruleSets.byId, [versionId]: { ...version, ...updates } },
+              },
+            }
+          }),
+
+        deleteRuleSetDraft: (versionId) =>
+          set((state) => {
+            const version = state.ruleSets.byId[versionId]
+            if (!version || version.status !== 'draft') return state
+
+            const byId = { ...state.ruleSets.byId }
+            delete byId[versionId]
+            return {
+              ruleSets: {
+                byId,
+                allIds: state.ruleSets.allIds.filter((id) => id !== versionId),
+              },
+            }
+          }),
+
+        publishRuleSet: (versionId, effectiveFrom) =>
+          set((state) => {
+            const version = state.ruleSets.byId[versionId]
+            if (!version || version.status !== 'draft') return state
+
+            return {
+              ruleSets: {
+                ...state.ruleSets,
+                byId: {
+                  ...state.ruleSets.byId,
+                  [versionId]: {
+                    ...version,
+                    status: 'published',
+                    effectiveFrom,
+                    publishedAt: new Date().toISOString(),
+                    publishedBy: state.session.user?.name ?? 'Unknown',
+                  },
+                },
+              },
+            }
+          }),
+
+        // ============================================
+        // Rule Exception Actions
+        // ============================================
+
+        requestRuleException: (request) => {
+          const exception: RuleException = {
+            ...request,
+            id: generateId('exception'),
+            status: 'pending',
+            requestedBy: get().session.user?.name ?? 'Unknown',
+            requestedAt: new Date().toISOString(),
+          }
+
+          set((state) => ({
+            ruleExceptions: {
+              byId: { ...state.ruleExceptions.byId, [exception.id]: exception },
+              allIds: [...state.ruleExceptions.allIds, exception.id],
+            },
+          }))
+          return exception
+        },
+
+        reviewRuleException: (exceptionId, status, note) => {
+          const state = get()
+          const exception = state.ruleExceptions.byId[exceptionId]
+          // Only pending requests can be reviewed
+          if (!exception || exception.status !== 'pending') return null
+
+          const reviewed: RuleException = {
+            ...exception,
+            status,
+            reviewedBy: state.session.user?.name ?? 'Unknown',
+            reviewedAt: new Date().toISOString(),
+            reviewNote: note || undefined,
+          }
+
+          set((prev) => ({
+            ruleExceptions: {
+              ...prev.ruleExceptions,
+              byId: { ...prev.ruleExceptions.byId, [exceptionId]: reviewed },
+            },
+          }))
+          return reviewed
+        },
+
+        // ============================================
+        // Extraction History Actions
+        // ============================================
+
+        recordExtractionEdit: (edit) =>
+          set((state) => {
+            const stacks = state.extractionHistory.byCaseId[edit.caseId] ?? emptyEditStacks
+            return {
+              extractionHistory: {
+                byCaseId: {
+                  ...state.extractionHistory.byCaseId,
+                  // A new change starts a new branch, so nothing is left to redo
+                  [edit.caseId]: { past: [...stacks.past, edit].slice(-MAX_UNDO_STEPS), future: [] },
+                },
+              },
+            }
+          }),
+
+        undoExtractionEdit: (caseId) => moveExtractionEdit(set, get, caseId, 'undo'),
+
+        redoExtractionEdit: (caseId) => moveExtractionEdit(set, get, caseId, 'redo'),
+
+        discardExtractionEdit: (caseId, editId) =>
+          set((state) => {
+            const stacks = state.extractionHistory.byCaseId[caseId]
+            if (!stacks) return state
+            return {
+              extractionHistory: {
+                byCaseId: {
+                  ...state.extractionHistory.byCaseId,
+                  [caseId]: {
+                    past: stacks.past.filter((edit) => edit.id !== editId),
+                    future: stacks.future.filter((edit) => edit.id !== editId),
+                  },
+                },
+              },
+            }
+          }),
+
+        // ============================================
+        // Settings Actions
+        // ============================================
+
+        // Adds the rule, or replaces the one for the same case type and field
+        setConfidenceThresholdRule: (rule) =>
+          set((state) => {
+            const rules = state.settings.confidenceThresholds
+            const exists = rules.some((r) => isSameThresholdScope(r, rule))
+            return {
+              settings: {
+                ...state.settings,
+                confidenceThresholds: exists
+                  ? rules.map((r) => (isSameThresholdScope(r, rule) ? rule : r))
+                  : [...rules, rule],
+              },
+            }
+          }),
+
+        // The default rule, with neither case type nor field, cannot be removed
+        removeConfidenceThresholdRule: (scope) =>
+          set((state) => {
+            if (!scope.caseType && !scope.fieldName) return state
+            return {
+              settings: {
+                ...state.settings,
+                confidenceThresholds: state.settings.confidenceThresholds.filter(
+                  (r) => !isSameThresholdScope(r, scope)
+                ),
+              },
+            }
+          }),
+
+        setXmlExportMapping: (mapping) =>
+          set((state) => ({ settings: { ...state.settings, xmlExportMapping: mapping } })),
+
+        // ============================================
+        // Upload Session Actions
+        // ============================================
+
+        saveUploadSession: (session) =>
+          set((state) => ({
+            uploadSessions: {
+              byFileKey: { ...state.uploadSessions.byFileKey, [session.fileKey]: session },
+            },
+          })),
+
+        removeUploadSession: (fileKey) =>
+          set((state) => {
+            const { [fileKey]: removed, ...byFileKey } = state.uploadSessions.byFileKey
+            return removed ? { uploadSessions: { byFileKey } } : state
+          }),
+
         // ============================================
         // Computed Getters
         // ============================================
@@ -336,6 +670,11 @@ export const useAppStore = create<AppStore>()(
             sidebarCollapsed: state.ui.sidebarCollapsed,
           },
           session: state.session,
+          cases: state.cases,
+          ruleSets: state.ruleSets,
+          ruleExceptions: state.ruleExceptions,
+          settings: state.settings,
+          uploadSessions: state.uploadSessions,
         }),
       }
     ),
@@ -395,5 +734,60 @@ export const useFilteredCases = () => {
   }, [allIds, byId, filters, sortBy])
 }
 
+export const useAllCases = () => {
+  const allIds = useAppStore((state) => state.cases.allIds)
+  const byId = useAppStore((state) => state.cases.byId)
+  return useMemo(() => allIds.map((id) => byId[id]).filter(Boolean) as Case[], [allIds, byId])
+}
+
 export const useProcessingState = (caseId: string) =>
   useAppStore((state) => state.processing.byCaseId[caseId] || null)
+
+export const useRuleSetVersions = () => {
+  const allIds = useAppStore((state) => state.ruleSets.allIds)
+  const byId = useAppStore((state) => state.ruleSets.byId)
+
+  return useMemo(
+    () => allIds.map((id) => byId[id]).sort((a, b) => b.version - a.version),
+    [allIds, byId]
+  )
+}
+
+// Published rule set in force today
+export const useEffectiveRuleSet = () => {
+  const versions = useRuleSetVersions()
+  return useMemo(() => resolveRuleSet(versions) ?? defaultRuleSet, [versions])
+}
+
+export const useRuleExceptions = () => {
+  const allIds = useAppStore((state) => state.ruleExceptions.allIds)
+  const byId = useAppStore((state) => state.ruleExceptions.byId)
+  return useMemo(() => allIds.map((id) => byId[id]), [allIds, byId])
+}
+
+export const useCaseRuleExceptions = (caseId: string | null) => {
+  const exceptions = useRuleExceptions()
+  return useMemo(
+    () => (caseId ? exceptions.filter((exception) => exception.caseId === caseId) : []),
+    [exceptions, caseId]
+  )
+}
+
+// Undo and redo stacks for a case's extraction changes, newest last
+export const useExtractionEditStacks = (caseId: string | null) => {
+  const stacks = useAppStore((state) => (caseId ? state.extractionHistory.byCaseId[caseId] : undefined))
+  return stacks ?? emptyEditStacks
+}
+
+// Confidence thresholds of a case type's fields, by field name
+export const useConfidenceThresholds = (caseType: CaseType | undefined) => {
+  const rules = useAppStore((state) => state.settings.confidenceThresholds)
+  return useCallback(
+    (fieldName?: string) => resolveConfidenceThresholds(rules, caseType, fieldName),
+    [rules, caseType]
+  )
+}
+
+// Settings saved before XML export was added have no mapping
+export const useXmlExportMapping = () =>
+  useAppStore((state) => state.settings.xmlExportMapping) ?? defaultXmlExportMapping
@@ -1,6 +1,8 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { type ClassValue as CV } from "clsx"
+import { DEFAULT_CONFIDENCE_THRESHOLDS } from "./confidence-thresholds"
+import type { ConfidenceThresholds } from "@/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -87,11 +89,14 @@ export function formatFileSize(bytes: number): string {
 }
 
 /**
- * Format confidence score with color
+ * Confidence level of a score under the given thresholds
  */
-export function getConfidenceLevel(score: number): 'high' | 'medium' | 'low' {
-  if (score >= 90) return 'high'
-  if (score >= 70) return 'medium'
+export function getConfidenceLevel(
+  score: number,
+  thresholds: ConfidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS
+): 'high' | 'medium' | 'low' {
+  if (score >= thresholds.high) return 'high'
+  if (score >= thresholds.medium) return 'medium'
   return 'low'
 }
 
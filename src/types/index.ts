@@ -11,6 +11,11 @@ export interface AppState {
   cases: CasesState;
   processing: ProcessingStateMap;
   session: SessionState;
+  ruleSets: RuleSetsState;
+  ruleExceptions: RuleExceptionsState;
+  extractionHistory: ExtractionHistoryState;
+  settings: SettingsState;
+  uploadSessions: UploadSessionsState;
 }
 
 export interface UIState {
@@ -37,6 +42,35 @@ export interface SessionState {
   permissions: Permission[];
 }
 
+export interface RuleSetsState {
+  byId: Record<string, RuleSetVersion>;
+  allIds: string[];
+}
+
+export interface RuleExceptionsState {
+  byId: Record<string, RuleException>;
+  allIds: string[];
+}
+
+export interface SettingsState {
+  confidenceThresholds: ConfidenceThresholdRule[];
+  xmlExportMapping: XmlExportMapping;
+}
+
+// Element names used when exporting cases as XML
+export interface XmlExportMapping {
+  rootElement: string;
+  caseElement: string;
+  fieldElements: Record<string, string>; // `ExtractedField.name` to element name
+  includeMetadata: boolean; // confidence, source and edit details as attributes
+  omitUnmappedFields: boolean;
+}
+
+// Undo and redo stacks of extraction page changes, newest last
+export interface ExtractionHistoryState {
+  byCaseId: Record<string, { past: ExtractionEdit[]; future: ExtractionEdit[] }>;
+}
+
 // ============================================
 // Case & Document Types
 // ============================================
@@ -52,6 +86,7 @@ export interface Case {
   documents: Document[];
   extractedData: ExtractedData;
   ruleResults: RuleResult[];
+  ruleSetVersionId?: string; // rule set version that produced ruleResults
   decision: Decision | null;
   timeline: TimelineEvent[];
 }
@@ -72,6 +107,42 @@ export interface Document {
   qualityChecks: QualityCheck[];
   classification: Classification;
   extractionStatus: ExtractionStatus;
+  contentHash?: string; // SHA-256 of the file contents, hex encoded
+  previousVersions?: DocumentVersion[]; // oldest first
+}
+
+/**
+ * An earlier file of a document, kept when a corrected or replacement file
+ * took its place
+ */
+export interface DocumentVersion {
+  documentId: string; // the server document that holds the earlier file
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+  replacedAt: string;
+  reason: string;
+}
+
+/**
+ * Server-side session of a file uploaded in chunks. Kept in the browser so an
+ * interrupted upload resumes where it stopped, even after a reload.
+ */
+export interface UploadSession {
+  id: string;
+  fileKey: string; // name, size and modification time of the file
+  fileName: string;
+  fileSize: number;
+  caseId?: string;
+  chunkSize: number;
+  totalChunks: number;
+  uploadedChunks: number[];
+  createdAt: string;
+}
+
+export interface UploadSessionsState {
+  byFileKey: Record<string, UploadSession>;
 }
 
 export type ExtractionStatus = 'pending' | 'processing' | 'complete' | 'failed';
@@ -85,18 +156,56 @@ export interface QualityCheck {
 
 export type CheckStatus = 'pass' | 'warning' | 'fail';
 
+// Detailed result of one quality check, as shown in the quality check panel
+export interface DocumentQualityCheck {
+  id: string;
+  name: string;
+  status: CheckStatus;
+  score: number; // 0-100
+  severity: 'low' | 'medium' | 'high';
+  details: string;
+  recommendation?: string;
+  affectedRegions?: Array<{
+    page: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }>;
+}
+
+export interface DocumentQuality {
+  documentId: string;
+  fileName: string;
+  thumbnail?: string;
+  overallScore: number; // 0-100
+  overallStatus: 'high' | 'medium' | 'fail';
+  checks: DocumentQualityCheck[];
+  processingTime: number; // milliseconds
+  checkedAt: Date;
+}
+
 export interface Classification {
   type: string;
   confidence: number;
   manuallyOverridden: boolean;
 }
 
+export type DocumentClassType =
+  | 'identity'
+  | 'medical'
+  | 'receipt'
+  | 'policy'
+  | 'invoice'
+  | 'unknown';
+
 // ============================================
 // Extraction Types
 // ============================================
 
 export interface ExtractedData {
   fields: ExtractedField[];
+  tables?: ExtractedTable[]; // line items of receipts and invoices
   confidence: number;
   extractionTime: number;
 }
@@ -113,6 +222,89 @@ export interface ExtractedField {
   originalValue?: any;
   editedBy?: string;
   editedAt?: string;
+  candidates?: FieldCandidate[]; // one per document the fact was read from
+  resolution?: FieldResolution; // reviewer's pick between conflicting candidates
+  history?: FieldRevision[]; // oldest first; the last revision holds the current value
+  flag?: FieldFlag; // reviewer could not confirm the value and wants a second look
+  acceptedBy?: string; // reviewer who confirmed the extracted value as it is
+}
+
+export interface FieldFlag {
+  flaggedBy: string;
+  flaggedAt: string;
+  note?: string;
+}
+
+export interface FieldCandidate {
+  documentId: string;
+  value: unknown;
+  confidence: number;
+  source: FieldSource;
+}
+
+export interface FieldResolution {
+  documentId: string;
+  resolvedBy: string;
+  resolvedAt: string;
+}
+
+export type FieldRevisionKind = 'extraction' | 'edit' | 'conflict-resolution' | 'revert' | 're-extraction';
+
+export interface FieldRevision {
+  id: string;
+  kind: FieldRevisionKind;
+  value: unknown;
+  confidence: number; // field confidence at the time of the revision
+  editedBy: string;
+  editedAt?: string; // unknown for revisions reconstructed from older data
+  reason?: string;
+  revertedFrom?: string; // revision id restored by a 'revert'
+}
+
+export type LineItemColumn = 'description' | 'quantity' | 'unitPrice' | 'amount';
+
+export interface TableCell {
+  value: string | number | null;
+  confidence: number;
+  source?: FieldSource; // absent for cells added by a reviewer
+  manuallyEdited?: boolean;
+}
+
+export interface LineItemRow {
+  id: string;
+  cells: Record<LineItemColumn, TableCell>;
+}
+
+// Line items read from one document, checked against a scalar total field
+export interface ExtractedTable {
+  id: string;
+  name: string;
+  label: string;
+  documentId: string;
+  rows: LineItemRow[];
+  totalFieldName: string; // `ExtractedField.name` the row amounts should add up to
+}
+
+export type ExtractionEditKind =
+  | 'field-edit'
+  | 'field-revert'
+  | 'conflict-resolution'
+  | 'bulk-accept'
+  | 'flag'
+  | 're-extraction'
+  | 'classification'
+  | 'table-edit';
+
+// A reviewer change on the extraction page, with what it replaced so it can be undone
+export interface ExtractionEdit {
+  id: string;
+  caseId: string;
+  kind: ExtractionEditKind;
+  label: string;
+  fields: Array<{ before: ExtractedField; after: ExtractedField }>;
+  documents: Array<{ before: Document; after: Document }>;
+  tables: Array<{ before: ExtractedTable; after: ExtractedTable }>;
+  createdAt: string;
 }
 
 export interface FieldSource {
@@ -123,6 +315,19 @@ export interface FieldSource {
 
 export type FieldStatus = 'auto-accepted' | 'review-suggested' | 'review-required';
 
+// Confidence at or above `high` is accepted automatically, at or above
+// `medium` review is suggested, and below it review is required
+export interface ConfidenceThresholds {
+  high: number;
+  medium: number;
+}
+
+// Thresholds for a case type, a field, both, or (with neither) the default
+export interface ConfidenceThresholdRule extends ConfidenceThresholds {
+  caseType?: CaseType;
+  fieldName?: string; // `ExtractedField.name`
+}
+
 // ============================================
 // Rules Engine Types
 // ============================================
@@ -136,6 +341,10 @@ export interface RuleResult {
   reasoning: string;
   clause?: string;
   canOverride: boolean;
+  output?: string;
+  confidence?: number;
+  evaluatedAt?: string;
+  override?: RuleOverride; // approved exception; status stays 'fail'
 }
 
 export type RuleCategory =
@@ -147,6 +356,165 @@ export type RuleCategory =
 
 export type RuleStatus = 'pass' | 'fail' | 'warning' | 'skipped';
 
+// ============================================
+// Rule Definition Types
+// ============================================
+
+export interface RuleDefinition {
+  id: string;
+  name: string;
+  category: RuleCategory;
+  description?: string;
+  inputFields: string[];
+  applicability?: RuleConditionGroup;
+  conditions: RuleConditionGroup;
+  outcomes: RuleOutcomes;
+  clause?: string;
+  canOverride: boolean;
+  enabled?: boolean;
+  deductionPercent?: number; // on failure, deduct this share of the claim instead of rejecting
+}
+
+export interface RuleConditionGroup {
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+}
+
+export interface RuleCondition {
+  field: string;
+  operator: RuleOperator;
+  value?: RuleOperand;
+  description?: string;
+}
+
+export type RuleOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'in'
+  | 'notIn'
+  | 'contains'
+  | 'containsAll'
+  | 'startsWith'
+  | 'matches'
+  | 'exists'
+  | 'notExists'
+  | 'before'
+  | 'after'
+  | 'onOrBefore'
+  | 'onOrAfter';
+
+export type RuleLiteral = string | number | boolean | Array<string | number>;
+
+export interface RuleFieldReference {
+  field: string;
+  offsetDays?: number;
+}
+
+export type RuleOperand = RuleLiteral | RuleFieldReference;
+
+export interface RuleOutcome {
+  status: RuleStatus;
+  output: string;
+  reasoning: string; // supports {fieldName} placeholders
+}
+
+export interface RuleOutcomes {
+  pass: RuleOutcome;
+  fail: RuleOutcome;
+  notApplicable?: RuleOutcome;
+  missingData?: RuleOutcome;
+}
+
+export type RuleFacts = Record<string, unknown>;
+
+// ============================================
+// Rule Set Versioning Types
+// ============================================
+
+export interface RuleSetVersion {
+  id: string;
+  version: number;
+  status: RuleSetStatus;
+  rules: RuleDefinition[];
+  effectiveFrom: string; // ISO date the version starts applying
+  createdAt: string;
+  createdBy: string;
+  basedOn?: string; // version id the draft was copied from
+  publishedAt?: string;
+  publishedBy?: string;
+  notes?: string;
+}
+
+export type RuleSetStatus = 'draft' | 'published';
+
+// ============================================
+// Rule Exception Types
+// ============================================
+
+export interface RuleException {
+  id: string;
+  caseId: string;
+  ruleId: string;
+  ruleName: string;
+  ruleSetVersionId?: string;
+  reason: string;
+  status: RuleExceptionStatus;
+  requestedBy: string;
+  requestedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+}
+
+export type RuleExceptionStatus = 'pending' | 'approved' | 'denied';
+
+// Attached to a failed RuleResult once its exception is approved
+export interface RuleOverride {
+  exceptionId: string;
+  reason: string;
+  requestedBy: string;
+  approvedBy: string;
+  approvedAt: string;
+}
+
+// ============================================
+// Rule Replay Types
+// ============================================
+
+export interface RuleInputChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RuleResultDiff {
+  ruleId: string;
+  ruleName: string;
+  previousStatus: RuleStatus | null; // null when the rule had no previous result
+  currentStatus: RuleStatus;
+  statusChanged: boolean;
+  reasoningChanged: boolean;
+  previousReasoning?: string;
+  changedInputs: RuleInputChange[];
+}
+
+export type RuleReplayScope = 'all' | 'category' | 'rule';
+
+export interface RuleReplay {
+  id: string;
+  caseId: string;
+  ruleSetVersionId: string;
+  scope: RuleReplayScope;
+  ruleIds: string[];
+  replayedAt: string;
+  duration: number; // in ms
+  diffs: RuleResultDiff[];
+}
+
 // ============================================
 // Decision Types
 // ============================================
@@ -161,6 +529,7 @@ export interface Decision {
   confidence: number;
   rationale: string;
   approvalWorkflow: ApprovalStep[];
+  calculation?: BenefitCalculation;
   createdAt: string;
   createdBy: string;
 }
@@ -176,6 +545,180 @@ export interface ApprovalStep {
 
 export type StepStatus = 'complete' | 'active' | 'pending' | 'error' | 'future';
 
+// ============================================
+// Decision Trace Types
+// ============================================
+
+export type DecisionNodeType = 'rule' | 'condition' | 'action' | 'result';
+
+export type NodeStatus = 'pass' | 'fail' | 'warning' | 'skipped' | 'pending';
+
+export interface DecisionNode {
+  id: string;
+  type: DecisionNodeType;
+  status: NodeStatus;
+  name: string;
+  description?: string;
+  input: Record<string, unknown>;
+  output?: Record<string, unknown>;
+  reasoning?: string;
+  policyReference?: string;
+  children?: DecisionNode[];
+  evaluatedAt?: string;
+  evaluationDuration?: number; // in ms
+  canOverride?: boolean;
+}
+
+export interface DecisionTrace {
+  id: string;
+  caseId: string;
+  decisionId: string;
+  rootNode: DecisionNode;
+  totalNodes: number;
+  passedNodes: number;
+  failedNodes: number;
+  skippedNodes: number;
+  evaluationDuration: number; // in ms
+  evaluatedAt: string;
+}
+
+// ============================================
+// Fraud Signal Types
+// ============================================
+
+export type FraudSignalKind = 'duplicate-receipt' | 'duplicate-document' | 'round-amount' | 'early-claim';
+
+export type FraudRiskLevel = 'low' | 'medium' | 'high';
+
+export interface FraudSignal {
+  kind: FraudSignalKind;
+  weight: number; // contribution to the risk score
+  description: string;
+  relatedCaseId?: string;
+}
+
+export interface FraudAssessment {
+  score: number; // 0-100
+  level: FraudRiskLevel;
+  signals: FraudSignal[];
+  comparedCases: number;
+}
+
+// ============================================
+// Benefit Calculation Types
+// ============================================
+
+export interface PolicyTerms {
+  policyLimit: number;
+  remainingCoverage: number; // benefit still available in the policy period
+  deductible: number;
+  coPayPercent: number;
+}
+
+export type BenefitCalculationStep =
+  | 'percentage-deduction'
+  | 'deductible'
+  | 'co-pay'
+  | 'policy-limit'
+  | 'remaining-coverage';
+
+export interface BenefitCalculationLine {
+  step: BenefitCalculationStep;
+  label: string;
+  amount: number; // negative when the line reduces the payable amount
+  runningTotal: number;
+  reference?: string; // rule clause or policy term
+}
+
+export interface BenefitCalculation {
+  claimAmount: number;
+  policy: PolicyTerms;
+  lines: BenefitCalculationLine[];
+  totalDeduction: number;
+  payableAmount: number;
+}
+
+// ============================================
+// Golden Case Regression Types
+// ============================================
+
+export interface GoldenCase {
+  id: string;
+  name: string;
+  description?: string;
+  case: Case;
+  expected: GoldenExpectation;
+}
+
+export interface GoldenExpectation {
+  ruleStatuses: Record<string, RuleStatus>; // keyed by rule id
+  decisionStatus: DecisionStatus;
+  approvedAmount?: number;
+}
+
+export type GoldenMismatchKind = 'rule-status' | 'missing-rule' | 'decision-status' | 'approved-amount';
+
+export interface GoldenMismatch {
+  goldenCaseId: string;
+  goldenCaseName: string;
+  kind: GoldenMismatchKind;
+  subject: string; // rule name or 'Decision'
+  ruleId?: string;
+  expected: string;
+  actual: string;
+}
+
+export interface GoldenCaseOutcome {
+  goldenCaseId: string;
+  goldenCaseName: string;
+  passed: boolean;
+  ruleResults: RuleResult[];
+  decision: Decision;
+  mismatches: GoldenMismatch[];
+}
+
+export interface GoldenRunReport {
+  ruleSetVersionId: string;
+  ruleSetVersion: number;
+  ranAt: string;
+  duration: number; // in ms
+  total: number;
+  passed: number;
+  failed: number;
+  outcomes: GoldenCaseOutcome[];
+  mismatches: GoldenMismatch[];
+}
+
+// ============================================
+// Rule Set Backtest Types
+// ============================================
+
+export interface BacktestCaseImpact {
+  caseId: string;
+  caseTitle: string;
+  baselineDecision: DecisionStatus;
+  draftDecision: DecisionStatus;
+  decisionChanged: boolean;
+  baselinePayout: number;
+  draftPayout: number;
+  payoutDelta: number;
+  diffs: RuleResultDiff[]; // rules whose result changed under the draft
+  removedRuleIds: string[]; // evaluated by the baseline but not the draft
+}
+
+export interface BacktestReport {
+  ruleSetVersionId: string;
+  baselineRuleSetVersionId: string;
+  ranAt: string;
+  duration: number; // in ms
+  totalCases: number;
+  skippedCases: number; // cases without extracted data
+  changedCases: number;
+  transitions: Record<DecisionStatus, Record<DecisionStatus, number>>; // baseline -> draft counts
+  totalPayoutDelta: number;
+  impacts: BacktestCaseImpact[]; // changed cases only
+}
+
 // ============================================
 // Timeline Types
 // ============================================
@@ -294,6 +837,18 @@ export interface SLATimerProps {
   criticalThreshold?: number; // hours
 }
 
+// A highlighted area of a document page, in the pixels the page is rendered at
+export interface SourceRegion {
+  id: string;
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: string;
+  color?: string; // 'success' | 'warning' | 'error' | 'match'; primary when absent
+}
+
 // ============================================
 // API Types
 // ============================================
@@ -320,6 +875,18 @@ export interface ExtractionResponse {
   extractionTime: number;
 }
 
+// Result of reading a field again, optionally from a region the reviewer drew
+export interface FieldReextractionResponse {
+  value: unknown;
+  confidence: number;
+  source: FieldSource;
+}
+
+export interface FieldHistoryResponse {
+  fieldId: string;
+  revisions: FieldRevision[]; // oldest first
+}
+
 export interface RulesEvaluationResponse {
   results: RuleResult[];
   passed: number;